@@ -1,20 +1,190 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
-  Direction, TrafficSide, Phase, Vehicle, Metrics, AIDecision 
+  Direction, TrafficSide, Phase, Metrics, AIDecision 
 } from './types';
 import { 
-  CANVAS_WIDTH, CANVAS_HEIGHT, ROAD_WIDTH, CAR_WIDTH, CAR_HEIGHT, 
-  MIN_GREEN_TIME, MAX_GREEN_TIME, YELLOW_TIME, ACTIONS, INITIAL_EPSILON,
-  REWARDS, CO2, STOP_THRESHOLD, ACCELERATION, BRAKING_FORCE, TRUCK_WIDTH,
-  WEATHER, SunIcon, CloudRainIcon, CloudFogIcon, BrainIcon, PlayIcon, 
-  PauseIcon, RefreshIcon, NavigationIcon, GAMMA 
+  CANVAS_WIDTH, CANVAS_HEIGHT, ROAD_WIDTH, CAR_HEIGHT, 
+  MIN_GREEN_TIME, WEATHER, SunIcon, CloudRainIcon, CloudFogIcon, BrainIcon, PlayIcon, 
+  PauseIcon, RefreshIcon, NavigationIcon 
 } from './constants';
-import { DQNAgent } from './services/dqnAgent';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { AgentClient, DECISION_DEADLINE_MS, withDeadline } from './services/agentClient';
+import { TrafficSimulation, SimVehicle, LaneStats, FIXED_DT, DIRECTIONS, LANE_CHANGE_CUTOFF } from './services/simulation';
+import {
+  TrafficNetwork, NetworkNode, NetworkLayoutId, NETWORK_LAYOUTS, RouteStats
+} from './services/network';
+import {
+  Movement, STOP_LINE_OFFSET, LANE_OFFSET, ENTRY_OFFSET, TRAVEL, toScreen, headingAngle, halfExtent, laneOffset, laneWidth
+} from './services/geometry';
+import { LoggedTrip } from './services/trips';
+import { LaneConfig, describeLane, loadLaneConfig, saveLaneConfig, normalizeLaneConfig } from './services/lanes';
+import { createSeed } from './services/random';
+import {
+  ModelSnapshot, ModelSummary, TrainingProgress, AUTOSAVE_NAME, captureModel, parseModelFile,
+  emptyTrainingProgress, snapshotProgress, listSavedModels, hasSavedModel, saveModelToStorage, loadModelFromStorage,
+  deleteModelFromStorage, exportModel
+} from './services/modelStore';
+import { ControllerId, CONTROLLER_IDS, FixedTimeController, createControllers } from './services/controllers';
+import {
+  SignalStage, SignalMode, SIGNAL_ACTIONS, INITIAL_STAGE, STAGE_SIDE, STAGE_LABELS, SIGNAL_MODE_LABELS, isLeftStage, movementSignal,
+  isFlashMainRoad
+} from './services/signalPlan';
+import {
+  OperatorConsole, ManualOverride, PlanId, PlanWindow, AuditEntry, loadPlanSchedule, savePlanSchedule, normalizePlanSchedule
+} from './services/operator';
+import { buildObservation, STATE_SIZE } from './services/observation';
+import {
+  Hyperparameters, changedHyperparameters, loadHyperparameters, saveHyperparameters
+} from './services/hyperparameters';
+import {
+  SafetyShield, ShieldConfig, allowedActions, loadShieldConfig, saveShieldConfig, normalizeShieldConfig
+} from './services/safetyShield';
+import {
+  DecisionContext, DecisionExplanation, actionProbability, decisionSource, explainDecision
+} from './services/explain';
+import { EmergencyKind, PreemptionEvent, EMERGENCY_VEHICLES } from './services/emergency';
+import { Incident, IncidentSummary, INCIDENT_TYPES } from './services/conflicts';
+import { VehicleClassId, VEHICLE_CLASSES, PX_PER_METRE } from './services/vehicles';
+import { EmissionSummary, EmissionTotals, summarizeEmissions } from './services/emissions';
+import { runEpisode, defaultScenario } from './services/benchmark';
+import {
+  WeatherScript, WeatherEffects, WeatherBreakdown, weatherBucket, weatherEffects, loadWeatherScript, saveWeatherScript, normalizeWeatherScript
+} from './services/weather';
+import {
+  SensorConfig, Detector, ApproachReading, DETECTOR_TYPES, emptyReadings, trueReadings, loadSensorConfig, saveSensorConfig, normalizeSensorConfig
+} from './services/sensors';
+import {
+  Pedestrian, PedestrianStats, WalkSignal, CROSSWALK_OFFSET, CROSSWALK_WIDTH, CROSSING_LENGTH
+} from './services/pedestrians';
+import {
+  RewardConfig, RewardBreakdown, RewardTracker, REWARD_TERM_IDS, REWARD_TERMS,
+  DEFAULT_REWARD_CONFIG, computeRewardBreakdown, totalReward, createRewardTracker, loadRewardConfig, saveRewardConfig
+} from './services/reward';
+import {
+  TelemetryRecorder, RunSummary, EpisodeRecording, SignalSnapshot, VehicleSnapshot, FrameSnapshot, SNAPSHOT_INTERVAL,
+  decisionAt, downsampleSeries
+} from './services/telemetry';
+import {
+  DemandProfile, DEFAULT_DEMAND_PROFILE, clockHour, loadDemandPresets, saveDemandPreset, deleteDemandPreset
+} from './services/demand';
+import { Scenario, BUILT_IN_SCENARIOS, createScenario, parseScenario, exportScenario } from './services/scenario';
+import ModelManager, { ModelStatus } from './components/ModelManager';
+import ControllerComparison, { emptyControllerStats } from './components/ControllerComparison';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import DemandPanel from './components/DemandPanel';
+import RouteStatsPanel from './components/RouteStatsPanel';
+import TripPanel from './components/TripPanel';
+import EmergencyPanel from './components/EmergencyPanel';
+import RewardDesigner from './components/RewardDesigner';
+import TelemetryPanel from './components/TelemetryPanel';
+import DecisionExplanationPanel from './components/DecisionExplanationPanel';
+import SafetyShieldPanel from './components/SafetyShieldPanel';
+import IncidentPanel from './components/IncidentPanel';
+import EmissionsPanel from './components/EmissionsPanel';
+import WeatherPanel, { emptyWeatherStats } from './components/WeatherPanel';
+import SensorPanel from './components/SensorPanel';
+import OperatorPanel from './components/OperatorPanel';
+import HyperparameterPanel from './components/HyperparameterPanel';
+import LanePanel from './components/LanePanel';
+import ScenarioMenu from './components/ScenarioMenu';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 
 // --- Utility Helpers ---
-const normalizeValue = (value: number, max: number) => Math.min(Math.max(value / max, 0), 1);
+const formatSimTime = (seconds: number) =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+const formatClock = (hour: number) => formatSimTime(hour * 60);
+
+// --- Simulation Speed ---
+type SimSpeed = 1 | 4 | 16 | 'MAX';
+const SPEED_OPTIONS: SimSpeed[] = [1, 4, 16, 'MAX'];
+const RENDER_INTERVAL_MS = 50;       // repaint throttle when running faster than real time
+const MAX_SPEED_PUBLISH_MS = 500;    // dashboard refresh while running unrendered
+const MAX_SPEED_SLICE_MS = 12;       // main-thread budget per unrendered batch
+const REWARD_LOG_SIZE = 500;         // per-decision reward breakdowns kept in memory
+const REWARD_CHART_STEPS = 50;
+const TRAINING_CHART_POINTS = 300;   // full-run series are thinned to this many points
+
+// --- Network View ---
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.2;
+const SIGNAL_COLORS = { protected: '#10b981', permitted: '#10b981', stop: '#ef4444', yellow: '#f59e0b' };
+const WALK_COLORS: Record<WalkSignal, string> = { walk: '#f4f4f5', clearance: '#f97316', dontWalk: '#c2410c' };
+const WALK_LABELS: Record<WalkSignal, string> = { walk: 'Walk', clearance: 'Flashing', dontWalk: "Don't Walk" };
+const EMPTY_PEDESTRIAN_STATS: PedestrianStats = { waiting: { N: 0, S: 0, E: 0, W: 0 }, crossed: 0, meanWait: 0, maxWait: 0 };
+const EMPTY_INCIDENT_SUMMARY: IncidentSummary = {
+  counts: { collision: 0, ttc: 0, pet: 0, redLight: 0 }, conflicts: 0, minTTC: null, minPET: null,
+};
+const INCIDENT_MARKER_SECONDS = 5;   // how long an incident stays marked on the map
+const EMPTY_EMISSION_SUMMARY: EmissionSummary = summarizeEmissions([]);
+const EMPTY_READINGS = emptyReadings();
+const EMPTY_LANE_STATS: Record<Direction, LaneStats[]> = { N: [], S: [], E: [], W: [] };
+const CO2_REDUCTION_TARGET = -0.3;   // against the fixed-time baseline, in g/km
+const BASELINE_DELAY_MS = 1000;      // settle time before the baseline reruns after a scenario edit
+const FALLBACK_CONTROLLER = new FixedTimeController();   // decides when the agent worker misses its deadline
+const NO_Q_VALUES = SIGNAL_ACTIONS.map(() => 0);
+
+const createAgent = (config: Hyperparameters) => new AgentClient(
+  new Worker(new URL('./services/agent.worker.ts', import.meta.url), { type: 'module' }),
+  { stateSize: STATE_SIZE, actionSize: SIGNAL_ACTIONS.length, config }
+);
+
+// Per-node learning state: the shared agent sees one transition stream per intersection
+interface NodeLearning {
+  lastState: number[] | null;
+  lastAction: number | null;
+  rewardTracker: RewardTracker;
+  stepEmissions: number;
+}
+
+// Aspect of a signal head for one movement; yellow only shows to movements that just had green
+const signalAspect = ({ stage, phase, preemptedApproach, mode }: SignalSnapshot, dir: Direction, movement: Movement) => {
+  if (mode === 'allRed') return 'stop';
+  if (mode === 'flash') return isFlashMainRoad(dir) ? 'yellow' : 'stop';
+  if (preemptedApproach) return dir === preemptedApproach ? 'protected' : 'stop';
+  if (phase === Phase.YELLOW) return movementSignal(stage, Phase.GREEN, dir, movement) === 'stop' ? 'stop' : 'yellow';
+  return movementSignal(stage, phase, dir, movement);
+};
+
+const createNodeLearning = (): NodeLearning => ({
+  lastState: null, lastAction: null, rewardTracker: createRewardTracker(), stepEmissions: 0,
+});
+
+// What every junction's signal heads show right now; a preempted approach holds the only green
+const captureSignals = (network: TrafficNetwork): Record<string, SignalSnapshot> =>
+  Object.fromEntries(network.nodes.map(({ id, sim }) => {
+    const preemption = sim.activePreemption;
+    const preemptedApproach = preemption && preemption.greenAt !== null ? preemption.approach : null;
+    const walk = {} as Record<Direction, WalkSignal>;
+    DIRECTIONS.forEach(dir => { walk[dir] = sim.crossings.crosswalks[dir].signal; });
+    return [id, { stage: sim.stage, phase: sim.phase, timer: Math.ceil(sim.timer), preemptedApproach, walk, mode: sim.mode }];
+  }));
+
+// Recordings made before vehicle classes existed carry no class and draw as cars
+const vehicleWidth = ({ vehicleClass }: { vehicleClass?: VehicleClassId }) =>
+  (vehicleClass && VEHICLE_CLASSES[vehicleClass]?.width) || CAR_HEIGHT;
+
+const captureVehicles = (vehicles: SimVehicle[]): VehicleSnapshot[] => vehicles.map(v => ({
+  id: v.id, x: Math.round(v.x * 10) / 10, y: Math.round(v.y * 10) / 10, angle: Math.round(v.angle),
+  length: v.length, vehicleClass: v.vehicleClass, color: v.color, movement: v.movement,
+  turned: v.turned, isStopping: v.isStopping, emergency: v.emergency,
+}));
+
+// Trees scattered over the grass, clear of every road in the layout
+const scatterTrees = (network: TrafficNetwork) => {
+  const { width, height } = network.bounds;
+  const nearRoad = (x: number, y: number) => network.nodes.some(({ sim }) =>
+    Math.abs(x - sim.center.x) < 95 || Math.abs(y - sim.center.y) < 95);
+  const pos = [];
+  for (let i = 0; i < 20 * network.nodes.length; i++) {
+    let tx, ty;
+    do {
+      tx = Math.random() * width;
+      ty = Math.random() * height;
+    } while (nearRoad(tx, ty));
+    pos.push({ x: tx, y: ty, scale: 0.6 + Math.random() * 0.7 });
+  }
+  return pos;
+};
 
 // --- Sub-Components ---
 const EcoTree = ({ x, y, scale = 1 }: { x: number; y: number; scale?: number }) => (
@@ -32,8 +202,9 @@ const MetricCard = ({ label, value, colorClass = 'text-indigo-400' }: { label: s
   </div>
 );
 
-const TrafficLightDisplay = ({ side, activeSide, phase, timer }: { side: TrafficSide; activeSide: TrafficSide; phase: Phase; timer: number }) => {
-  const isActive = activeSide === side;
+const TrafficLightDisplay = ({ side, stage, phase, timer }: { side: TrafficSide; stage: SignalStage; phase: Phase; timer: number }) => {
+  const isActive = STAGE_SIDE[stage] === side;
+  const isLeft = isActive && isLeftStage(stage);
   const directionName = side === TrafficSide.NS ? 'North-South' : 'East-West';
   
   return (
@@ -47,10 +218,17 @@ const TrafficLightDisplay = ({ side, activeSide, phase, timer }: { side: Traffic
       <div className={`text-4xl font-mono font-black text-center ${isActive ? 'text-white' : 'text-zinc-800'}`}>
         {isActive ? Math.max(0, timer).toString().padStart(2, '0') : '--'}
       </div>
-      <div className="flex justify-center gap-2 mt-4">
-        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${isActive && phase === Phase.GREEN ? 'bg-emerald-400 shadow-[0_0_15px_#10b981]' : 'bg-zinc-800'}`} />
-        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${isActive && phase === Phase.YELLOW ? 'bg-amber-400 shadow-[0_0_15px_#f59e0b]' : 'bg-zinc-800'}`} />
-        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${!isActive ? 'bg-rose-500 shadow-[0_0_15px_#ef4444]' : 'bg-zinc-800'}`} />
+      <div className="flex justify-center items-center gap-2 mt-4">
+        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${isActive && !isLeft && phase === Phase.GREEN ? 'bg-emerald-400 shadow-[0_0_15px_#10b981]' : 'bg-zinc-800'}`} />
+        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${isActive && !isLeft && phase === Phase.YELLOW ? 'bg-amber-400 shadow-[0_0_15px_#f59e0b]' : 'bg-zinc-800'}`} />
+        <div className={`w-3 h-3 rounded-full transition-all duration-300 ${!isActive || isLeft || phase === Phase.RED ? 'bg-rose-500 shadow-[0_0_15px_#ef4444]' : 'bg-zinc-800'}`} />
+        <div className={`ml-1 text-sm font-black leading-none transition-all duration-300 ${
+          isLeft && phase === Phase.GREEN ? 'text-emerald-400 drop-shadow-[0_0_6px_#10b981]'
+            : isLeft && phase === Phase.YELLOW ? 'text-amber-400 drop-shadow-[0_0_6px_#f59e0b]' : 'text-zinc-800'
+        }`}>←</div>
+      </div>
+      <div className="text-[8px] font-black text-zinc-500 uppercase tracking-widest text-center mt-2">
+        {!isActive || phase === Phase.RED ? 'Stop' : isLeft ? 'Protected Left' : 'Through · Left Yields'}
       </div>
     </div>
   );
@@ -61,362 +239,796 @@ const App: React.FC = () => {
   // --- Refs for Performance and State Stability ---
   // Fix: Added null as initial value to resolve "Expected 1 arguments, but got 0" error
   const requestRef = useRef<number | null>(null);
-  const agentRef = useRef<DQNAgent | null>(null);
-  const vehiclesRef = useRef<Vehicle[]>([]);
-  const timerRef = useRef<number>(MIN_GREEN_TIME);
-  const phaseRef = useRef<Phase>(Phase.GREEN);
-  const activeSideRef = useRef<TrafficSide>(TrafficSide.NS);
+  const agentRef = useRef<AgentClient | null>(null);
+  const autosaveReadyRef = useRef(false);   // set once the last autosave has been restored, or found missing or unusable
   const isPausedRef = useRef<boolean>(false);
-  const statsRef = useRef<Record<Direction, number>>({ N: 0, S: 0, E: 0, W: 0 });
-  const metricsInternalRef = useRef({
-    episodeReward: 0, lastState: null as number[] | null, lastAction: null as number | null, 
-    stepCount: 0, vehiclePassedIds: new Set<string>(), stepEmissions: 0, lastEmissionUpdate: Date.now()
-  });
+  const speedRef = useRef<SimSpeed>(1);
+  const decisionPendingRef = useRef(false);
+  const latestDecisionRef = useRef<AIDecision | null>(null);
+  const latestContextRef = useRef<DecisionContext | null>(null);
+  const explainedContextRef = useRef<DecisionContext | null>(null);
+  const frameClockRef = useRef({ lastFrameTime: Date.now(), accumulator: 0, lastPublish: 0 });
+  const trainingProgressRef = useRef<TrainingProgress>(emptyTrainingProgress());
+  const controllerIdRef = useRef<ControllerId>('dqn');
+  const rewardConfigRef = useRef<RewardConfig>(loadRewardConfig());
+  const hyperparametersRef = useRef<Hyperparameters>(loadHyperparameters());
+  const rewardLogRef = useRef<(RewardBreakdown & { step: number; node: string })[]>([]);
+  const controllerStatsRef = useRef(emptyControllerStats());
+  const weatherStatsRef = useRef(emptyWeatherStats());
+  const metricsInternalRef = useRef({ episodeReward: 0, stepCount: 0, decisionCount: 0, episode: 0 });
+  const nodeLearningRef = useRef<Record<string, NodeLearning>>({});
+  const focusedNodeRef = useRef('A');
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const recorderRef = useRef<TelemetryRecorder | null>(null);
+  const runIdRef = useRef<number | null>(null);
+  const recordingRef = useRef(true);
+  const lastFrameTimeRef = useRef(-Infinity);
+  const [network] = useState(() => new TrafficNetwork({ seed: createSeed(), lanes: loadLaneConfig() }));
+  const [shield] = useState(() => new SafetyShield(loadShieldConfig()));
+  const [operator] = useState(() => new OperatorConsole());
+  const controllers = useMemo(() => createControllers(() => agentRef.current), []);
+  const benchmarkControllers = useMemo(() => createControllers(() => agentRef.current, false), []);
 
   // --- React State ---
   const [timer, setTimer] = useState(MIN_GREEN_TIME);
   const [phase, setPhase] = useState<Phase>(Phase.GREEN);
-  const [activeSide, setActiveSide] = useState<TrafficSide>(TrafficSide.NS);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [weatherMode, setWeatherMode] = useState<string>('SUNNY');
+  const [stage, setStage] = useState<SignalStage>(INITIAL_STAGE);
+  const [vehicles, setVehicles] = useState<SimVehicle[]>([]);
+  const [weatherScript, setWeatherScript] = useState<WeatherScript>(loadWeatherScript);
+  const [weatherMode, setWeatherMode] = useState<string>(weatherScript.initial);
+  const [currentWeatherEffects, setCurrentWeatherEffects] = useState<WeatherEffects>(() => weatherEffects(weatherScript.initial));
+  const [weatherStats, setWeatherStats] = useState<WeatherBreakdown>({});
+  const [sensorConfig, setSensorConfig] = useState<SensorConfig>(loadSensorConfig);
+  const [detectors, setDetectors] = useState<Record<string, Detector[]>>({});
+  const [sensorReadings, setSensorReadings] = useState<Record<Direction, ApproachReading>>(EMPTY_READINGS);
+  const [sensorTruth, setSensorTruth] = useState<Record<Direction, ApproachReading>>(EMPTY_READINGS);
   const [autoSpawn, setAutoSpawn] = useState(true);
   const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState<SimSpeed>(1);
+  const [simTime, setSimTime] = useState(0);
   const [simulationStep, setSimulationStep] = useState(0);
   const [stats, setStats] = useState<Record<Direction, number>>({ N: 0, S: 0, E: 0, W: 0 });
+  const [laneConfig, setLaneConfig] = useState<LaneConfig>(loadLaneConfig);
+  const [laneStats, setLaneStats] = useState<Record<Direction, LaneStats[]>>(EMPTY_LANE_STATS);
+  const [pedestrians, setPedestrians] = useState<Pedestrian[]>([]);
+  const [pedestrianStats, setPedestrianStats] = useState<PedestrianStats>(EMPTY_PEDESTRIAN_STATS);
+  const [rewardConfig, setRewardConfig] = useState<RewardConfig>(() => rewardConfigRef.current);
+  const [rewardLog, setRewardLog] = useState<(RewardBreakdown & { step: number })[]>([]);
+  const [entryBacklog, setEntryBacklog] = useState<Record<Direction, number>>({ N: 0, S: 0, E: 0, W: 0 });
+  const [demandProfile, setDemandProfile] = useState<DemandProfile>(DEFAULT_DEMAND_PROFILE);
+  const [demandPresets, setDemandPresets] = useState<DemandProfile[]>(() => loadDemandPresets());
+  const [hyperparameters, setHyperparameters] = useState<Hyperparameters>(() => hyperparametersRef.current);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
   const [metrics, setMetrics] = useState<Metrics>({
     totalEmissions: 0, vehiclesPassed: 0, episodeReward: 0,
-    avgLoss: 0, epsilon: INITIAL_EPSILON, episodes: 0, rewardHistory: [],
+    avgLoss: 0, epsilon: hyperparameters.initialEpsilon, episodes: 0, rewardHistory: [],
   });
   const [aiDecision, setAiDecision] = useState<AIDecision>({ 
-    action: 'Initializing...', qValues: [0, 0, 0], confidence: '0',
+    action: 'Initializing...', qValues: SIGNAL_ACTIONS.map(() => 0), confidence: '0',
   });
+  const [controllerId, setControllerId] = useState<ControllerId>('dqn');
+  const [controllerStats, setControllerStats] = useState(emptyControllerStats);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [savedModels, setSavedModels] = useState<ModelSummary[]>(() => listSavedModels());
+  const [modelStatus, setModelStatus] = useState<ModelStatus | null>(null);
+  const [layout, setLayout] = useState<NetworkLayoutId>('single');
+  const [focusedNode, setFocusedNode] = useState('A');
+  const [nodeSignals, setNodeSignals] = useState<Record<string, SignalSnapshot>>({});
+  const [routeStats, setRouteStats] = useState<RouteStats[]>([]);
+  const [trips, setTrips] = useState<{ log: LoggedTrip[]; total: number }>({ log: [], total: 0 });
+  const [preemptionEvents, setPreemptionEvents] = useState<(PreemptionEvent & { node: string })[]>([]);
+  const [activePreemption, setActivePreemption] = useState<PreemptionEvent | null>(null);
+  const [incidents, setIncidents] = useState<(Incident & { node: string })[]>([]);
+  const [incidentSummary, setIncidentSummary] = useState<IncidentSummary>(EMPTY_INCIDENT_SUMMARY);
+  const [emissionSummary, setEmissionSummary] = useState<EmissionSummary>(EMPTY_EMISSION_SUMMARY);
+  const [focusedEmissions, setFocusedEmissions] = useState<Record<Direction, EmissionTotals>>(EMPTY_EMISSION_SUMMARY.byApproach);
+  const [emissionBaseline, setEmissionBaseline] = useState<number | null>(null);
+  const [view, setView] = useState({ zoom: 1, x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 });
+  const [trainingProgress, setTrainingProgress] = useState<TrainingProgress>(emptyTrainingProgress);
+  const [recorder, setRecorder] = useState<TelemetryRecorder | null>(null);
+  const [recording, setRecording] = useState(true);
+  const [activeRunId, setActiveRunId] = useState<number | null>(null);
+  const [shieldConfig, setShieldConfig] = useState<ShieldConfig>(() => shield.config);
+  const [shieldLog, setShieldLog] = useState({ overrides: shield.overrides, count: 0 });
+  const [explanation, setExplanation] = useState<DecisionExplanation | null>(null);
+  const [replayExplanation, setReplayExplanation] = useState<DecisionExplanation | null>(null);
+  const [episodesRecorded, setEpisodesRecorded] = useState(0);
+  const [telemetryError, setTelemetryError] = useState<string | null>(null);
+  const [planSchedule, setPlanSchedule] = useState<PlanWindow[]>(loadPlanSchedule);
+  const [operatorLog, setOperatorLog] = useState<{ overrides: Record<string, ManualOverride>; plan: PlanId | null; audit: AuditEntry[] }>(
+    { overrides: {}, plan: null, audit: [] }
+  );
+  const [replay, setReplay] = useState<{ run: RunSummary; episode: number; recording: EpisodeRecording; frame: number } | null>(null);
 
   // --- Sync State with Refs ---
-  useEffect(() => { timerRef.current = timer; }, [timer]);
-  useEffect(() => { phaseRef.current = phase; }, [phase]);
-  useEffect(() => { activeSideRef.current = activeSide; }, [activeSide]);
   useEffect(() => { isPausedRef.current = isPaused; }, [isPaused]);
-  useEffect(() => { statsRef.current = stats; }, [stats]);
+  useEffect(() => { speedRef.current = speed; }, [speed]);
+  useEffect(() => { controllerIdRef.current = controllerId; }, [controllerId]);
+  useEffect(() => {
+    rewardConfigRef.current = rewardConfig;
+    saveRewardConfig(rewardConfig);
+  }, [rewardConfig]);
+  useEffect(() => { focusedNodeRef.current = focusedNode; }, [focusedNode]);
+  useEffect(() => { recordingRef.current = recording; }, [recording]);
+  useEffect(() => {
+    shield.config = normalizeShieldConfig(shieldConfig);
+    saveShieldConfig(shieldConfig);
+  }, [shield, shieldConfig]);
+  useEffect(() => {
+    network.setWeather(normalizeWeatherScript(weatherScript));
+    saveWeatherScript(weatherScript);
+    setWeatherMode(network.weather);
+    setCurrentWeatherEffects(network.weatherEffects);
+  }, [network, weatherScript]);
+  useEffect(() => {
+    operator.setSchedule(normalizePlanSchedule(planSchedule), network.time);
+    savePlanSchedule(planSchedule);
+  }, [operator, network, planSchedule]);
+  useEffect(() => {
+    network.setSensors(normalizeSensorConfig(sensorConfig));
+    saveSensorConfig(sensorConfig);
+  }, [network, sensorConfig]);
+  useEffect(() => { network.setAutoSpawn(autoSpawn); }, [network, autoSpawn]);
+  useEffect(() => { network.setDemand(demandProfile); }, [network, demandProfile]);
+
+  // The fixed-time plan's CO₂ per km on the current scenario, run headless as the reduction baseline
+  useEffect(() => {
+    let cancelled = false;
+    setEmissionBaseline(null);
+    const scenario = defaultScenario(
+      network.seed, normalizeWeatherScript(weatherScript), demandProfile, DEFAULT_REWARD_CONFIG, normalizeShieldConfig(shieldConfig),
+      normalizeSensorConfig(sensorConfig), laneConfig
+    );
+    const timeout = setTimeout(() => {
+      runEpisode(new FixedTimeController(), scenario, 0, () => cancelled).then(result => {
+        if (!cancelled) setEmissionBaseline(result.distance > 0 ? result.emissions / result.distance : null);
+      }, () => {});
+    }, BASELINE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [network, weatherScript, demandProfile, shieldConfig, sensorConfig, laneConfig]);
 
   // --- Initialization ---
+  // The autosave is restored before any new one is written, so a refresh carries on training where it stopped
   useEffect(() => {
-    agentRef.current = new DQNAgent();
+    const agent = agentRef.current = createAgent(hyperparametersRef.current);
+    const restore = async () => {
+      if (!hasSavedModel(AUTOSAVE_NAME)) return;
+      const snapshot = loadModelFromStorage(AUTOSAVE_NAME, getModelShape());
+      await applySnapshot(snapshot);
+      setModelStatus({ kind: 'ok', text: `Restored autosave after ${snapshot.episodes} episodes` });
+    };
+    restore()
+      .catch(err => {
+        if (!agent.isDisposed) setModelStatus({ kind: 'error', text: `Autosave not restored: ${(err as Error).message}` });
+      })
+      .finally(() => { if (agentRef.current === agent) autosaveReadyRef.current = true; });
     return () => agentRef.current?.dispose();
   }, []);
 
-  // Update stats ref when vehicles change
+  // Each reset starts a fresh telemetry run; records made before the run id arrives are dropped
+  const startTelemetryRun = useCallback(() => {
+    runIdRef.current = null;
+    setActiveRunId(null);
+    lastFrameTimeRef.current = -Infinity;
+    const telemetry = recorderRef.current;
+    if (!telemetry) return;
+    telemetry.startRun(controllers[controllerIdRef.current].label, network.layout, hyperparametersRef.current).then(id => {
+      runIdRef.current = id;
+      setActiveRunId(id);
+    }, err => setTelemetryError((err as Error).message));
+  }, [controllers, network]);
+
   useEffect(() => {
-    vehiclesRef.current = vehicles;
-    const counts = { N: 0, S: 0, E: 0, W: 0 };
-    vehicles.forEach(v => { if (!v.passed) counts[v.dir]++; });
-    setStats(counts);
-  }, [vehicles]);
-
-  // Static tree positions for the background
-  const treePositions = useMemo(() => {
-    const pos = [];
-    for (let i = 0; i < 20; i++) {
-      let tx, ty;
-      do {
-        tx = Math.random() * CANVAS_WIDTH;
-        ty = Math.random() * CANVAS_HEIGHT;
-      } while (Math.abs(tx - CANVAS_WIDTH/2) < 95 || Math.abs(ty - CANVAS_HEIGHT/2) < 95);
-      pos.push({ x: tx, y: ty, scale: 0.6 + Math.random() * 0.7 });
-    }
-    return pos;
-  }, []);
+    TelemetryRecorder.open(setTelemetryError).then(telemetry => {
+      recorderRef.current = telemetry;
+      setRecorder(telemetry);
+      startTelemetryRun();
+    }, err => setTelemetryError((err as Error).message));
+  }, [startTelemetryRun]);
 
-  // --- AI Perception & Logic ---
-  const getEnhancedState = useCallback(() => {
-    const v = vehiclesRef.current;
-    const queues = { N: 0, S: 0, E: 0, W: 0 };
-    const stopped = { N: 0, S: 0, E: 0, W: 0 };
-    let avgSpeed = 0, maxWait = 0;
-
-    v.forEach(veh => {
-      if (!veh.passed) {
-        queues[veh.dir]++;
-        avgSpeed += veh.currentSpeed || 0;
-        if ((veh.currentSpeed || 0) < STOP_THRESHOLD) stopped[veh.dir]++;
-        maxWait = Math.max(maxWait, veh.waiting || 0);
-      }
-    });
+  // Static tree positions for the background, rescattered when the layout changes
+  const treePositions = useMemo(() => scatterTrees(network), [network, layout]);
 
-    avgSpeed /= v.length || 1;
-    const nsQueue = queues.N + queues.S;
-    const ewQueue = queues.E + queues.W;
-
-    return [
-      normalizeValue(nsQueue, 20), normalizeValue(ewQueue, 20),
-      normalizeValue(stopped.N + stopped.S, 20), normalizeValue(stopped.E + stopped.W, 20),
-      activeSideRef.current === TrafficSide.NS ? 1 : 0,
-      phaseRef.current === Phase.GREEN ? 1 : phaseRef.current === Phase.YELLOW ? 0.5 : 0,
-      normalizeValue(timerRef.current, MAX_GREEN_TIME), normalizeValue(avgSpeed, 5),
-      WEATHER[weatherMode].factor, normalizeValue(maxWait, 100),
-      normalizeValue(Math.abs(nsQueue - ewQueue), 20),
-      normalizeValue(Object.values(stopped).reduce((a,b) => a+b, 0), 40),
+  // --- AI Perception & Logic ---
+  const nodeLearning = (id: string) => nodeLearningRef.current[id] || (nodeLearningRef.current[id] = createNodeLearning());
+
+  const decideForNode = useCallback(async (node: NetworkNode) => {
+    const agent = agentRef.current;
+    if (!agent || agent.isDisposed) return;
+
+    const { sim } = node;
+    const learning = nodeLearning(node.id);
+    const controllerId = operator.controllerFor(controllerIdRef.current);
+    const controller = controllers[controllerId];
+    const currentSignal = sim.getSignal();
+    const currentState = buildObservation(sim);
+    const breakdown = computeRewardBreakdown(sim, learning.rewardTracker, learning.stepEmissions, rewardConfigRef.current);
+    const reward = totalReward(breakdown);
+    metricsInternalRef.current.episodeReward += reward;
+    const conditions = weatherBucket(weatherStatsRef.current[controllerId], sim.weather);
+    conditions.reward += reward;
+    conditions.decisions++;
+    rewardLogRef.current = [
+      ...rewardLogRef.current.slice(-(REWARD_LOG_SIZE - 1)),
+      { ...breakdown, step: metricsInternalRef.current.decisionCount, node: node.id },
     ];
-  }, [weatherMode]);
-
-  const calculateReward = useCallback(() => {
-    const v = vehiclesRef.current;
-    let reward = 0;
 
-    v.forEach(vehicle => {
-      if (vehicle.passed && !metricsInternalRef.current.vehiclePassedIds.has(vehicle.id)) {
-        reward += REWARDS.VEHICLE_PASSED;
-        metricsInternalRef.current.vehiclePassedIds.add(vehicle.id);
+    // Learning Phase: transitions and replays are only posted to the worker, so the signals never wait on training
+    if (learning.lastState && learning.lastAction !== null) {
+      const done = metricsInternalRef.current.stepCount >= hyperparametersRef.current.episodeLength;
+      if (controller.learns) {
+        // A rebuilt agent rejects whatever was still queued on the old one; that is not a training failure
+        const reportFailure = (err: Error) => {
+          if (!agent.isDisposed) setModelStatus({ kind: 'error', text: `Training failed: ${err.message}` });
+        };
+        agent.remember({ state: learning.lastState, action: learning.lastAction, reward, nextState: currentState, done })
+          .catch(reportFailure);
+        agent.replay().catch(reportFailure);
       }
-    });
-
-    const totalQueue = Object.values(statsRef.current).reduce((a, b) => a + b, 0);
-    reward += REWARDS.QUEUE_PENALTY * totalQueue;
-    reward += REWARDS.EMISSION_PENALTY * metricsInternalRef.current.stepEmissions;
-
-    return reward;
-  }, []);
 
-  const handleTimerExpired = useCallback(async () => {
-    if (!agentRef.current || agentRef.current.isDisposed) return;
-
-    const currentPhase = phaseRef.current;
-    const currentActiveSide = activeSideRef.current;
-    const currentState = getEnhancedState();
-    const reward = calculateReward();
-    metricsInternalRef.current.episodeReward += reward;
+      if (done && controller.learns) {
+        const episodeReward = metricsInternalRef.current.episodeReward;
+        const previous = trainingProgressRef.current;
+        const progress = trainingProgressRef.current = {
+          episodes: previous.episodes + 1,
+          rewardHistory: [...previous.rewardHistory, episodeReward],
+          lossHistory: [...previous.lossHistory, agent.loss],
+          epsilonHistory: [...previous.epsilonHistory, agent.epsilon],
+        };
+        setTrainingProgress(progress);
+        setMetrics(prev => ({ ...prev, episodes: progress.episodes, rewardHistory: progress.rewardHistory }));
 
-    // Learning Phase
-    if (metricsInternalRef.current.lastState && metricsInternalRef.current.lastAction !== null) {
-      const done = metricsInternalRef.current.stepCount >= 100;
-      agentRef.current.remember(metricsInternalRef.current.lastState, metricsInternalRef.current.lastAction, reward, currentState, done);
-      await agentRef.current.replay();
+        // Keep a rolling copy so a refresh never loses more than one episode of learning
+        if (autosaveReadyRef.current) agent.getWeights()
+          .then(weights => saveModelToStorage(captureModel(weights, AUTOSAVE_NAME, progress, hyperparametersRef.current)))
+          .catch(err => setModelStatus({ kind: 'error', text: `Autosave failed: ${(err as Error).message}` }));
+      }
 
       if (done) {
-        const episodeReward = metricsInternalRef.current.episodeReward;
-        setMetrics(prev => ({
-          ...prev, 
-          episodes: prev.episodes + 1,
-          rewardHistory: [...prev.rewardHistory.slice(-49), episodeReward],
-        }));
-        
+        const internal = metricsInternalRef.current;
+        if (recordingRef.current && runIdRef.current !== null) {
+          recorderRef.current?.endEpisode({
+            runId: runIdRef.current, episode: internal.episode, endedAt: network.time, decisions: internal.stepCount,
+            reward: internal.episodeReward, epsilon: agent.epsilon, loss: agent.loss,
+          }).then(() => setEpisodesRecorded(n => n + 1), err => setTelemetryError((err as Error).message));
+        }
+        internal.episode++;
         metricsInternalRef.current.episodeReward = 0;
         metricsInternalRef.current.stepCount = 0;
-        metricsInternalRef.current.vehiclePassedIds.clear();
+        Object.values(nodeLearningRef.current).forEach(l => { l.rewardTracker = createRewardTracker(); });
       }
     }
 
-    // AI Action Selection
-    const actionIndex = currentPhase === Phase.GREEN ? agentRef.current.act(currentState) : 0;
-    const qValues = agentRef.current.getQValues(currentState);
-
-    let nextDuration = MIN_GREEN_TIME, nextPhase = currentPhase, nextSide = currentActiveSide;
-
-    if (currentPhase === Phase.GREEN) {
-      if (actionIndex === 0) { nextPhase = Phase.YELLOW; nextDuration = YELLOW_TIME; }
-      else if (actionIndex === 1) { nextPhase = Phase.GREEN; nextDuration = 5; }
-      else { nextPhase = Phase.GREEN; nextDuration = 10; }
-    } else if (currentPhase === Phase.YELLOW) {
-      nextPhase = Phase.GREEN;
-      nextSide = currentActiveSide === TrafficSide.NS ? TrafficSide.EW : TrafficSide.NS;
-      nextDuration = MIN_GREEN_TIME;
+    // Action Selection (yellow and all-red always advance to the next green, without waiting on the worker)
+    const forced = currentSignal.phase !== Phase.GREEN;
+    const allowed = allowedActions(sim, shield.config);
+    const context = { sim, state: currentState, allowed };
+    const manual = operator.manualAction(sim, node.id);
+    const evaluation = withDeadline(agent.qValues([currentState]), DECISION_DEADLINE_MS);
+    let requested = 0, late = false;
+    let qValues: number[] | null = null;
+    if (!forced) {
+      // A green waits on the worker only until the deadline; after that the fixed-time plan stands in
+      const [selected, evaluated] = await Promise.all([
+        manual ?? withDeadline(Promise.resolve(controller.selectAction(context)), DECISION_DEADLINE_MS),
+        evaluation,
+      ]);
+      late = selected === null;
+      requested = selected ?? FALLBACK_CONTROLLER.selectAction(context);
+      qValues = evaluated && evaluated[0];
     }
 
-    // Commit results to refs and state
-    phaseRef.current = nextPhase;
-    activeSideRef.current = nextSide;
-    timerRef.current = nextDuration;
-    metricsInternalRef.current.lastState = currentState;
-    metricsInternalRef.current.lastAction = actionIndex;
+    // The shield has the final say; the agent learns from the action that actually ran.
+    // Rule-based controllers have no Q-values, so their overrides use the shield's fixed order.
+    const { actionIndex, signal } = shield.apply(sim, requested, node.id, controller.learns && qValues ? qValues : undefined);
+    sim.applySignal(signal);
+    // Operator and fallback actions are off-policy: neither they nor the transition they start are replayed as the agent's own
+    const onPolicy = manual === null && !late;
+    learning.lastState = onPolicy ? currentState : null;
+    learning.lastAction = onPolicy ? actionIndex : null;
+    learning.stepEmissions = 0;
     metricsInternalRef.current.stepCount++;
-    metricsInternalRef.current.stepEmissions = 0;
-
-    setPhase(nextPhase);
-    setActiveSide(nextSide);
-    setTimer(nextDuration);
-    setSimulationStep(prev => prev + 1);
+    const step = ++metricsInternalRef.current.decisionCount;
+    const { episode } = metricsInternalRef.current;
+    const time = network.time;
+
+    // A forced change is already under way by now; its Q-values only feed the dashboard
+    if (forced) {
+      const evaluated = await evaluation;
+      qValues = evaluated && evaluated[0];
+    }
+    const shownQValues = qValues || NO_Q_VALUES;
+
+    // Confidence is the softmax share of the chosen action, not the exploration rate
+    const source = decisionSource(
+      controller.learns, forced, shownQValues, actionIndex, actionIndex !== requested, manual !== null, late, allowed
+    );
+    const decision: AIDecision = {
+      action: SIGNAL_ACTIONS[actionIndex], qValues: shownQValues,
+      confidence: source === 'greedy' || source === 'exploratory'
+        ? (actionProbability(shownQValues, actionIndex, allowed) * 100).toFixed(0) : '100',
+    };
+    if (node.id === focusedNodeRef.current) {
+      latestDecisionRef.current = decision;
+      latestContextRef.current = { state: currentState, actionIndex, qValues: shownQValues, source, allowed };
+    }
 
-    setAiDecision({
-      action: ACTIONS[actionIndex], qValues: qValues,
-      confidence: ((1 - agentRef.current.epsilon) * 100).toFixed(0),
-    });
+    if (recordingRef.current && runIdRef.current !== null) {
+      recorderRef.current?.recordDecision({
+        ...decision, source, allowed, runId: runIdRef.current, episode, step, time, node: node.id, state: currentState,
+        reward, breakdown, epsilon: agent.epsilon, loss: agent.loss,
+      });
+    }
+  }, [controllers, network, shield, operator]);
 
-    setMetrics(prev => ({
-      ...prev, epsilon: agentRef.current?.epsilon || 0,
-      avgLoss: agentRef.current?.getAverageLoss() || 0,
-      episodeReward: metricsInternalRef.current.episodeReward,
-    }));
-  }, [getEnhancedState, calculateReward]);
+  // Every junction whose timer ran out gets its decision before the network moves on
+  const handleTimerExpired = useCallback(async () => {
+    for (const node of network.nodes) {
+      if (node.sim.awaitingDecision) await decideForNode(node);
+    }
+  }, [network, decideForNode]);
 
   // --- Real-time Systems ---
-  useEffect(() => {
-    if (isPaused) return;
-    const interval = setInterval(() => {
-      if (isPausedRef.current) return;
-      if (timerRef.current <= 1) {
-        handleTimerExpired();
-      } else {
-        const nextTime = timerRef.current - 1;
-        timerRef.current = nextTime;
-        setTimer(nextTime);
-      }
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [isPaused, handleTimerExpired]);
-
-  const spawn = useCallback((dir: Direction) => {
-    let x, y, vx, vy, angle;
-    switch(dir) {
-      case Direction.N: x = CANVAS_WIDTH/2 - 35; y = -100; vx = 0; vy = 1; angle = 90; break;
-      case Direction.S: x = CANVAS_WIDTH/2 + 35; y = CANVAS_HEIGHT + 100; vx = 0; vy = -1; angle = 270; break;
-      case Direction.E: x = -100; y = CANVAS_HEIGHT/2 + 35; vx = 1; vy = 0; angle = 0; break;
-      case Direction.W: x = CANVAS_WIDTH + 100; y = CANVAS_HEIGHT/2 - 35; vx = -1; vy = 0; angle = 180; break;
-      default: return;
+  const requestDecision = useCallback(async () => {
+    if (decisionPendingRef.current) return;
+    decisionPendingRef.current = true;
+    try {
+      await handleTimerExpired();
+    } finally {
+      decisionPendingRef.current = false;
     }
-
-    if (vehiclesRef.current.some(v => Math.abs(v.x-x) < 100 && Math.abs(v.y-y) < 100)) return;
-
-    const type = Math.random() > 0.85 ? 'truck' : 'sedan';
-    const id = Math.random().toString(36).substring(2, 11);
-    
-    setVehicles(prev => [...prev, {
-      id, x, y, vx, vy, angle, dir, type,
-      length: type === 'truck' ? TRUCK_WIDTH : CAR_WIDTH,
-      maxSpeed: WEATHER[weatherMode].speed * (0.8 + Math.random() * 0.4),
-      currentSpeed: 0, passed: false, waiting: 0,
-      color: type === 'truck' ? '#475569' : `hsl(${Math.random() * 360}, 50%, 45%)`
-    }]);
-  }, [weatherMode]);
-
-  useEffect(() => {
-    if (!autoSpawn || isPaused) return;
-    const interval = setInterval(() => {
-      const dirs = [Direction.N, Direction.S, Direction.E, Direction.W];
-      spawn(dirs[Math.floor(Math.random() * dirs.length)]);
-    }, 1400);
-    return () => clearInterval(interval);
-  }, [autoSpawn, spawn, isPaused]);
-
-  const animate = useCallback(() => {
-    if (isPausedRef.current) {
-      if (requestRef.current !== null) {
-        requestRef.current = requestAnimationFrame(animate);
+  }, [handleTimerExpired]);
+
+  // Runs up to `budget` seconds of simulated time; stops early once the controller owes a decision
+  const advanceSimulation = useCallback((budget: number) => {
+    let elapsed = 0;
+    const active = operator.controllerFor(controllerIdRef.current);
+    const bucket = controllerStatsRef.current[active];
+    const byWeather = weatherStatsRef.current[active];
+    while (elapsed + FIXED_DT <= budget && !network.awaitingDecision) {
+      // A time-of-day plan change hands the junctions over mid-run, so no transition spans it
+      if (operator.applySchedule(network.nodes, network.hourOfDay, network.time)) forgetLastTransitions();
+      const result = network.step(FIXED_DT);
+      Object.entries(result.nodes).forEach(([id, nodeResult]) => { nodeLearning(id).stepEmissions += nodeResult.emissions; });
+      bucket.emissions += result.emissions;
+      bucket.vehiclesPassed += result.exited;
+      bucket.waitTime += result.waitTime;
+      bucket.simTime += FIXED_DT;
+      const conditions = weatherBucket(byWeather, network.weather);
+      conditions.time += FIXED_DT;
+      conditions.vehiclesPassed += result.exited;
+      conditions.waitTime += result.waitTime;
+      elapsed += FIXED_DT;
+
+      if (recordingRef.current && runIdRef.current !== null && network.time - lastFrameTimeRef.current >= SNAPSHOT_INTERVAL) {
+        lastFrameTimeRef.current = network.time;
+        recorderRef.current?.recordFrame({
+          runId: runIdRef.current, episode: metricsInternalRef.current.episode, time: network.time,
+          vehicles: captureVehicles(network.vehicles),
+          pedestrians: network.pedestrians.map(({ id, x, y, crossing }) => ({ id, x, y, crossing })),
+          signals: captureSignals(network),
+        });
       }
-      return;
     }
+    return elapsed;
+  }, [network, operator]);
+
+  const publishSnapshot = useCallback(() => {
+    const focused = network.getNode(focusedNodeRef.current).sim;
+    setVehicles(network.vehicles);
+    setStats(focused.getQueueCounts());
+    setLaneStats(focused.getLaneStats());
+    setPedestrians(network.pedestrians);
+    setPedestrianStats(focused.crossings.getStats());
+    setEntryBacklog(focused.getEntryBacklog());
+    setPhase(focused.phase);
+    setStage(focused.stage);
+    setTimer(Math.ceil(focused.timer));
+    setSimTime(network.time);
+    setNodeSignals(captureSignals(network));
+    setRouteStats(network.getRouteStats());
+    // Merging the logs is only worth it once another trip has finished
+    const completedTrips = network.completedTrips;
+    setTrips(prev => prev.total === completedTrips ? prev : { log: network.getTrips(), total: completedTrips });
+    setPreemptionEvents(network.getPreemptionEvents());
+    setIncidents(network.getIncidents());
+    setIncidentSummary(network.getIncidentSummary());
+    setEmissionSummary(network.getEmissionSummary());
+    setFocusedEmissions({ ...focused.emissionLedger.byApproach });
+    setDetectors(Object.fromEntries(network.nodes.map(n => [n.id, n.sim.sensors.detectors.map(d => ({ ...d }))])));
+    setSensorReadings(focused.sensors.readings());
+    setSensorTruth(trueReadings(focused));
+    setActivePreemption(focused.activePreemption ? { ...focused.activePreemption } : null);
+    setSimulationStep(metricsInternalRef.current.decisionCount);
+    setRewardLog(rewardLogRef.current.filter(entry => entry.node === focusedNodeRef.current).slice(-REWARD_CHART_STEPS));
+    if (latestDecisionRef.current) setAiDecision(latestDecisionRef.current);
+    // Attribution re-runs the network once per feature, so only the newest focused decision is explained
+    const context = latestContextRef.current;
+    if (context && context !== explainedContextRef.current && agentRef.current && !agentRef.current.isDisposed) {
+      explainedContextRef.current = context;
+      explainDecision(agentRef.current, context).then(result => {
+        if (explainedContextRef.current === context) setExplanation(result);
+      }, () => {});
+    }
+    setControllerStats({ ...controllerStatsRef.current });
+    setWeatherStats({ ...weatherStatsRef.current[controllerIdRef.current] });
+    setWeatherMode(network.weather);
+    setCurrentWeatherEffects(network.weatherEffects);
+    setShieldLog({ overrides: shield.overrides, count: shield.overrideCount });
+    setOperatorLog({ overrides: { ...operator.overrides }, plan: operator.plan, audit: operator.audit });
+    setMetrics(prev => ({
+      ...prev, totalEmissions: network.totalEmissions, vehiclesPassed: network.vehiclesPassed,
+      epsilon: agentRef.current?.epsilon || 0,
+      avgLoss: agentRef.current?.loss || 0,
+      episodeReward: metricsInternalRef.current.episodeReward,
+    }));
+  }, [network, shield]);
 
+  const animate = useCallback(() => {
     const now = Date.now();
-    const deltaTime = Math.min((now - metricsInternalRef.current.lastEmissionUpdate) / 1000, 0.1);
-    metricsInternalRef.current.lastEmissionUpdate = now;
-
-    let frameEmissions = 0;
-    const currentActiveSide = activeSideRef.current;
-    const currentPhase = phaseRef.current;
-
-    setVehicles(prevVehicles => {
-      const updatedVehicles = prevVehicles.map(v => {
-        const isGreenSide = (currentActiveSide === TrafficSide.NS && (v.dir === Direction.N || v.dir === Direction.S)) ||
-                            (currentActiveSide === TrafficSide.EW && (v.dir === Direction.E || v.dir === Direction.W));
-        
-        const stopLineOffset = 160;
-        const inZone = (
-          (v.dir === Direction.N && v.y > CANVAS_HEIGHT/2 - stopLineOffset && v.y < CANVAS_HEIGHT/2 - 80) ||
-          (v.dir === Direction.S && v.y < CANVAS_HEIGHT/2 + stopLineOffset && v.y > CANVAS_HEIGHT/2 + 80) ||
-          (v.dir === Direction.E && v.x > CANVAS_WIDTH/2 - stopLineOffset && v.x < CANVAS_WIDTH/2 - 80) ||
-          (v.dir === Direction.W && v.x < CANVAS_WIDTH/2 + stopLineOffset && v.x > CANVAS_WIDTH/2 + 80)
-        );
-
-        const blocking = prevVehicles.find(o => {
-          if (o.id === v.id || o.dir !== v.dir) return false;
-          const isAhead = (
-            (v.dir === Direction.N && o.y > v.y) || (v.dir === Direction.S && o.y < v.y) ||
-            (v.dir === Direction.E && o.x > v.x) || (v.dir === Direction.W && o.x < v.x)
-          );
-          if (!isAhead) return false;
-          const dx = Math.abs(v.x - o.x), dy = Math.abs(v.y - o.y);
-          const minGap = (v.type === 'truck' || o.type === 'truck') ? 100 : 75;
-          return (v.dir === Direction.N || v.dir === Direction.S) ? dx < 20 && dy < minGap : dy < 20 && dx < minGap;
-        });
+    const clock = frameClockRef.current;
+    const realDelta = Math.min((now - clock.lastFrameTime) / 1000, 0.1);
+    clock.lastFrameTime = now;
 
-        const shouldStop = (!v.passed && !isGreenSide && inZone) || 
-                           (!v.passed && isGreenSide && currentPhase !== Phase.GREEN && inZone) || !!blocking;
-
-        const targetSpeed = shouldStop ? 0 : v.maxSpeed;
-        let newSpeed = v.currentSpeed || 0;
-        
-        const typeMult = v.type === 'truck' ? CO2.TRUCK_MULT : 1.0;
-        let emissionRate = 0;
-
-        if (newSpeed < STOP_THRESHOLD) emissionRate = CO2.IDLE * typeMult;
-        else if (newSpeed > (v.currentSpeed || 0) + 0.05) emissionRate = CO2.ACCEL * typeMult;
-        else emissionRate = CO2.RUNNING * typeMult;
-
-        frameEmissions += emissionRate * deltaTime;
-
-        if (newSpeed < targetSpeed) newSpeed = Math.min(targetSpeed, newSpeed + ACCELERATION);
-        else if (newSpeed > targetSpeed) newSpeed = Math.max(targetSpeed, newSpeed - BRAKING_FORCE);
-
-        let passed = v.passed;
-        if (!passed) {
-          if ((v.dir === Direction.N && v.y > CANVAS_HEIGHT/2) || (v.dir === Direction.S && v.y < CANVAS_HEIGHT/2) ||
-              (v.dir === Direction.E && v.x > CANVAS_WIDTH/2) || (v.dir === Direction.W && v.x < CANVAS_WIDTH/2)) {
-            passed = true;
-          }
-        }
-
-        return {
-          ...v,
-          x: v.x + (shouldStop ? 0 : v.vx * newSpeed),
-          y: v.y + (shouldStop ? 0 : v.vy * newSpeed),
-          passed, currentSpeed: newSpeed, isStopping: shouldStop,
-          waiting: shouldStop ? (v.waiting || 0) + deltaTime : 0
-        };
-      });
+    const currentSpeed = speedRef.current;
+    if (isPausedRef.current || currentSpeed === 'MAX') {
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
 
-      return updatedVehicles.filter(v => {
-        const inBounds = v.x > -200 && v.x < CANVAS_WIDTH + 200 && v.y > -200 && v.y < CANVAS_HEIGHT + 200;
-        if (!inBounds && v.passed) {
-          setMetrics(prev => ({ ...prev, vehiclesPassed: prev.vehiclesPassed + 1 }));
-        }
-        return inBounds;
-      });
-    });
+    // Simulated time advances in fixed ticks; leftover time carries into the next frame
+    clock.accumulator += realDelta * currentSpeed;
+    clock.accumulator -= advanceSimulation(clock.accumulator);
+    if (network.awaitingDecision) {
+      clock.accumulator = 0;
+      requestDecision();
+    }
 
-    metricsInternalRef.current.stepEmissions += frameEmissions;
-    setMetrics(prev => ({ ...prev, totalEmissions: Math.max(0, prev.totalEmissions + frameEmissions) }));
+    if (currentSpeed === 1 || now - clock.lastPublish >= RENDER_INTERVAL_MS) {
+      clock.lastPublish = now;
+      publishSnapshot();
+    }
 
     requestRef.current = requestAnimationFrame(animate);
-  }, []);
+  }, [network, advanceSimulation, requestDecision, publishSnapshot]);
 
   useEffect(() => {
-    metricsInternalRef.current.lastEmissionUpdate = Date.now();
+    frameClockRef.current.lastFrameTime = Date.now();
     requestRef.current = requestAnimationFrame(animate);
     return () => { if (requestRef.current !== null) cancelAnimationFrame(requestRef.current); };
   }, [animate]);
 
-  const handleReset = () => {
-    timerRef.current = MIN_GREEN_TIME;
-    phaseRef.current = Phase.GREEN;
-    activeSideRef.current = TrafficSide.NS;
-    metricsInternalRef.current = {
-      episodeReward: 0, lastState: null, lastAction: null, stepCount: 0,
-      vehiclePassedIds: new Set(), stepEmissions: 0, lastEmissionUpdate: Date.now(),
+  // Unrendered max speed: run the engine in short main-thread slices, waiting on each decision
+  useEffect(() => {
+    if (speed !== 'MAX' || isPaused) return;
+    let cancelled = false;
+
+    const run = async () => {
+      let lastPublish = 0;
+      while (!cancelled) {
+        const sliceEnd = Date.now() + MAX_SPEED_SLICE_MS;
+        while (!cancelled && Date.now() < sliceEnd) {
+          if (network.awaitingDecision) await requestDecision();
+          else advanceSimulation(1);
+        }
+        if (Date.now() - lastPublish >= MAX_SPEED_PUBLISH_MS) {
+          lastPublish = Date.now();
+          publishSnapshot();
+        }
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
     };
+
+    run();
+    return () => { cancelled = true; };
+  }, [speed, isPaused, network, advanceSimulation, requestDecision, publishSnapshot]);
+
+  const handleReset = () => {
+    metricsInternalRef.current = { episodeReward: 0, stepCount: 0, decisionCount: 0, episode: 0 };
+    nodeLearningRef.current = {};
+    rewardLogRef.current = [];
+    frameClockRef.current.accumulator = 0;
+    trainingProgressRef.current = emptyTrainingProgress();
+    controllerStatsRef.current = emptyControllerStats();
+    weatherStatsRef.current = emptyWeatherStats();
+    network.reset();
+    shield.reset();
+    operator.reset();
+    startTelemetryRun();
     setTimer(MIN_GREEN_TIME);
     setPhase(Phase.GREEN);
-    setActiveSide(TrafficSide.NS);
+    setStage(INITIAL_STAGE);
     setVehicles([]);
+    setStats({ N: 0, S: 0, E: 0, W: 0 });
+    setLaneStats(EMPTY_LANE_STATS);
+    setPedestrians([]);
+    setPedestrianStats(EMPTY_PEDESTRIAN_STATS);
+    setEntryBacklog({ N: 0, S: 0, E: 0, W: 0 });
+    setSimTime(0);
     setSimulationStep(0);
+    setNodeSignals({});
+    setRouteStats([]);
+    setTrips({ log: [], total: 0 });
+    setRewardLog([]);
+    setPreemptionEvents([]);
+    setIncidents([]);
+    setIncidentSummary(EMPTY_INCIDENT_SUMMARY);
+    setEmissionSummary(EMPTY_EMISSION_SUMMARY);
+    setFocusedEmissions(EMPTY_EMISSION_SUMMARY.byApproach);
+    setDetectors({});
+    setSensorReadings(EMPTY_READINGS);
+    setSensorTruth(EMPTY_READINGS);
+    setActivePreemption(null);
+    setControllerStats(emptyControllerStats());
+    setWeatherStats({});
+    setShieldLog({ overrides: [], count: 0 });
+    setOperatorLog({ overrides: {}, plan: null, audit: operator.audit });
+    setTrainingProgress(emptyTrainingProgress());
+    setExplanation(null);
+    latestContextRef.current = null;
+    setReplay(null);
     setMetrics({
       totalEmissions: 0, vehiclesPassed: 0, episodeReward: 0,
-      avgLoss: 0, epsilon: agentRef.current?.epsilon || INITIAL_EPSILON,
+      avgLoss: 0, epsilon: agentRef.current?.epsilon ?? hyperparametersRef.current.initialEpsilon,
       episodes: 0, rewardHistory: [],
     });
   };
 
+  // Transitions never span two controllers, so the agent only learns from its own decisions
+  const forgetLastTransitions = () => Object.values(nodeLearningRef.current).forEach(l => {
+    l.lastState = null;
+    l.lastAction = null;
+  });
+
+  const handleControllerChange = (id: ControllerId) => {
+    controllerIdRef.current = id;
+    forgetLastTransitions();
+    setControllerId(id);
+  };
+
+  /**
+   * Live settings go straight to the running agent; the rest need a new one,
+   * which starts training over. Either way the episode count restarts under a
+   * new telemetry run, so every run is recorded under one config.
+   */
+  const handleHyperparameters = (config: Hyperparameters, rebuild: boolean) => {
+    const changed = changedHyperparameters(hyperparametersRef.current, config);
+    hyperparametersRef.current = config;
+    setHyperparameters(config);
+    saveHyperparameters(config);
+
+    if (rebuild) {
+      agentRef.current?.dispose();
+      agentRef.current = createAgent(config);
+      autosaveReadyRef.current = true;   // a deliberate fresh start; its first autosave replaces the old one
+      trainingProgressRef.current = emptyTrainingProgress();
+      setTrainingProgress(trainingProgressRef.current);
+      setMetrics(prev => ({ ...prev, avgLoss: 0, epsilon: config.initialEpsilon, episodes: 0, rewardHistory: [] }));
+    } else {
+      agentRef.current?.setHyperparameters(Object.fromEntries(changed.map(key => [key, config[key]])))
+        .catch(err => setModelStatus({ kind: 'error', text: `Settings not applied: ${(err as Error).message}` }));
+    }
+
+    forgetLastTransitions();
+    Object.assign(metricsInternalRef.current, { episodeReward: 0, stepCount: 0, episode: 0 });
+    startTelemetryRun();
+  };
+
+  // Manual interventions on the focused junction; the transition in progress is not the agent's to learn from
+  const handleOperator = (intervene: (sim: TrafficSimulation) => void) => {
+    const learning = nodeLearning(focusedNodeRef.current);
+    learning.lastState = null;
+    learning.lastAction = null;
+    intervene(network.getNode(focusedNodeRef.current).sim);
+    setOperatorLog({ overrides: { ...operator.overrides }, plan: operator.plan, audit: operator.audit });
+    if (isPausedRef.current) publishSnapshot();
+  };
+
+  // Dispatches into the focused junction; the next render picks it up even while paused
+  const handleDispatchEmergency = (dir: Direction, kind: EmergencyKind) => {
+    network.spawnEmergency(focusedNodeRef.current, dir, kind);
+    if (isPausedRef.current) publishSnapshot();
+  };
+
+  const handleLayoutChange = (id: NetworkLayoutId) => {
+    network.setLayout(id);
+    const { width, height } = network.bounds;
+    setLayout(id);
+    setFocusedNode('A');
+    setView({ zoom: 1, x: width / 2, y: height / 2 });
+    handleReset();
+  };
+
+  // Lanes are painted into every junction, so a new layout starts over as a reset does
+  const handleLanesChange = (config: LaneConfig) => {
+    const lanes = normalizeLaneConfig(config);
+    network.setLanes(lanes);
+    saveLaneConfig(lanes);
+    setLaneConfig(lanes);
+    handleReset();
+  };
+
+  // --- Scenarios ---
+  // A scenario replaces the seed, traffic, weather, signal constraints and episode length, then starts over as a reset does
+  const handleLoadScenario = (next: Scenario) => {
+    const weather = normalizeWeatherScript(next.weather);
+    network.setSeed(next.seed);
+    network.setEvents(next.events);
+    network.setDemand(next.demand);
+    network.setWeather(weather);
+    hyperparametersRef.current = { ...hyperparametersRef.current, episodeLength: next.episodeLength };
+    setHyperparameters(hyperparametersRef.current);
+    saveHyperparameters(hyperparametersRef.current);
+    setDemandProfile(next.demand);
+    setWeatherScript(weather);
+    setShieldConfig(next.signals);
+    setScenario(next);
+    setScenarioError(null);
+    if (next.layout !== network.layout) handleLayoutChange(next.layout);
+    else handleReset();
+  };
+
+  const handleImportScenario = async (file: File) => {
+    try {
+      handleLoadScenario(parseScenario(await file.text()));
+    } catch (err) {
+      setScenarioError(`${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  // Exports what is running now, so changes made since loading a scenario are kept
+  const handleExportScenario = () => {
+    try {
+      exportScenario(createScenario({
+        name: scenario?.name ?? demandProfile.name,
+        description: scenario?.description ?? '',
+        seed: network.seed,
+        layout: network.layout,
+        episodeLength: hyperparameters.episodeLength,
+        demand: demandProfile,
+        weather: normalizeWeatherScript(weatherScript),
+        signals: normalizeShieldConfig(shieldConfig),
+        events: scenario?.events ?? [],
+      }));
+      setScenarioError(null);
+    } catch (err) {
+      setScenarioError(`Not exported: ${(err as Error).message}`);
+    }
+  };
+
+  // --- Telemetry Replay ---
+  // Replays pause the live run; a recording from another layout switches the road network first
+  const handleReplay = async (run: RunSummary, episode: number) => {
+    if (!recorderRef.current) return;
+    try {
+      const recording = await recorderRef.current.loadEpisode(run.id, episode);
+      if (recording.frames.length === 0) throw new Error(`Episode ${episode + 1} of run #${run.id} has no recorded frames`);
+      setIsPaused(true);
+      if (run.layout !== network.layout) handleLayoutChange(run.layout);
+      setReplay({ run, episode, recording, frame: 0 });
+    } catch (err) {
+      setTelemetryError((err as Error).message);
+    }
+  };
+
+  // --- Pan & Zoom ---
+  const worldSize = network.bounds;
+  const viewWidth = worldSize.width / view.zoom;
+  const viewHeight = worldSize.height / view.zoom;
+
+  const zoomBy = (factor: number) => setView(v => ({ ...v, zoom: Math.max(1, Math.min(MAX_ZOOM, v.zoom * factor)) }));
+
+  // World units per screen pixel; the SVG letterboxes, so the tighter axis decides
+  const worldPerPixel = () => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) return 1;
+    return Math.max(viewWidth / rect.width, viewHeight / rect.height);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const scale = worldPerPixel();
+    const dx = (e.clientX - dragRef.current.x) * scale, dy = (e.clientY - dragRef.current.y) * scale;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({ ...v, x: v.x - dx, y: v.y - dy }));
+  };
+
+  // --- Model Persistence ---
+  const getModelShape = () => ({ inputSize: STATE_SIZE, actionCount: SIGNAL_ACTIONS.length });
+
+  const runModelAction = async (action: () => string | Promise<string>) => {
+    try {
+      setModelStatus({ kind: 'ok', text: await action() });
+    } catch (err) {
+      setModelStatus({ kind: 'error', text: (err as Error).message });
+    }
+    setSavedModels(listSavedModels());
+  };
+
+  const applySnapshot = async (snapshot: ModelSnapshot) => {
+    if (!agentRef.current) throw new Error('Agent is not ready yet');
+    await agentRef.current.setWeights(snapshot);
+    trainingProgressRef.current = snapshotProgress(snapshot);
+    setTrainingProgress(trainingProgressRef.current);
+    forgetLastTransitions();
+    setMetrics(prev => ({
+      ...prev, epsilon: snapshot.epsilon, episodes: snapshot.episodes, rewardHistory: snapshot.rewardHistory,
+    }));
+  };
+
+  const handleSaveModel = (name: string) => runModelAction(async () => {
+    if (!agentRef.current) throw new Error('Agent is not ready yet');
+    const weights = await agentRef.current.getWeights();
+    saveModelToStorage(captureModel(weights, name, trainingProgressRef.current, hyperparametersRef.current));
+    return `Saved "${name}"`;
+  });
+
+  const handleLoadModel = (name: string) => runModelAction(async () => {
+    await applySnapshot(loadModelFromStorage(name, getModelShape()));
+    return `Loaded "${name}"`;
+  });
+
+  const handleDeleteModel = (name: string) => runModelAction(() => {
+    deleteModelFromStorage(name);
+    return `Deleted "${name}"`;
+  });
+
+  const handleExportModel = (name: string) => runModelAction(() => {
+    exportModel(loadModelFromStorage(name, getModelShape()));
+    return `Exported "${name}"`;
+  });
+
+  const handleImportModel = async (file: File) => {
+    const text = await file.text();
+    runModelAction(async () => {
+      const snapshot = parseModelFile(text, getModelShape());
+      await applySnapshot(snapshot);
+      saveModelToStorage(snapshot);
+      return `Imported "${snapshot.name}"`;
+    });
+  };
+
   // --- Chart Data ---
-  const rewardData = useMemo(() => 
-    metrics.rewardHistory.map((val, i) => ({ episode: i, reward: val })), 
-  [metrics.rewardHistory]);
+  // Models saved before loss and exploration were tracked carry shorter series; align them on the latest episode
+  const trainingData = useMemo(() => {
+    const { rewardHistory, lossHistory, epsilonHistory } = trainingProgress;
+    const lossOffset = rewardHistory.length - lossHistory.length;
+    const epsilonOffset = rewardHistory.length - epsilonHistory.length;
+    return downsampleSeries(rewardHistory, TRAINING_CHART_POINTS).map(({ index, value }) => ({
+      episode: index + 1, reward: value, loss: lossHistory[index - lossOffset], epsilon: epsilonHistory[index - epsilonOffset],
+    }));
+  }, [trainingProgress]);
+
+  // --- Replay View ---
+  const replayFrame: FrameSnapshot | null = replay ? replay.recording.frames[replay.frame] : null;
+  const shownVehicles: VehicleSnapshot[] = replayFrame ? replayFrame.vehicles : vehicles;
+  const shownPedestrians = replayFrame ? replayFrame.pedestrians : pedestrians;
+  const shownSignals = replayFrame ? replayFrame.signals : nodeSignals;
+  const replaySignal = replayFrame?.signals[focusedNode];
+  const shownStage = replaySignal ? replaySignal.stage : stage;
+  const shownMode: SignalMode = (replaySignal ? replaySignal.mode : nodeSignals[focusedNode]?.mode) || 'normal';
+  const shownPhase = replaySignal ? replaySignal.phase : phase;
+  const shownTimer = replaySignal ? replaySignal.timer : timer;
+  const replayDecision = replay && replayFrame ? decisionAt(replay.recording.decisions, replayFrame.time, focusedNode) : null;
+  const shownDecision: AIDecision = replayDecision || aiDecision;
+  // Recorded decisions are explained with the network as it is now, not as it was when recorded
+  useEffect(() => {
+    setReplayExplanation(null);
+    if (!replayDecision || !agentRef.current) return;
+    let cancelled = false;
+    explainDecision(agentRef.current, {
+      state: replayDecision.state, actionIndex: SIGNAL_ACTIONS.indexOf(replayDecision.action),
+      qValues: replayDecision.qValues, source: replayDecision.source, allowed: replayDecision.allowed,
+    }).then(result => { if (!cancelled) setReplayExplanation(result); }, () => {});
+    return () => { cancelled = true; };
+  }, [replayDecision]);
+  const shownExplanation = replay ? replayExplanation : explanation;
+  const co2Change = emissionBaseline && emissionSummary.co2PerKm !== null ? emissionSummary.co2PerKm / emissionBaseline - 1 : null;
 
   return (
     <div className="flex flex-col h-screen overflow-hidden text-zinc-900 transition-colors duration-1000" style={{ backgroundColor: WEATHER[weatherMode].bg }}>
@@ -431,7 +1043,8 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2 mt-1">
               <span className={`w-2 h-2 rounded-full ${isPaused ? 'bg-rose-500' : 'bg-emerald-400 animate-pulse'}`} />
               <span className="text-[10px] font-bold text-white uppercase tracking-widest">
-                {isPaused ? 'Simulation Paused' : 'Real-time AI Optimization'} — Step {simulationStep}
+                {replay ? `Replay · Run #${replay.run.id} Episode ${replay.episode + 1}` : isPaused ? 'Simulation Paused' : speed === 1 ? 'Real-time AI Optimization' : `Accelerated Training ${speed === 'MAX' ? 'Max' : `${speed}x`}`}
+                {' '}— Step {simulationStep} — {formatSimTime(replayFrame ? replayFrame.time : simTime)} — {shownMode === 'normal' ? STAGE_LABELS[shownStage] : SIGNAL_MODE_LABELS[shownMode]}
               </span>
             </div>
           </div>
@@ -441,7 +1054,9 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2 bg-zinc-900 px-4 py-1.5 rounded-lg border border-zinc-800">
             <span className="text-xs">🌿</span>
             <span className="text-[10px] font-black text-zinc-500 uppercase">CO₂:</span>
-            <span className="text-xs font-mono font-bold text-white">{metrics.totalEmissions.toFixed(1)}g</span>
+            <span className="text-xs font-mono font-bold text-white" title={`${metrics.totalEmissions.toFixed(1)}g in total`}>
+              {emissionSummary.co2PerVehicle === null ? '—' : emissionSummary.co2PerVehicle.toFixed(1)}g/veh · {emissionSummary.co2PerKm === null ? '—' : emissionSummary.co2PerKm.toFixed(0)}g/km
+            </span>
           </div>
           
           <div className="flex items-center gap-2 bg-zinc-900 px-4 py-1.5 rounded-lg border border-zinc-800">
@@ -450,8 +1065,50 @@ const App: React.FC = () => {
             <span className="text-xs font-mono font-bold text-white">{metrics.vehiclesPassed}</span>
           </div>
 
+          <div className="bg-zinc-900 p-1 rounded-lg flex border border-zinc-800 gap-1">
+            {CONTROLLER_IDS.map(id => (
+              <button 
+                key={id} 
+                onClick={() => handleControllerChange(id)}
+                className={`px-2 py-1 rounded-md text-[10px] font-black uppercase transition-all ${controllerId === id ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {controllers[id].label}
+              </button>
+            ))}
+          </div>
+
+          <ScenarioMenu
+            library={BUILT_IN_SCENARIOS} current={scenario} error={scenarioError}
+            onLoad={handleLoadScenario} onImport={handleImportScenario} onExport={handleExportScenario}
+            onDismissError={() => setScenarioError(null)}
+          />
+
+          <div className="bg-zinc-900 p-1 rounded-lg flex border border-zinc-800 gap-1">
+            {(Object.keys(NETWORK_LAYOUTS) as NetworkLayoutId[]).map(id => (
+              <button 
+                key={id} 
+                onClick={() => handleLayoutChange(id)}
+                className={`px-2 py-1 rounded-md text-[10px] font-black uppercase transition-all ${layout === id ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {NETWORK_LAYOUTS[id].label}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-zinc-900 p-1 rounded-lg flex border border-zinc-800 gap-1">
+            {SPEED_OPTIONS.map(option => (
+              <button 
+                key={option} 
+                onClick={() => setSpeed(option)}
+                className={`px-2 py-1 rounded-md text-[10px] font-black uppercase transition-all ${speed === option ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {option === 'MAX' ? 'Max' : `${option}x`}
+              </button>
+            ))}
+          </div>
+
           <button 
-            onClick={() => setIsPaused(p => !p)}
+            onClick={() => { setReplay(null); setIsPaused(p => !p); }}
             className={`px-4 py-1.5 rounded-lg border flex items-center gap-2 text-[10px] font-black uppercase transition-all ${
               isPaused ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-400' : 'border-zinc-800 bg-zinc-900 text-zinc-400'
             }`}
@@ -464,7 +1121,7 @@ const App: React.FC = () => {
             {Object.keys(WEATHER).map(key => (
               <button 
                 key={key} 
-                onClick={() => setWeatherMode(key)}
+                onClick={() => setWeatherScript(script => ({ ...script, mode: 'fixed', initial: key }))}
                 className={`p-1.5 rounded-md transition-all ${weatherMode === key ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-600 hover:text-zinc-400'}`}
               >
                 {key === 'SUNNY' ? <SunIcon /> : key === 'RAIN' ? <CloudRainIcon /> : <CloudFogIcon />}
@@ -472,6 +1129,13 @@ const App: React.FC = () => {
             ))}
           </div>
           
+          <button 
+            onClick={() => { setIsPaused(true); setShowBenchmark(true); }}
+            className="px-4 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-zinc-400 text-[10px] font-black uppercase transition-all hover:text-white"
+          >
+            Benchmark
+          </button>
+
           <button 
             onClick={handleReset} 
             className="p-2 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 text-zinc-600 rounded-lg transition-all"
@@ -487,11 +1151,30 @@ const App: React.FC = () => {
         <div className="flex-[3] bg-zinc-950 rounded-2xl relative border border-zinc-900 overflow-hidden flex items-center justify-center">
           {/* HUD Overlay for Lights */}
           <div className="absolute top-8 left-0 right-0 flex justify-center gap-12 z-30 pointer-events-none">
-            <TrafficLightDisplay side={TrafficSide.NS} activeSide={activeSide} phase={phase} timer={timer} />
-            <TrafficLightDisplay side={TrafficSide.EW} activeSide={activeSide} phase={phase} timer={timer} />
+            {network.nodes.length > 1 && (
+              <div className="self-center text-[10px] font-black text-indigo-300 uppercase tracking-widest bg-indigo-500/10 border border-indigo-500/30 rounded-lg px-3 py-2">
+                Node {focusedNode}
+              </div>
+            )}
+            {activePreemption && (
+              <div className="self-center text-[10px] font-black text-rose-300 uppercase tracking-widest bg-rose-500/10 border border-rose-500/40 rounded-lg px-3 py-2 animate-pulse">
+                Preemption · {EMERGENCY_VEHICLES[activePreemption.kind].label} from {activePreemption.approach}
+              </div>
+            )}
+            <TrafficLightDisplay side={TrafficSide.NS} stage={shownStage} phase={shownPhase} timer={shownTimer} />
+            <TrafficLightDisplay side={TrafficSide.EW} stage={shownStage} phase={shownPhase} timer={shownTimer} />
           </div>
 
-          <svg className="w-full h-full" viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}>
+          <svg
+            ref={svgRef}
+            className="w-full h-full cursor-grab active:cursor-grabbing"
+            viewBox={`${view.x - viewWidth / 2} ${view.y - viewHeight / 2} ${viewWidth} ${viewHeight}`}
+            onWheel={e => zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)}
+            onPointerDown={e => { dragRef.current = { x: e.clientX, y: e.clientY }; }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerLeave={() => { dragRef.current = null; }}
+          >
             <defs>
               <pattern id="asphalt" width="100" height="100" patternUnits="userSpaceOnUse">
                 <rect width="100" height="100" fill="#18181b" />
@@ -503,39 +1186,156 @@ const App: React.FC = () => {
               </pattern>
             </defs>
 
-            <rect width={CANVAS_WIDTH} height={CANVAS_HEIGHT} fill="url(#grass)" />
+            <rect x={-worldSize.width} y={-worldSize.height} width={worldSize.width * 3} height={worldSize.height * 3} fill="url(#grass)" />
             {treePositions.map((pos, i) => <EcoTree key={i} x={pos.x} y={pos.y} scale={pos.scale} />)}
-            
-            <rect x="0" y={CANVAS_HEIGHT/2 - ROAD_WIDTH/2} width={CANVAS_WIDTH} height={ROAD_WIDTH} fill="url(#asphalt)" />
-            <rect x={CANVAS_WIDTH/2 - ROAD_WIDTH/2} y="0" width={ROAD_WIDTH} height={CANVAS_HEIGHT} fill="url(#asphalt)" />
-            <rect x={CANVAS_WIDTH/2 - ROAD_WIDTH/2} y={CANVAS_HEIGHT/2 - ROAD_WIDTH/2} width={ROAD_WIDTH} height={ROAD_WIDTH} fill="#27272a" />
-            
-            <line x1="0" y1={CANVAS_HEIGHT/2} x2={CANVAS_WIDTH} y2={CANVAS_HEIGHT/2} stroke="#fbbf24" strokeWidth="2" strokeDasharray="30,20" opacity="0.3" />
-            <line x1={CANVAS_WIDTH/2} y1="0" x2={CANVAS_WIDTH/2} y2={CANVAS_HEIGHT} stroke="#fbbf24" strokeWidth="2" strokeDasharray="30,20" opacity="0.3" />
-            
-            {[0, 90, 180, 270].map(rot => (
-              <g key={rot} transform={`translate(${CANVAS_WIDTH/2}, ${CANVAS_HEIGHT/2}) rotate(${rot})`}>
-                <rect x={-ROAD_WIDTH/2} y={ROAD_WIDTH/2 + 5} width={ROAD_WIDTH} height={40} fill="rgba(255,255,255,0.02)" />
-                {[...Array(6)].map((_, i) => (
-                  <rect key={i} x={-ROAD_WIDTH/2 + 10 + (i * 22)} y={ROAD_WIDTH/2 + 10} width={12} height={30} fill="white" opacity="0.1" />
-                ))}
+
+            {[...new Set(network.nodes.map(n => n.sim.center.y))].map(y => (
+              <g key={`row-${y}`}>
+                <rect x={-worldSize.width} y={y - ROAD_WIDTH/2} width={worldSize.width * 3} height={ROAD_WIDTH} fill="url(#asphalt)" />
+                <line x1={-worldSize.width} y1={y} x2={worldSize.width * 2} y2={y} stroke="#fbbf24" strokeWidth="2" strokeDasharray="30,20" opacity="0.3" />
               </g>
             ))}
+            {[...new Set(network.nodes.map(n => n.sim.center.x))].map(x => (
+              <g key={`col-${x}`}>
+                <rect x={x - ROAD_WIDTH/2} y={-worldSize.height} width={ROAD_WIDTH} height={worldSize.height * 3} fill="url(#asphalt)" />
+                <line x1={x} y1={-worldSize.height} x2={x} y2={worldSize.height * 2} stroke="#fbbf24" strokeWidth="2" strokeDasharray="30,20" opacity="0.3" />
+              </g>
+            ))}
+
+            {network.nodes.map(({ id, sim: { center } }) => {
+              const signal = shownSignals[id] || {
+                stage: INITIAL_STAGE, phase: Phase.GREEN, timer: MIN_GREEN_TIME, preemptedApproach: null,
+                walk: { N: 'dontWalk', S: 'dontWalk', E: 'dontWalk', W: 'dontWalk' },
+              };
+              return (
+                <g key={id}>
+                  <rect
+                    x={center.x - ROAD_WIDTH/2} y={center.y - ROAD_WIDTH/2} width={ROAD_WIDTH} height={ROAD_WIDTH} fill="#27272a"
+                    stroke={network.nodes.length > 1 && id === focusedNode ? '#818cf8' : 'none'} strokeWidth="3"
+                    className="cursor-pointer" onClick={() => setFocusedNode(id)}
+                  />
+                  {[0, 90, 180, 270].map(rot => (
+                    <g key={rot} transform={`translate(${center.x}, ${center.y}) rotate(${rot})`}>
+                      <rect x={-ROAD_WIDTH/2} y={CROSSWALK_OFFSET - CROSSWALK_WIDTH/2} width={ROAD_WIDTH} height={CROSSWALK_WIDTH} fill="rgba(255,255,255,0.02)" />
+                      {[...Array(6)].map((_, i) => (
+                        <rect key={i} x={-ROAD_WIDTH/2 + 10 + (i * 22)} y={CROSSWALK_OFFSET - 15} width={12} height={30} fill="white" opacity="0.1" />
+                      ))}
+                    </g>
+                  ))}
+                  {DIRECTIONS.filter(dir => laneConfig[dir].count > 1).map(dir => {
+                    // Dashed where vehicles may change lane, solid through the no-change zone before the stop line
+                    const { count, leftTurnLane } = laneConfig[dir];
+                    const divider = (s: number) => toScreen(dir, s, laneOffset(count, 0) - laneWidth(count) / 2, center);
+                    const entry = divider(-(halfExtent(dir) + ENTRY_OFFSET)), noChange = divider(-STOP_LINE_OFFSET - LANE_CHANGE_CUTOFF);
+                    const stopLine = divider(-STOP_LINE_OFFSET), exitStart = divider(STOP_LINE_OFFSET), exitEnd = divider(halfExtent(dir) + ENTRY_OFFSET);
+                    const arrow = toScreen(dir, -STOP_LINE_OFFSET - LANE_CHANGE_CUTOFF / 2, laneOffset(count, count - 1), center);
+                    return (
+                      <g key={`lanes-${dir}`} stroke="white" strokeOpacity="0.25" strokeWidth="2">
+                        <line x1={entry.x} y1={entry.y} x2={noChange.x} y2={noChange.y} strokeDasharray="20,15" />
+                        <line x1={noChange.x} y1={noChange.y} x2={stopLine.x} y2={stopLine.y} />
+                        <line x1={exitStart.x} y1={exitStart.y} x2={exitEnd.x} y2={exitEnd.y} strokeDasharray="20,15" />
+                        {leftTurnLane && (
+                          <text
+                            x={arrow.x} y={arrow.y} fill="white" fillOpacity="0.3" stroke="none" fontSize="22"
+                            textAnchor="middle" dominantBaseline="central"
+                            transform={`rotate(${headingAngle(TRAVEL[dir]) + 90}, ${arrow.x}, ${arrow.y})`}
+                          >↰</text>
+                        )}
+                      </g>
+                    );
+                  })}
+                  {DIRECTIONS.flatMap(leg => [1, -1].map(kerb => {
+                    const head = toScreen(leg, -CROSSWALK_OFFSET, kerb * (CROSSING_LENGTH/2 + 6), center);
+                    return (
+                      <rect
+                        key={`${leg}${kerb}`} x={head.x - 4} y={head.y - 4} width={8} height={8} rx="2"
+                        fill={WALK_COLORS[signal.walk[leg]]} className={signal.walk[leg] === 'clearance' ? 'animate-pulse' : ''}
+                      />
+                    );
+                  }))}
+                  {DIRECTIONS.map(dir => {
+                    const head = toScreen(dir, -STOP_LINE_OFFSET, LANE_OFFSET, center);
+                    return (
+                      <g key={dir} transform={`translate(${head.x}, ${head.y}) rotate(${headingAngle(TRAVEL[dir])})`}>
+                        <rect
+                          x={-2} y={-16} width={4} height={32} rx="1" fill={SIGNAL_COLORS[signalAspect(signal, dir, 'through')]}
+                          className={signal.mode === 'flash' ? 'animate-pulse' : ''}
+                        />
+                        <circle
+                          cx={0} cy={-22} r="3" fill={SIGNAL_COLORS[signalAspect(signal, dir, 'left')]}
+                          opacity={signalAspect(signal, dir, 'left') === 'permitted' ? 0.4 : 1}
+                        />
+                      </g>
+                    );
+                  })}
+                  {!replay && speed !== 'MAX' && (detectors[id] || []).map(d => {
+                    const head = toScreen(d.approach, -STOP_LINE_OFFSET, LANE_OFFSET, center);
+                    const color = d.failed ? '#f43f5e' : DETECTOR_TYPES[d.kind].color;
+                    return (
+                      <g key={d.id} transform={`translate(${head.x}, ${head.y}) rotate(${headingAngle(TRAVEL[d.approach])})`}>
+                        {d.kind === 'camera' ? (
+                          <rect
+                            x={-d.to} y={-18} width={d.to - d.from} height={36} fill={color} fillOpacity={d.active ? 0.06 : 0.02}
+                            stroke={color} strokeOpacity="0.4" strokeDasharray="8 6"
+                          />
+                        ) : (
+                          <rect
+                            x={-d.to} y={-12} width={d.to - d.from} height={24} rx="2" fill={color} fillOpacity={d.active && !d.failed ? 0.35 : 0}
+                            stroke={color} strokeWidth="2" strokeOpacity="0.8" strokeDasharray={d.failed ? '4 3' : undefined}
+                          />
+                        )}
+                      </g>
+                    );
+                  })}
+                  {network.nodes.length > 1 && (
+                    <text
+                      x={center.x + ROAD_WIDTH/2 + 12} y={center.y - ROAD_WIDTH/2 - 12} fill="#a1a1aa"
+                      fontSize="28" fontWeight="900" className="cursor-pointer select-none" onClick={() => setFocusedNode(id)}
+                    >
+                      {id}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {!replay && speed !== 'MAX' && incidents.filter(i => simTime - i.time <= INCIDENT_MARKER_SECONDS).map(i => (
+              <circle
+                key={`${i.node}-${i.id}`} cx={i.x} cy={i.y} r="26" fill="none"
+                stroke={INCIDENT_TYPES[i.kind].color} strokeWidth="3" strokeDasharray="6 4" className="animate-pulse"
+              />
+            ))}
+
+            {(replay || speed !== 'MAX') && shownPedestrians.map(p => (
+              <circle key={p.id} cx={p.x} cy={p.y} r="5" fill={p.crossing ? '#fde68a' : '#a1a1aa'} stroke="rgba(0,0,0,0.4)" strokeWidth="1" />
+            ))}
 
-            {vehicles.map(v => (
+            {(replay || speed !== 'MAX') && shownVehicles.map(v => (
               <g key={v.id} transform={`translate(${v.x}, ${v.y}) rotate(${v.angle})`}>
                 <rect 
                   x={-v.length/2} 
-                  y={-CAR_HEIGHT/2} 
+                  y={-vehicleWidth(v)/2} 
                   width={v.length} 
-                  height={v.type === 'truck' ? 32 : CAR_HEIGHT} 
+                  height={vehicleWidth(v)} 
                   rx="6" 
                   fill={v.color} 
                   stroke="rgba(0,0,0,0.3)" 
                   strokeWidth="1" 
                   className="transition-transform duration-200"
                 />
-                <rect x={v.length/2 - 20} y={-10} width={10} height={20} fill="rgba(255,255,255,0.2)" rx="2" />
+                <rect x={v.length/2 - 20} y={-(vehicleWidth(v) - 2)/2} width={10} height={vehicleWidth(v) - 2} fill="rgba(255,255,255,0.2)" rx="2" />
+                {v.emergency && (
+                  <g className="animate-pulse">
+                    <rect x={-4} y={-CAR_HEIGHT/2 + 2} width={8} height={(CAR_HEIGHT - 4) / 2} fill="#ef4444" />
+                    <rect x={-4} y={0} width={8} height={(CAR_HEIGHT - 4) / 2} fill="#3b82f6" />
+                  </g>
+                )}
+                {v.movement !== 'through' && !v.turned && (
+                  <circle
+                    cx={v.length/2 - 4} cy={v.movement === 'left' ? -CAR_HEIGHT/2 + 2 : CAR_HEIGHT/2 - 2}
+                    r="3" fill="#f59e0b" className="animate-pulse"
+                  />
+                )}
                 {v.isStopping && (
                   <g>
                     <circle cx={-v.length/2 + 5} cy={-10} r="4" fill="#ef4444" className="animate-pulse" />
@@ -546,11 +1346,54 @@ const App: React.FC = () => {
             ))}
           </svg>
 
-          {weatherMode !== 'SUNNY' && (
-            <div className="absolute inset-0 pointer-events-none bg-blue-900/10 backdrop-blur-[0.5px] transition-all duration-1000 z-10" />
+          {replay && replayFrame && (
+            <div className="absolute bottom-4 left-4 right-44 z-30 flex items-center gap-3 bg-zinc-950/80 px-3 py-2 rounded-lg border border-zinc-800">
+              <span className="text-[10px] font-black text-indigo-300 uppercase tracking-widest whitespace-nowrap">
+                Run #{replay.run.id} · Ep {replay.episode + 1}
+              </span>
+              <input
+                type="range" className="flex-1 accent-indigo-500"
+                min={0} max={replay.recording.frames.length - 1} value={replay.frame}
+                onChange={e => setReplay({ ...replay, frame: Number(e.target.value) })}
+              />
+              <span className="text-[10px] font-mono text-zinc-400">{formatSimTime(replayFrame.time)}</span>
+              <button className="px-2 py-1 rounded-md text-[10px] font-black uppercase text-zinc-400 hover:text-white" onClick={() => setReplay(null)}>
+                Exit
+              </button>
+            </div>
+          )}
+
+          <div className="absolute bottom-4 right-4 z-30 flex gap-1 bg-zinc-950/80 p-1 rounded-lg border border-zinc-800">
+            <button className="px-2 py-1 rounded-md text-[10px] font-black text-zinc-400 hover:text-white" onClick={() => zoomBy(ZOOM_STEP)}>+</button>
+            <button className="px-2 py-1 rounded-md text-[10px] font-black text-zinc-400 hover:text-white" onClick={() => zoomBy(1 / ZOOM_STEP)}>−</button>
+            <button
+              className="px-2 py-1 rounded-md text-[10px] font-black uppercase text-zinc-400 hover:text-white"
+              onClick={() => setView({ zoom: 1, x: worldSize.width / 2, y: worldSize.height / 2 })}
+            >
+              Fit
+            </button>
+          </div>
+
+          {currentWeatherEffects.visibility < 1 && (
+            <div
+              className={`absolute inset-0 pointer-events-none transition-all duration-1000 z-10 ${weatherMode === 'FOG' ? 'bg-zinc-300' : 'bg-blue-900'}`}
+              style={{
+                opacity: (1 - currentWeatherEffects.visibility) * 0.5,
+                backdropFilter: `blur(${((1 - currentWeatherEffects.visibility) * 2).toFixed(1)}px)`,
+              }}
+            />
+          )}
+
+          {speed === 'MAX' && !isPaused && (
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-40 flex items-center justify-center">
+              <div className="bg-zinc-950 p-8 px-12 rounded-2xl border border-zinc-800 text-center shadow-2xl">
+                <div className="text-2xl font-black text-white uppercase tracking-widest mb-2">Unrendered Max Speed</div>
+                <div className="text-sm text-zinc-500">Drawing is off while training runs flat out. Metrics refresh twice a second.</div>
+              </div>
+            </div>
           )}
 
-          {isPaused && (
+          {isPaused && !replay && (
             <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-40 flex items-center justify-center">
               <div className="bg-zinc-950 p-8 px-12 rounded-2xl border border-zinc-800 text-center shadow-2xl">
                 <div className="text-2xl font-black text-white uppercase tracking-widest mb-2">Simulation Paused</div>
@@ -571,6 +1414,7 @@ const App: React.FC = () => {
             <div className="space-y-4">
               {([Direction.N, Direction.S, Direction.E, Direction.W]).map((dir) => {
                 const count = stats[dir] || 0;
+                const backlog = entryBacklog[dir] || 0;
                 const isCritical = count > 10;
                 const dirNames = { N: 'North', S: 'South', E: 'East', W: 'West' };
                 return (
@@ -581,6 +1425,7 @@ const App: React.FC = () => {
                         <span className="text-[11px] font-black text-zinc-300 uppercase">{dirNames[dir]}</span>
                       </div>
                       <span className={`text-xs font-mono font-bold ${isCritical ? 'text-rose-500' : 'text-zinc-600'}`}>
+                        {backlog > 0 && <span className="text-amber-500 mr-2">+{backlog} at entry</span>}
                         {count.toString().padStart(2, '0')}
                       </span>
                     </div>
@@ -590,10 +1435,42 @@ const App: React.FC = () => {
                         style={{ width: `${Math.min(100, count * 8)}%` }} 
                       />
                     </div>
+                    {(laneStats[dir] || []).map((lane, i) => (
+                      <div key={i} className="flex justify-between items-center mt-1 text-[9px] font-mono text-zinc-600">
+                        <span className="uppercase">{describeLane(laneConfig[dir], i)}</span>
+                        <span>
+                          {lane.spillback && <span className="text-rose-400 font-black uppercase mr-2">Spillback</span>}
+                          {lane.queued} queued · {Math.round(lane.queueLength / PX_PER_METRE)} m
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 );
               })}
             </div>
+
+            <div className="mt-6 pt-5 border-t border-zinc-900">
+              <div className="flex justify-between mb-3 text-[9px] font-black text-zinc-500 uppercase tracking-widest">
+                <span>🚶 Pedestrians</span>
+                <span className="font-mono text-zinc-700">{pedestrianStats.crossed} Crossed</span>
+              </div>
+              <div className="grid grid-cols-4 gap-2 mb-3">
+                {DIRECTIONS.map(dir => {
+                  const walk = nodeSignals[focusedNode]?.walk[dir] || 'dontWalk';
+                  return (
+                    <div key={dir} className="bg-zinc-900/50 rounded-lg border border-zinc-800/50 p-2 text-center">
+                      <div className="text-[11px] font-black text-zinc-300">{dir}</div>
+                      <div className="text-xs font-mono font-bold text-zinc-400">{pedestrianStats.waiting[dir]}</div>
+                      <div className="text-[8px] font-black uppercase" style={{ color: WALK_COLORS[walk] }}>{WALK_LABELS[walk]}</div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-[10px] font-mono text-zinc-600">
+                <span>Avg wait <span className="text-zinc-300">{pedestrianStats.meanWait.toFixed(1)}s</span></span>
+                <span>Max wait <span className="text-zinc-300">{pedestrianStats.maxWait.toFixed(1)}s</span></span>
+              </div>
+            </div>
             
             <button 
               onClick={() => setAutoSpawn(p => !p)}
@@ -605,6 +1482,75 @@ const App: React.FC = () => {
             </button>
           </section>
 
+          <DemandPanel
+            profile={demandProfile}
+            presets={demandPresets}
+            clock={formatClock(clockHour(demandProfile, simTime))}
+            onChange={setDemandProfile}
+            onSavePreset={profile => { setDemandPresets(saveDemandPreset(profile)); setDemandProfile(profile); }}
+            onDeletePreset={name => { setDemandPresets(deleteDemandPreset(name)); setDemandProfile(DEFAULT_DEMAND_PROFILE); }}
+          />
+
+          <WeatherPanel
+            script={weatherScript} weather={weatherMode} effects={currentWeatherEffects} stats={weatherStats}
+            controllerLabel={controllers[controllerId].label} onChange={setWeatherScript}
+          />
+
+          <SensorPanel
+            config={sensorConfig} detectors={detectors[focusedNode] || []} readings={sensorReadings} truth={sensorTruth}
+            node={focusedNode} onChange={setSensorConfig}
+          />
+
+          <EmergencyPanel events={preemptionEvents} showNode={network.nodes.length > 1} onDispatch={handleDispatchEmergency} />
+          <IncidentPanel incidents={incidents} summary={incidentSummary} showNode={network.nodes.length > 1} />
+          <EmissionsPanel
+            summary={emissionSummary} approaches={focusedEmissions} node={focusedNode} baseline={emissionBaseline} change={co2Change}
+          />
+
+          <ControllerComparison controllers={controllers} stats={controllerStats} activeId={controllerId} />
+
+          <RewardDesigner config={rewardConfig} onChange={setRewardConfig} />
+          <HyperparameterPanel config={hyperparameters} onApply={handleHyperparameters} />
+          <LanePanel config={laneConfig} onApply={handleLanesChange} />
+
+          <SafetyShieldPanel
+            config={shieldConfig}
+            overrides={shieldLog.overrides}
+            overrideCount={shieldLog.count}
+            showNode={network.nodes.length > 1}
+            onChange={setShieldConfig}
+          />
+
+          <OperatorPanel
+            node={focusedNode}
+            override={operatorLog.overrides[focusedNode] || null}
+            stage={stage}
+            phase={phase}
+            schedule={planSchedule}
+            plan={operatorLog.plan}
+            clock={formatClock(clockHour(demandProfile, simTime))}
+            audit={operatorLog.audit}
+            controllers={controllers}
+            onHold={s => handleOperator(sim => operator.hold(sim, focusedNode, s))}
+            onForceChange={() => handleOperator(sim => operator.forceChange(sim, focusedNode))}
+            onMode={mode => handleOperator(sim => operator.setMode(sim, focusedNode, mode))}
+            onRelease={() => handleOperator(sim => operator.release(sim, focusedNode))}
+            onScheduleChange={setPlanSchedule}
+          />
+
+          <TelemetryPanel
+            recorder={recorder}
+            recording={recording}
+            activeRunId={activeRunId}
+            episodesRecorded={episodesRecorded}
+            error={telemetryError}
+            onToggleRecording={() => setRecording(r => !r)}
+            onReplay={handleReplay}
+          />
+
+          {network.nodes.length > 1 && <RouteStatsPanel routes={routeStats} />}
+          <TripPanel trips={trips.log} total={trips.total} nodes={network.nodes.map(n => n.id)} />
+
           {/* AI Decision Model */}
           <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl flex-1 flex flex-col">
             <h3 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-6 flex items-center gap-2">
@@ -618,29 +1564,40 @@ const App: React.FC = () => {
               <MetricCard label="Model Loss" value={metrics.avgLoss.toFixed(4)} colorClass="text-rose-400" />
             </div>
 
+            <ModelManager
+              models={savedModels}
+              suggestedName={`model-${metrics.episodes}ep`}
+              status={modelStatus}
+              onSave={handleSaveModel}
+              onLoad={handleLoadModel}
+              onDelete={handleDeleteModel}
+              onExport={handleExportModel}
+              onImport={handleImportModel}
+            />
+
             <div className="bg-gradient-to-br from-indigo-500/5 to-purple-600/5 p-5 rounded-2xl border border-indigo-500/20 mb-6">
               <div className="flex items-center gap-2 mb-4">
                 <span className="text-indigo-400 text-sm">⚡</span>
                 <span className="text-[10px] font-black text-indigo-300 uppercase tracking-widest">Active Policy</span>
                 <span className="ml-auto text-[9px] font-black text-indigo-400 bg-indigo-400/10 px-2 py-1 rounded-md">
-                  {aiDecision.confidence}% Confidence
+                  {shownDecision.confidence}% Confidence
                 </span>
               </div>
               <div className="text-2xl font-black text-white mb-5 uppercase tracking-tighter">
-                {aiDecision.action.replace('_', ' ')}
+                {shownDecision.action.replace(/_/g, ' ')}
               </div>
               
               <div className="space-y-3">
-                {ACTIONS.map((action, i) => (
+                {SIGNAL_ACTIONS.map((action, i) => (
                   <div key={action} className="flex items-center gap-3">
-                    <div className="text-[10px] font-mono text-zinc-500 w-24 truncate">{action.replace('_', ' ')}</div>
+                    <div className="text-[10px] font-mono text-zinc-500 w-24 truncate">{action.replace(/_/g, ' ')}</div>
                     <div className="flex-1 h-6 bg-zinc-950 border border-zinc-900 rounded-md overflow-hidden relative">
                       <div 
                         className="h-full bg-gradient-to-r from-indigo-500 to-purple-600 transition-all duration-300" 
-                        style={{ width: `${Math.max(0, Math.min(100, (aiDecision.qValues[i] + 50) * 2))}%` }} 
+                        style={{ width: `${Math.max(0, Math.min(100, (shownDecision.qValues[i] + 50) * 2))}%` }} 
                       />
                       <span className="absolute right-2 top-1 text-[10px] font-mono font-bold text-white/60">
-                        {aiDecision.qValues[i]?.toFixed(2) || '0.00'}
+                        {shownDecision.qValues[i]?.toFixed(2) || '0.00'}
                       </span>
                     </div>
                   </div>
@@ -648,41 +1605,91 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Reward Graph */}
-            <div className="flex-1 min-h-[120px] bg-zinc-950/50 rounded-2xl border border-zinc-900 p-4">
-              <div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest mb-3 flex justify-between">
-                <span>Learning Convergence</span>
-                <span className="text-zinc-700">Recent 50 Ep</span>
+            <DecisionExplanationPanel explanation={shownExplanation} />
+
+            {/* Reward Graphs */}
+            <div className="flex-1 grid grid-cols-2 gap-3">
+              <div className="min-h-[120px] bg-zinc-950/50 rounded-2xl border border-zinc-900 p-4">
+                <div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest mb-3 flex justify-between">
+                  <span>Learning Convergence</span>
+                  <span className="text-zinc-700">All {trainingProgress.rewardHistory.length} Ep</span>
+                </div>
+                <div className="flex gap-3 mb-1 text-[8px] font-black uppercase tracking-widest">
+                  <span className="text-indigo-400">Reward</span>
+                  <span className="text-rose-400">Loss</span>
+                  <span className="text-amber-400">ε</span>
+                </div>
+                <div className="h-[100px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trainingData}>
+                      <Line yAxisId="reward" type="monotone" dataKey="reward" name="Reward" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      <Line yAxisId="loss" type="monotone" dataKey="loss" name="Loss" stroke="#fb7185" strokeWidth={1} dot={false} isAnimationActive={false} />
+                      <Line yAxisId="epsilon" type="monotone" dataKey="epsilon" name="ε" stroke="#f59e0b" strokeWidth={1} dot={false} isAnimationActive={false} />
+                      <XAxis dataKey="episode" hide />
+                      <YAxis yAxisId="reward" hide domain={['auto', 'auto']} />
+                      <YAxis yAxisId="loss" hide domain={[0, 'auto']} />
+                      <YAxis yAxisId="epsilon" hide domain={[0, 1]} />
+                      <Tooltip 
+                        contentStyle={{ backgroundColor: '#09090b', borderColor: '#27272a', fontSize: '10px' }}
+                        formatter={(value: number) => value.toFixed(3)}
+                        labelFormatter={episode => `Episode ${episode}`}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
               </div>
-              <div className="h-[100px] w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={rewardData}>
-                    <Line type="monotone" dataKey="reward" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
-                    <XAxis hide />
-                    <YAxis hide domain={['auto', 'auto']} />
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#09090b', borderColor: '#27272a', fontSize: '10px' }}
-                      itemStyle={{ color: '#818cf8' }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+
+              <div className="min-h-[120px] bg-zinc-950/50 rounded-2xl border border-zinc-900 p-4">
+                <div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest mb-3 flex justify-between">
+                  <span>Reward Breakdown</span>
+                  <span className="text-zinc-700">Recent {REWARD_CHART_STEPS} Steps</span>
+                </div>
+                <div className="h-[100px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={rewardLog} stackOffset="sign">
+                      {REWARD_TERM_IDS.filter(id => rewardConfig[id].enabled).map(id => (
+                        <Bar key={id} dataKey={id} name={REWARD_TERMS[id].label} stackId="reward" fill={REWARD_TERMS[id].color} isAnimationActive={false} />
+                      ))}
+                      <XAxis dataKey="step" hide />
+                      <YAxis hide domain={['auto', 'auto']} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#09090b', borderColor: '#27272a', fontSize: '10px' }}
+                        formatter={(value: number) => value.toFixed(2)}
+                      />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
               </div>
             </div>
           </section>
         </div>
       </main>
 
+      {showBenchmark && (
+        <BenchmarkPanel
+          controllers={benchmarkControllers}
+          seed={network.seed}
+          weather={normalizeWeatherScript(weatherScript)}
+          demand={demandProfile}
+          rewardConfig={rewardConfig}
+          shieldConfig={normalizeShieldConfig(shieldConfig)}
+          sensorConfig={normalizeSensorConfig(sensorConfig)}
+          laneConfig={laneConfig}
+          onClose={() => setShowBenchmark(false)}
+        />
+      )}
+
       {/* Global Status Footer */}
       <footer className="px-6 py-3 bg-zinc-950 border-t border-zinc-900 flex justify-between items-center text-[9px] font-black text-zinc-600 uppercase tracking-[0.2em]">
         <div className="flex gap-8">
           <span className="flex items-center gap-2">
-            <span className="text-emerald-500">🌿</span> CO₂ Reduction Target: -30%
+            <span className="text-emerald-500">🌿</span> CO₂ vs Fixed-Time: {co2Change === null ? '—' : `${co2Change > 0 ? '+' : ''}${(co2Change * 100).toFixed(1)}%`} (Target {CO2_REDUCTION_TARGET * 100}%)
           </span>
           <span className="flex items-center gap-2">
             <span className="text-indigo-400">🧠</span> Core: Double DQN (HeNormal)
           </span>
           <span className="flex items-center gap-2">
-            <span className="text-purple-400">🎯</span> Discount γ: {GAMMA}
+            <span className="text-purple-400">🎯</span> Discount γ: {hyperparameters.gamma}
           </span>
         </div>
         <div className="flex items-center gap-4">
@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { WEATHER } from '../constants';
+import { ControllerId, CONTROLLER_IDS, SignalController } from '../services/controllers';
+import { DIRECTIONS } from '../services/simulation';
+import { DemandProfile } from '../services/demand';
+import { RewardConfig } from '../services/reward';
+import { ShieldConfig } from '../services/safetyShield';
+import { WeatherScript, fixedWeather, describeWeatherScript } from '../services/weather';
+import { SensorConfig } from '../services/sensors';
+import { LaneConfig } from '../services/lanes';
+import {
+  BenchmarkReport, BenchmarkProgress, BenchmarkScenario, SensorSweepPoint, defaultScenario, runBenchmark, runSensorSweep,
+  exportReport
+} from '../services/benchmark';
+
+interface BenchmarkPanelProps {
+  controllers: Record<ControllerId, SignalController>;
+  seed: number;
+  weather: WeatherScript;
+  demand: DemandProfile;
+  rewardConfig: RewardConfig;
+  shieldConfig: ShieldConfig;
+  sensorConfig: SensorConfig;
+  laneConfig: LaneConfig;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-[11px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-500 uppercase tracking-widest mb-1 block';
+const buttonClass = 'px-3 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+
+const SCRIPTED = 'script';
+const SWEEP_FAILURE_RATES = [0, 0.25, 0.5, 0.75];
+
+const BenchmarkPanel = ({
+  controllers, seed, weather, demand, rewardConfig, shieldConfig, sensorConfig, laneConfig, onClose,
+}: BenchmarkPanelProps) => {
+  const [scenario, setScenario] = useState<BenchmarkScenario>(
+    () => defaultScenario(seed, weather, demand, rewardConfig, shieldConfig, sensorConfig, laneConfig)
+  );
+  const [selected, setSelected] = useState<ControllerId[]>(['dqn', 'fixed']);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [sweep, setSweep] = useState<SensorSweepPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+  const isRunning = progress !== null;
+
+  const toggleController = (id: ControllerId) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const handleRun = async (kind: 'benchmark' | 'sweep') => {
+    cancelRef.current = false;
+    setError(null);
+    setReport(null);
+    setSweep(null);
+    const chosen = CONTROLLER_IDS.filter(id => selected.includes(id)).map(id => controllers[id]);
+    try {
+      if (kind === 'sweep') setSweep(await runSensorSweep(chosen, scenario, SWEEP_FAILURE_RATES, setProgress, () => cancelRef.current));
+      else setReport(await runBenchmark(chosen, scenario, setProgress, () => cancelRef.current));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[60] flex items-center justify-center p-8">
+      <div className="bg-zinc-950 rounded-2xl border border-zinc-800 shadow-2xl w-full max-w-4xl max-h-full overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-xs font-black tracking-[0.2em] text-zinc-400 uppercase">📈 Benchmark — Identical Traffic</h2>
+            <div className="text-[10px] font-mono text-zinc-600 mt-1">Demand: {scenario.demand.name}</div>
+          </div>
+          <button className={buttonClass} onClick={() => { cancelRef.current = true; onClose(); }}>Close</button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4 mb-4">
+          <label>
+            <span className={labelClass}>Seed</span>
+            <input
+              type="number" className={inputClass} value={scenario.seed} disabled={isRunning}
+              onChange={e => setScenario(s => ({ ...s, seed: Number(e.target.value) >>> 0 }))}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Weather</span>
+            <select
+              className={inputClass} value={scenario.weather.mode === 'fixed' ? scenario.weather.initial : SCRIPTED} disabled={isRunning}
+              onChange={e => setScenario(s => ({ ...s, weather: e.target.value === SCRIPTED ? weather : fixedWeather(e.target.value) }))}
+            >
+              {Object.keys(WEATHER).map(key => <option key={key} value={key}>{key}</option>)}
+              {weather.mode !== 'fixed' && <option value={SCRIPTED}>Script: {describeWeatherScript(weather)}</option>}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Episodes</span>
+            <input
+              type="number" min={1} max={50} className={inputClass} value={scenario.episodes} disabled={isRunning}
+              onChange={e => setScenario(s => ({ ...s, episodes: Math.max(1, Math.min(50, Number(e.target.value) || 1)) }))}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Seconds / Episode</span>
+            <input
+              type="number" min={60} step={60} className={inputClass} value={scenario.duration} disabled={isRunning}
+              onChange={e => setScenario(s => ({ ...s, duration: Math.max(60, Number(e.target.value) || 60) }))}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          {CONTROLLER_IDS.map(id => (
+            <button
+              key={id}
+              disabled={isRunning}
+              onClick={() => toggleController(id)}
+              className={`px-3 py-1.5 rounded-lg border text-[10px] font-black uppercase transition-all ${
+                selected.includes(id) ? 'border-indigo-500/40 bg-indigo-500/10 text-indigo-300' : 'border-zinc-800 bg-zinc-900 text-zinc-600'
+              }`}
+            >
+              {controllers[id].label}
+            </button>
+          ))}
+          <div className="ml-auto flex gap-2">
+            {isRunning
+              ? <button className={buttonClass} onClick={() => { cancelRef.current = true; }}>Cancel</button>
+              : (
+                <>
+                  <button className={buttonClass} disabled={selected.length === 0} onClick={() => handleRun('benchmark')}>Run</button>
+                  <button className={buttonClass} disabled={selected.length === 0} onClick={() => handleRun('sweep')}>Sensor Sweep</button>
+                </>
+              )}
+            <button className={buttonClass} disabled={!report} onClick={() => report && exportReport(report, 'csv')}>CSV</button>
+            <button className={buttonClass} disabled={!report} onClick={() => report && exportReport(report, 'json')}>JSON</button>
+          </div>
+        </div>
+
+        {progress && (
+          <div className="mb-6">
+            <div className="text-[10px] font-mono text-zinc-500 mb-1">
+              {controllers[progress.controller].label} — episode {progress.episode + 1}/{scenario.episodes} · {progress.completed}/{progress.total}
+            </div>
+            <div className="h-1.5 bg-zinc-900 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.completed / progress.total) * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && <div className="mb-4 text-[11px] font-mono text-rose-400">{error}</div>}
+
+        {report && (
+          <table className="w-full text-[11px] font-mono">
+            <thead>
+              <tr className="text-zinc-600 uppercase text-[9px]">
+                <th className="text-left font-black pb-2">Controller</th>
+                <th className="text-right font-black pb-2">Throughput</th>
+                <th className="text-right font-black pb-2">Mean Wait</th>
+                <th className="text-right font-black pb-2">P95 Wait</th>
+                {DIRECTIONS.map(dir => <th key={dir} className="text-right font-black pb-2">Max Q {dir}</th>)}
+                <th className="text-right font-black pb-2">CO₂ g</th>
+                <th className="text-right font-black pb-2">g/km</th>
+                <th className="text-right font-black pb-2">Fuel L</th>
+                <th className="text-right font-black pb-2">Reward</th>
+                <th className="text-right font-black pb-2">Overrides</th>
+                <th className="text-right font-black pb-2">Conflicts</th>
+                <th className="text-right font-black pb-2">Red Light</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <tr key={row.controller} className="text-zinc-300 border-t border-zinc-900">
+                  <td className="py-2">{row.label}</td>
+                  <td className="py-2 text-right">{row.throughput}</td>
+                  <td className="py-2 text-right">{row.meanWait.toFixed(1)}s</td>
+                  <td className="py-2 text-right">{row.p95Wait.toFixed(1)}s</td>
+                  {DIRECTIONS.map(dir => <td key={dir} className="py-2 text-right">{row.maxQueue[dir]}</td>)}
+                  <td className="py-2 text-right">{row.totalEmissions.toFixed(0)}</td>
+                  <td className="py-2 text-right">{row.co2PerKm.toFixed(0)}</td>
+                  <td className="py-2 text-right">{row.totalFuel.toFixed(2)}</td>
+                  <td className="py-2 text-right">{row.cumulativeReward.toFixed(0)}</td>
+                  <td className="py-2 text-right">{row.shieldOverrides}</td>
+                  <td className="py-2 text-right">{row.conflicts}</td>
+                  <td className="py-2 text-right">{row.redLightViolations}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {report && (
+          <table className="w-full text-[11px] font-mono mt-6">
+            <thead>
+              <tr className="text-zinc-600 uppercase text-[9px]">
+                <th className="text-left font-black pb-2">By Weather</th>
+                <th className="text-left font-black pb-2">Condition</th>
+                <th className="text-right font-black pb-2">Time</th>
+                <th className="text-right font-black pb-2">Veh / min</th>
+                <th className="text-right font-black pb-2">Wait / veh</th>
+                <th className="text-right font-black pb-2">Reward / decision</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.flatMap(row => Object.entries(row.byWeather).map(([condition, stats]) => (
+                <tr key={`${row.controller}-${condition}`} className="text-zinc-300 border-t border-zinc-900">
+                  <td className="py-2">{row.label}</td>
+                  <td className="py-2">{condition}</td>
+                  <td className="py-2 text-right">{(stats.time / 60).toFixed(1)}m</td>
+                  <td className="py-2 text-right">{stats.time > 0 ? (stats.vehiclesPassed / (stats.time / 60)).toFixed(1) : '—'}</td>
+                  <td className="py-2 text-right">{stats.vehiclesPassed > 0 ? `${(stats.waitTime / stats.vehiclesPassed).toFixed(1)}s` : '—'}</td>
+                  <td className="py-2 text-right">{stats.decisions > 0 ? (stats.reward / stats.decisions).toFixed(2) : '—'}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        )}
+
+        {sweep && (
+          <table className="w-full text-[11px] font-mono">
+            <thead>
+              <tr className="text-zinc-600 uppercase text-[9px]">
+                <th className="text-left font-black pb-2">Detector Failure</th>
+                <th className="text-left font-black pb-2">Controller</th>
+                <th className="text-right font-black pb-2">Throughput</th>
+                <th className="text-right font-black pb-2">Mean Wait</th>
+                <th className="text-right font-black pb-2">P95 Wait</th>
+                <th className="text-right font-black pb-2">Reward</th>
+                <th className="text-right font-black pb-2">vs 0%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sweep.flatMap(point => point.rows.map(row => {
+                const intact = sweep[0].rows.find(r => r.controller === row.controller);
+                const change = intact && intact.throughput > 0 ? row.throughput / intact.throughput - 1 : null;
+                return (
+                  <tr key={`${point.failureRate}-${row.controller}`} className="text-zinc-300 border-t border-zinc-900">
+                    <td className="py-2">{(point.failureRate * 100).toFixed(0)}%</td>
+                    <td className="py-2">{row.label}</td>
+                    <td className="py-2 text-right">{row.throughput}</td>
+                    <td className="py-2 text-right">{row.meanWait.toFixed(1)}s</td>
+                    <td className="py-2 text-right">{row.p95Wait.toFixed(1)}s</td>
+                    <td className="py-2 text-right">{row.cumulativeReward.toFixed(0)}</td>
+                    <td className={`py-2 text-right ${change !== null && change < 0 ? 'text-rose-400' : 'text-zinc-500'}`}>
+                      {change === null ? '—' : `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`}
+                    </td>
+                  </tr>
+                );
+              }))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { ControllerId, CONTROLLER_IDS, SignalController } from '../services/controllers';
+
+export interface ControllerStats {
+  emissions: number;
+  vehiclesPassed: number;
+  waitTime: number;
+  simTime: number;
+}
+
+export const emptyControllerStats = (): Record<ControllerId, ControllerStats> => ({
+  dqn: { emissions: 0, vehiclesPassed: 0, waitTime: 0, simTime: 0 },
+  fixed: { emissions: 0, vehiclesPassed: 0, waitTime: 0, simTime: 0 },
+  actuated: { emissions: 0, vehiclesPassed: 0, waitTime: 0, simTime: 0 },
+  maxPressure: { emissions: 0, vehiclesPassed: 0, waitTime: 0, simTime: 0 },
+});
+
+// Stopped vehicle-seconds spread over the vehicles that made it through
+export const averageWait = (stats: ControllerStats) =>
+  stats.vehiclesPassed > 0 ? stats.waitTime / stats.vehiclesPassed : 0;
+
+interface ControllerComparisonProps {
+  controllers: Record<ControllerId, SignalController>;
+  stats: Record<ControllerId, ControllerStats>;
+  activeId: ControllerId;
+}
+
+const ControllerComparison = ({ controllers, stats, activeId }: ControllerComparisonProps) => (
+  <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+    <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+      <span>🚦 Controller Comparison</span>
+      <span className="text-zinc-700 font-mono">Per Strategy</span>
+    </h3>
+    <table className="w-full text-[10px] font-mono">
+      <thead>
+        <tr className="text-zinc-600 uppercase">
+          <th className="text-left font-black pb-2">Controller</th>
+          <th className="text-right font-black pb-2">CO₂ g</th>
+          <th className="text-right font-black pb-2">Passed</th>
+          <th className="text-right font-black pb-2">Avg Wait</th>
+        </tr>
+      </thead>
+      <tbody>
+        {CONTROLLER_IDS.map(id => {
+          const row = stats[id];
+          const isActive = id === activeId;
+          return (
+            <tr key={id} className={isActive ? 'text-indigo-300' : row.simTime > 0 ? 'text-zinc-400' : 'text-zinc-700'}>
+              <td className="py-1">{isActive ? '▸ ' : ''}{controllers[id].label}</td>
+              <td className="py-1 text-right">{row.emissions.toFixed(1)}</td>
+              <td className="py-1 text-right">{row.vehiclesPassed}</td>
+              <td className="py-1 text-right">{averageWait(row).toFixed(1)}s</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </section>
+);
+
+export default ControllerComparison;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { SIGNAL_ACTIONS } from '../services/signalPlan';
+import { DecisionExplanation, DECISION_SOURCES } from '../services/explain';
+
+interface DecisionExplanationPanelProps {
+  explanation: DecisionExplanation | null;
+}
+
+const MAX_FEATURES = 8;
+const MIN_SHARE = 0.1;   // features below this share of the largest attribution are left out of the summary
+
+const actionName = (index: number) => (SIGNAL_ACTIONS[index] || '—').replace(/_/g, ' ');
+
+// One sentence an operator can read instead of the bars
+const summarize = ({ attributions }: DecisionExplanation) => {
+  const largest = Math.abs(attributions[0]?.attribution || 0);
+  if (largest === 0) return 'No single input moved this decision.';
+  const relevant = attributions.filter(a => Math.abs(a.attribution) >= largest * MIN_SHARE);
+  const names = (list: typeof relevant) => list.slice(0, 3).map(a => a.label).join(', ');
+  const forIt = relevant.filter(a => a.attribution > 0);
+  const against = relevant.filter(a => a.attribution < 0);
+  return [
+    forIt.length > 0 && `Driven by ${names(forIt)}`,
+    against.length > 0 && `held back by ${names(against)}`,
+  ].filter(Boolean).join('; ') + '.';
+};
+
+const DecisionExplanationPanel = ({ explanation }: DecisionExplanationPanelProps) => {
+  if (!explanation) {
+    return (
+      <div className="bg-zinc-950/50 p-5 rounded-2xl border border-zinc-900 mb-6 text-[10px] font-mono text-zinc-600">
+        Waiting for the first decision…
+      </div>
+    );
+  }
+
+  const source = DECISION_SOURCES[explanation.source];
+  const shown = explanation.attributions.slice(0, MAX_FEATURES);
+  const scale = Math.max(...shown.map(a => Math.abs(a.attribution)), 1e-6);
+
+  return (
+    <div className="bg-zinc-950/50 p-5 rounded-2xl border border-zinc-900 mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-[10px] font-black text-zinc-400 uppercase tracking-widest">🔍 Why This Action</span>
+        <span
+          className="ml-auto text-[9px] font-black uppercase px-2 py-1 rounded-md"
+          style={{ color: source.color, backgroundColor: `${source.color}1a` }} title={source.description}
+        >
+          {source.label}
+        </span>
+      </div>
+
+      <div className="text-[10px] font-mono text-zinc-400 mb-1">
+        <span className="text-white font-bold">{actionName(explanation.actionIndex)}</span>
+        {' over '}
+        <span className="text-zinc-300">{actionName(explanation.runnerUpIndex)}</span>
+        {' by '}
+        <span className={explanation.margin >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+          {explanation.margin >= 0 ? '+' : ''}{explanation.margin.toFixed(2)} Q
+        </span>
+        <span className="text-zinc-600"> · {(explanation.probability * 100).toFixed(0)}% softmax</span>
+      </div>
+      <div className="text-[10px] text-zinc-500 mb-4">{summarize(explanation)}</div>
+
+      <div className="space-y-1.5">
+        {shown.map(a => (
+          <div key={a.index} className="flex items-center gap-2">
+            <div className="text-[9px] font-mono text-zinc-500 w-24 truncate" title={a.label}>{a.label}</div>
+            <div className="text-[9px] font-mono text-zinc-600 w-8 text-right">{a.value.toFixed(2)}</div>
+            <div className="flex-1 h-3 bg-zinc-950 border border-zinc-900 rounded relative overflow-hidden">
+              <div className="absolute inset-y-0 left-1/2 w-px bg-zinc-800" />
+              <div
+                className={`absolute inset-y-0 ${a.attribution >= 0 ? 'left-1/2 bg-emerald-500/70' : 'right-1/2 bg-rose-500/70'}`}
+                style={{ width: `${(Math.abs(a.attribution) / scale) * 50}%` }}
+              />
+            </div>
+            <div className={`text-[9px] font-mono w-12 text-right ${a.attribution >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {a.attribution >= 0 ? '+' : ''}{a.attribution.toFixed(2)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DecisionExplanationPanel;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Direction } from '../types';
+import { DIRECTIONS } from '../services/simulation';
+import {
+  DemandProfile, DemandCurveId, ArrivalPattern, TurnRatio, DEMAND_CURVES, BUILT_IN_DEMAND_PROFILES
+} from '../services/demand';
+import { VehicleClassId, VEHICLE_CLASS_IDS, VEHICLE_CLASSES } from '../services/vehicles';
+
+interface DemandPanelProps {
+  profile: DemandProfile;
+  presets: DemandProfile[];
+  clock: string;
+  onChange: (profile: DemandProfile) => void;
+  onSavePreset: (profile: DemandProfile) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+const CUSTOM_PROFILE_NAME = 'Custom';
+const CURVE_LABELS: Record<DemandCurveId, string> = {
+  flat: 'Flat', morningPeak: 'AM Peak', eveningPeak: 'PM Peak', doublePeak: 'AM + PM',
+};
+
+const DemandPanel = ({ profile, presets, clock, onChange, onSavePreset, onDeletePreset }: DemandPanelProps) => {
+  const [presetName, setPresetName] = useState('');
+  const allPresets = [...BUILT_IN_DEMAND_PROFILES, ...presets];
+  const isSavedPreset = presets.some(p => p.name === profile.name);
+
+  // Any edit turns the profile into an unsaved custom one until it is saved under a name
+  const update = (changes: Partial<DemandProfile>) => onChange({ ...profile, ...changes, name: CUSTOM_PROFILE_NAME });
+  const updateRate = (dir: Direction, value: number) =>
+    update({ rates: { ...profile.rates, [dir]: Math.max(0, value || 0) } });
+  const updateCurve = (dir: Direction, curve: DemandCurveId) =>
+    update({ curves: { ...profile.curves, [dir]: curve } });
+  // Left and right shares are entered in percent and together never exceed the whole approach
+  const updateTurn = (dir: Direction, turn: keyof TurnRatio, percent: number) => {
+    const current = profile.turnRatios[dir];
+    const other = turn === 'left' ? current.right : current.left;
+    const share = Math.max(0, Math.min(1 - other, (percent || 0) / 100));
+    update({ turnRatios: { ...profile.turnRatios, [dir]: { ...current, [turn]: share } } });
+  };
+  const updateMix = (id: VehicleClassId, percent: number) =>
+    update({ vehicleMix: { ...profile.vehicleMix, [id]: Math.max(0, (percent || 0) / 100) } });
+  const mixTotal = VEHICLE_CLASS_IDS.reduce((sum, id) => sum + profile.vehicleMix[id], 0) || 1;
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🚗 Demand Profile</span>
+        <span className="text-zinc-700 font-mono">Clock {clock}</span>
+      </h3>
+
+      <select
+        className={`${inputClass} mb-4`}
+        value={profile.name}
+        onChange={e => {
+          const preset = allPresets.find(p => p.name === e.target.value);
+          if (preset) onChange(preset);
+        }}
+      >
+        {!allPresets.some(p => p.name === profile.name) && <option value={profile.name}>{profile.name}</option>}
+        {allPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+      </select>
+
+      <div className="grid grid-cols-[auto_1fr_1fr_2.75rem_2.75rem] gap-x-2 gap-y-1.5 items-center mb-4">
+        <span />
+        <span className={labelClass}>Veh / h</span>
+        <span className={labelClass}>Time of Day</span>
+        <span className={labelClass}>L %</span>
+        <span className={labelClass}>R %</span>
+        {DIRECTIONS.map(dir => (
+          <React.Fragment key={dir}>
+            <span className="text-[11px] font-black text-zinc-300 w-4">{dir}</span>
+            <input
+              type="number" min={0} step={50} className={inputClass} value={profile.rates[dir]}
+              onChange={e => updateRate(dir, Number(e.target.value))}
+            />
+            <select
+              className={inputClass} value={profile.curves[dir]}
+              onChange={e => updateCurve(dir, e.target.value as DemandCurveId)}
+            >
+              {(Object.keys(DEMAND_CURVES) as DemandCurveId[]).map(id => <option key={id} value={id}>{CURVE_LABELS[id]}</option>)}
+            </select>
+            {(['left', 'right'] as const).map(turn => (
+              <input
+                key={turn} type="number" min={0} max={100} step={5} className={inputClass}
+                value={Math.round(profile.turnRatios[dir][turn] * 100)}
+                onChange={e => updateTurn(dir, turn, Number(e.target.value))}
+              />
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <label>
+          <span className={labelClass}>Arrivals</span>
+          <select
+            className={inputClass} value={profile.arrival}
+            onChange={e => update({ arrival: e.target.value as ArrivalPattern })}
+          >
+            <option value="poisson">Poisson</option>
+            <option value="platoon">Platoons</option>
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Platoon Size</span>
+          <input
+            type="number" min={1} max={20} className={inputClass} value={profile.platoonSize}
+            disabled={profile.arrival !== 'platoon'}
+            onChange={e => update({ platoonSize: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+          />
+        </label>
+        <label className="col-span-2">
+          <span className={labelClass}>Pedestrians / h per Crosswalk</span>
+          <input
+            type="number" min={0} step={30} className={inputClass} value={profile.pedestrianRate}
+            onChange={e => update({ pedestrianRate: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Start Hour</span>
+          <input
+            type="number" min={0} max={23} className={inputClass} value={profile.startHour}
+            onChange={e => update({ startHour: Math.max(0, Math.min(23, Number(e.target.value) || 0)) })}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Sim s / Hour</span>
+          <input
+            type="number" min={30} step={30} className={inputClass} value={profile.hourDuration}
+            onChange={e => update({ hourDuration: Math.max(30, Number(e.target.value) || 3600) })}
+          />
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <span className={`${labelClass} flex justify-between`}>
+          <span>Vehicle Mix</span>
+          <span className="font-mono text-zinc-600">weights, normalized</span>
+        </span>
+        <div className="grid grid-cols-5 gap-2">
+          {VEHICLE_CLASS_IDS.map(id => (
+            <label key={id} title={`${((profile.vehicleMix[id] / mixTotal) * 100).toFixed(0)}% of arrivals`}>
+              <span className="text-[9px] font-mono text-zinc-500">{VEHICLE_CLASSES[id].label}</span>
+              <input
+                type="number" min={0} max={100} className={inputClass} value={Math.round(profile.vehicleMix[id] * 100)}
+                onChange={e => updateMix(id, Number(e.target.value))}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="block mb-4">
+        <span className={`${labelClass} flex justify-between`}>
+          <span>Emergency Share</span>
+          <span className="font-mono text-zinc-400">{(profile.emergencyShare * 100).toFixed(1)}%</span>
+        </span>
+        <input
+          type="range" min={0} max={0.05} step={0.001} className="w-full accent-rose-500" value={profile.emergencyShare}
+          onChange={e => update({ emergencyShare: Number(e.target.value) })}
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <input
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className={`${inputClass} flex-1 placeholder:text-zinc-700`}
+        />
+        <button
+          className={buttonClass}
+          disabled={!presetName.trim()}
+          onClick={() => { onSavePreset({ ...profile, name: presetName.trim() }); setPresetName(''); }}
+        >
+          Save
+        </button>
+        <button className={buttonClass} disabled={!isSavedPreset} onClick={() => onDeletePreset(profile.name)}>
+          Delete
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default DemandPanel;
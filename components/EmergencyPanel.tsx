@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Direction } from '../types';
+import { DIRECTIONS } from '../services/simulation';
+import {
+  EmergencyKind, PreemptionEvent, EMERGENCY_KINDS, EMERGENCY_VEHICLES, summarizePreemptions
+} from '../services/emergency';
+
+interface EmergencyPanelProps {
+  events: (PreemptionEvent & { node: string })[];
+  showNode: boolean;
+  onDispatch: (dir: Direction, kind: EmergencyKind) => void;
+}
+
+const MAX_EVENTS = 6;
+const buttonClass = 'flex-1 px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all';
+
+const EmergencyPanel = ({ events, showNode, onDispatch }: EmergencyPanelProps) => {
+  const [approach, setApproach] = useState<Direction>(Direction.N);
+  const summary = summarizePreemptions(events);
+  const recent = events.slice(-MAX_EVENTS).reverse();
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🚑 Emergency Preemption</span>
+        <span className="text-zinc-700 font-mono">{summary.count} Cleared</span>
+      </h3>
+
+      <div className="flex gap-2 mb-4">
+        <select
+          className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300"
+          value={approach}
+          onChange={e => setApproach(e.target.value as Direction)}
+        >
+          {DIRECTIONS.map(dir => <option key={dir} value={dir}>{dir}</option>)}
+        </select>
+        {EMERGENCY_KINDS.map(kind => (
+          <button key={kind} className={buttonClass} onClick={() => onDispatch(approach, kind)}>
+            {EMERGENCY_VEHICLES[kind].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4 text-[10px] font-mono">
+        <div className="text-zinc-600">Avg response <span className="text-zinc-300">{summary.meanResponse.toFixed(1)}s</span></div>
+        <div className="text-zinc-600">Avg delay to others <span className="text-zinc-300">{summary.meanOtherDelay.toFixed(1)}s</span></div>
+      </div>
+
+      {recent.length > 0 && (
+        <table className="w-full text-[10px] font-mono">
+          <thead>
+            <tr className="text-zinc-600 uppercase">
+              <th className="text-left font-black pb-2">Vehicle</th>
+              <th className="text-right font-black pb-2">At</th>
+              <th className="text-right font-black pb-2">Response</th>
+              <th className="text-right font-black pb-2">Others</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map(e => (
+              <tr key={`${e.node}-${e.vehicleId}`} className={e.clearedAt === null ? 'text-rose-400' : 'text-zinc-400'}>
+                <td className="py-1">{EMERGENCY_VEHICLES[e.kind].label}</td>
+                <td className="py-1 text-right">{showNode ? e.node : ''}{e.approach}</td>
+                <td className="py-1 text-right">{e.greenAt === null ? '…' : `${(e.greenAt - e.detectedAt).toFixed(1)}s`}</td>
+                <td className="py-1 text-right">{e.otherDelay.toFixed(1)}s</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default EmergencyPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Direction } from '../types';
+import { EmissionSummary, EmissionTotals } from '../services/emissions';
+import { DIRECTIONS } from '../services/simulation';
+
+interface EmissionsPanelProps {
+  summary: EmissionSummary;
+  approaches: Record<Direction, EmissionTotals>;   // the focused junction's approaches
+  node: string;
+  baseline: number | null;   // g/km of the fixed-time plan on this scenario, null while it runs
+  change: number | null;     // relative change in g/km against the baseline
+}
+
+const perKm = (totals: EmissionTotals) => totals.distance > 0 ? (totals.co2 / totals.distance).toFixed(0) : '—';
+
+const EmissionsPanel = ({ summary, approaches, node, baseline, change }: EmissionsPanelProps) => {
+  const tiles = [
+    { label: 'CO₂ / Veh', value: summary.co2PerVehicle === null ? '—' : `${summary.co2PerVehicle.toFixed(1)}g` },
+    { label: 'CO₂ / km', value: summary.co2PerKm === null ? '—' : `${summary.co2PerKm.toFixed(0)}g` },
+    { label: 'NOx', value: `${summary.total.nox.toFixed(2)}g` },
+    { label: 'Fuel', value: `${(summary.total.fuel / 1000).toFixed(2)}L` },
+  ];
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🌿 Emissions & Fuel</span>
+        <span className="text-zinc-700 font-mono">{summary.trips} Trips</span>
+      </h3>
+
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-zinc-900/50 p-2 rounded-lg border border-zinc-800">
+            <div className="text-[8px] font-black text-zinc-500 uppercase">{tile.label}</div>
+            <div className="text-sm font-mono font-bold text-zinc-200">{tile.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between mb-4 text-[10px] font-mono">
+        <span className="text-zinc-600">Fixed-time baseline <span className="text-zinc-300">{baseline === null ? 'running…' : `${baseline.toFixed(0)} g/km`}</span></span>
+        {change !== null && (
+          <span className={change <= 0 ? 'text-emerald-400' : 'text-rose-400'}>{change > 0 ? '+' : ''}{(change * 100).toFixed(1)}%</span>
+        )}
+      </div>
+
+      <table className="w-full text-[10px] font-mono">
+        <thead>
+          <tr className="text-zinc-600 uppercase">
+            <th className="text-left font-black pb-2">Approach · {node}</th>
+            <th className="text-right font-black pb-2">CO₂ g</th>
+            <th className="text-right font-black pb-2">NOx g</th>
+            <th className="text-right font-black pb-2">Fuel L</th>
+            <th className="text-right font-black pb-2">g/km</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DIRECTIONS.map(dir => (
+            <tr key={dir} className="text-zinc-400">
+              <td className="py-1">{dir}</td>
+              <td className="py-1 text-right">{approaches[dir].co2.toFixed(0)}</td>
+              <td className="py-1 text-right">{approaches[dir].nox.toFixed(2)}</td>
+              <td className="py-1 text-right">{(approaches[dir].fuel / 1000).toFixed(2)}</td>
+              <td className="py-1 text-right">{perKm(approaches[dir])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default EmissionsPanel;
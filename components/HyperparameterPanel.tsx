@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Hyperparameters, HYPERPARAMETER_KEYS, HYPERPARAMETER_FIELDS, DEFAULT_HYPERPARAMETERS,
+  validateHyperparameters, changedHyperparameters, needsRebuild
+} from '../services/hyperparameters';
+
+interface HyperparameterPanelProps {
+  config: Hyperparameters;   // what the agent is running with
+  onApply: (config: Hyperparameters, rebuild: boolean) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+
+const HyperparameterPanel = ({ config, onApply }: HyperparameterPanelProps) => {
+  const [draft, setDraft] = useState(config);
+  const [confirming, setConfirming] = useState(false);
+  useEffect(() => {
+    setDraft(config);
+    setConfirming(false);
+  }, [config]);
+
+  const errors = validateHyperparameters(draft);
+  const valid = Object.keys(errors).length === 0;
+  const changed = changedHyperparameters(config, draft);
+  const rebuild = needsRebuild(config, draft);
+  const rebuilt = changed.filter(key => !HYPERPARAMETER_FIELDS[key].live).map(key => HYPERPARAMETER_FIELDS[key].label);
+
+  // Settings baked into the network only change by building a new agent, so that asks first
+  const apply = () => {
+    if (rebuild && !confirming) setConfirming(true);
+    else onApply(draft, rebuild);
+  };
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>⚙️ Hyperparameters</span>
+        <button className="text-zinc-600 hover:text-white uppercase" onClick={() => { setDraft(DEFAULT_HYPERPARAMETERS); setConfirming(false); }}>
+          Defaults
+        </button>
+      </h3>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        {HYPERPARAMETER_KEYS.map(key => {
+          const { label, min, max, step, live } = HYPERPARAMETER_FIELDS[key];
+          const border = errors[key] ? 'border-rose-500/60' : draft[key] !== config[key] ? 'border-indigo-500/60' : 'border-zinc-800';
+          return (
+            <label key={key} title={live ? 'Applies to the running agent' : 'Needs a new agent'}>
+              <span className={labelClass}>{label}{live ? '' : ' ↻'}</span>
+              <input
+                type="number" min={min} max={max} step={step} className={`${inputClass} ${border}`}
+                value={Number.isNaN(draft[key]) ? '' : draft[key]}
+                onChange={e => {
+                  setConfirming(false);
+                  setDraft({ ...draft, [key]: e.target.value === '' ? NaN : Number(e.target.value) });
+                }}
+              />
+              {errors[key] && <span className="block text-[9px] font-mono text-rose-400 mt-0.5">{errors[key]}</span>}
+            </label>
+          );
+        })}
+      </div>
+      <p className="text-[9px] text-zinc-600 mb-3">↻ needs a new agent. The rest apply to the running one. Either way a new telemetry run starts.</p>
+
+      {confirming ? (
+        <div className="border border-amber-500/30 bg-amber-500/5 rounded-lg p-2">
+          <p className="text-[10px] text-amber-300 mb-2">
+            Changing {rebuilt.join(', ')} builds a new agent. Its learned weights and training history are discarded.
+          </p>
+          <div className="flex gap-2">
+            <button className={`${buttonClass} flex-1`} onClick={apply}>Rebuild Agent</button>
+            <button className={`${buttonClass} flex-1`} onClick={() => setConfirming(false)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button className={`${buttonClass} flex-1`} disabled={!valid || changed.length === 0} onClick={apply}>
+            {rebuild ? 'Apply & Rebuild' : 'Apply'}
+          </button>
+          <button className={`${buttonClass} flex-1`} disabled={changed.length === 0} onClick={() => setDraft(config)}>Revert</button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HyperparameterPanel;
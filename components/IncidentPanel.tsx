@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Incident, IncidentSummary, INCIDENT_KINDS, INCIDENT_TYPES, TTC_THRESHOLD, PET_THRESHOLD
+} from '../services/conflicts';
+
+interface IncidentPanelProps {
+  incidents: (Incident & { node: string })[];
+  summary: IncidentSummary;
+  showNode: boolean;
+}
+
+const MAX_INCIDENTS = 8;
+
+const seconds = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}s`;
+
+const IncidentPanel = ({ incidents, summary, showNode }: IncidentPanelProps) => {
+  const recent = incidents.slice(-MAX_INCIDENTS).reverse();
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>⚠️ Conflicts & Violations</span>
+        <span className="text-zinc-700 font-mono">{summary.conflicts + summary.counts.redLight} Incidents</span>
+      </h3>
+
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        {INCIDENT_KINDS.map(kind => (
+          <div key={kind} className="bg-zinc-900/50 p-2 rounded-lg border border-zinc-800" title={INCIDENT_TYPES[kind].description}>
+            <div className="text-[8px] font-black text-zinc-500 uppercase">{INCIDENT_TYPES[kind].label}</div>
+            <div className="text-sm font-mono font-bold" style={{ color: summary.counts[kind] > 0 ? INCIDENT_TYPES[kind].color : '#52525b' }}>
+              {summary.counts[kind]}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4 text-[10px] font-mono">
+        <div className="text-zinc-600">Min TTC <span className="text-zinc-300">{seconds(summary.minTTC)}</span> <span className="text-zinc-700">&lt; {TTC_THRESHOLD}s</span></div>
+        <div className="text-zinc-600">Min PET <span className="text-zinc-300">{seconds(summary.minPET)}</span> <span className="text-zinc-700">&lt; {PET_THRESHOLD}s</span></div>
+      </div>
+
+      {recent.length > 0 ? (
+        <table className="w-full text-[10px] font-mono">
+          <thead>
+            <tr className="text-zinc-600 uppercase">
+              <th className="text-left font-black pb-2">At</th>
+              <th className="text-left font-black pb-2">Kind</th>
+              <th className="text-left font-black pb-2">Movements</th>
+              <th className="text-right font-black pb-2">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map(incident => (
+              <tr key={`${incident.node}-${incident.id}`} className="text-zinc-400">
+                <td className="py-1">{showNode ? `${incident.node} ` : ''}{incident.time.toFixed(0)}s</td>
+                <td className="py-1" style={{ color: INCIDENT_TYPES[incident.kind].color }}>{INCIDENT_TYPES[incident.kind].label}</td>
+                <td className="py-1">{incident.movements}</td>
+                <td className="py-1 text-right">{incident.value === null ? '' : seconds(incident.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-[10px] font-mono text-zinc-600">No conflicts or violations so far.</div>
+      )}
+    </section>
+  );
+};
+
+export default IncidentPanel;
@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Direction } from '../types';
+import { DIRECTIONS } from '../services/simulation';
+import { MAX_LANES } from '../services/geometry';
+import { LaneConfig, DEFAULT_LANE_CONFIG, describeLane } from '../services/lanes';
+
+interface LanePanelProps {
+  config: LaneConfig;   // what the network is built with
+  onApply: (config: LaneConfig) => void;
+}
+
+const inputClass = 'bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+
+const DIRECTION_NAMES: Record<Direction, string> = { N: 'Northbound', S: 'Southbound', E: 'Eastbound', W: 'Westbound' };
+
+const LanePanel = ({ config, onApply }: LanePanelProps) => {
+  const [draft, setDraft] = useState(config);
+  useEffect(() => { setDraft(config); }, [config]);
+
+  const changed = JSON.stringify(draft) !== JSON.stringify(config);
+  const update = (dir: Direction, patch: Partial<LaneConfig[Direction]>) => setDraft({ ...draft, [dir]: { ...draft[dir], ...patch } });
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🛣️ Lanes</span>
+        <button className="text-zinc-600 hover:text-white uppercase" onClick={() => setDraft(DEFAULT_LANE_CONFIG)}>Defaults</button>
+      </h3>
+
+      <div className="space-y-2 mb-3">
+        {DIRECTIONS.map(dir => {
+          const lanes = draft[dir];
+          return (
+            <div key={dir} className="flex items-center gap-2">
+              <span className={`${labelClass} w-24`}>{DIRECTION_NAMES[dir]}</span>
+              <select className={inputClass} value={lanes.count} onChange={e => update(dir, { count: Number(e.target.value) })}>
+                {Array.from({ length: MAX_LANES }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count} {count === 1 ? 'lane' : 'lanes'}</option>
+                ))}
+              </select>
+              <label className={`flex items-center gap-1 ${labelClass} ${lanes.count > 1 ? '' : 'opacity-30'}`}>
+                <input
+                  type="checkbox" disabled={lanes.count === 1} checked={lanes.leftTurnLane}
+                  onChange={e => update(dir, { leftTurnLane: e.target.checked })}
+                />
+                Left-turn lane
+              </label>
+              <span className="ml-auto text-[9px] font-mono text-zinc-600" title="Movements allowed from each lane, kerb first">
+                {Array.from({ length: lanes.count }, (_, lane) => describeLane(lanes, lane)).join(' · ')}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[9px] text-zinc-600 mb-3">
+        Each setting covers a travel direction both before and after the junction. Applying repaints every junction and starts the run over.
+      </p>
+
+      <div className="flex gap-2">
+        <button className={`${buttonClass} flex-1`} disabled={!changed} onClick={() => onApply(draft)}>Apply & Reset</button>
+        <button className={`${buttonClass} flex-1`} disabled={!changed} onClick={() => setDraft(config)}>Revert</button>
+      </div>
+    </section>
+  );
+};
+
+export default LanePanel;
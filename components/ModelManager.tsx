@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { ModelSummary } from '../services/modelStore';
+
+export interface ModelStatus {
+  kind: 'ok' | 'error';
+  text: string;
+}
+
+interface ModelManagerProps {
+  models: ModelSummary[];
+  suggestedName: string;
+  status: ModelStatus | null;
+  onSave: (name: string) => void;
+  onLoad: (name: string) => void;
+  onDelete: (name: string) => void;
+  onExport: (name: string) => void;
+  onImport: (file: File) => void;
+}
+
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+
+const ModelManager = ({ models, suggestedName, status, onSave, onLoad, onDelete, onExport, onImport }: ModelManagerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const hasSelection = models.some(m => m.name === selected);
+
+  return (
+    <div className="bg-zinc-950/50 rounded-2xl border border-zinc-900 p-4 mb-6">
+      <div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest mb-3 flex justify-between">
+        <span>Model Library</span>
+        <span className="text-zinc-700">{models.length} Saved</span>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <select
+          value={selected}
+          onChange={e => setSelected(e.target.value)}
+          className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-[10px] font-mono text-zinc-300"
+        >
+          <option value="">Select a model…</option>
+          {models.map(m => (
+            <option key={m.name} value={m.name}>{m.name} — {m.episodes} ep</option>
+          ))}
+        </select>
+        <button className={buttonClass} disabled={!hasSelection} onClick={() => onLoad(selected)}>Load</button>
+        <button className={buttonClass} disabled={!hasSelection} onClick={() => onExport(selected)}>Export</button>
+        <button
+          className={buttonClass}
+          disabled={!hasSelection}
+          onClick={() => { onDelete(selected); setSelected(''); }}
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={suggestedName}
+          className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-[10px] font-mono text-zinc-300 placeholder:text-zinc-700"
+        />
+        <button className={buttonClass} onClick={() => { onSave(name.trim() || suggestedName); setName(''); }}>Save</button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>Import</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && (
+        <div className={`mt-2 text-[10px] font-mono ${status.kind === 'error' ? 'text-rose-400' : 'text-emerald-400'}`}>
+          {status.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelManager;
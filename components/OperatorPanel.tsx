@@ -0,0 +1,128 @@
+import React from 'react';
+import { Phase } from '../types';
+import { ControllerId, SignalController } from '../services/controllers';
+import { SignalStage, SignalMode, STAGE_SEQUENCE, STAGE_LABELS, SIGNAL_MODE_LABELS } from '../services/signalPlan';
+import {
+  ManualOverride, PlanId, PlanWindow, AuditEntry, PLAN_IDS, isModePlan, describeOverride, exportAuditLog
+} from '../services/operator';
+
+interface OperatorPanelProps {
+  node: string;
+  override: ManualOverride | null;   // the focused junction's
+  stage: SignalStage;
+  phase: Phase;
+  schedule: PlanWindow[];
+  plan: PlanId | null;               // what the schedule has in force now
+  clock: string;
+  audit: AuditEntry[];
+  controllers: Record<ControllerId, SignalController>;
+  onHold: (stage: SignalStage) => void;
+  onForceChange: () => void;
+  onMode: (mode: Exclude<SignalMode, 'normal'>) => void;
+  onRelease: () => void;
+  onScheduleChange: (schedule: PlanWindow[]) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+const activeClass = 'border-sky-500/40 bg-sky-500/10 text-sky-300';
+const AUDIT_ROWS = 8;
+
+const OperatorPanel = ({
+  node, override, stage, phase, schedule, plan, clock, audit, controllers,
+  onHold, onForceChange, onMode, onRelease, onScheduleChange,
+}: OperatorPanelProps) => {
+  const planLabel = (id: PlanId) => isModePlan(id) ? SIGNAL_MODE_LABELS[id] : controllers[id].label;
+  const updateWindow = (index: number, changes: Partial<PlanWindow>) =>
+    onScheduleChange(schedule.map((window, i) => i === index ? { ...window, ...changes } : window));
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🕹️ Operator · {node}</span>
+        <span className={`font-mono ${override ? 'text-sky-400' : 'text-zinc-700'}`}>{describeOverride(override)}</span>
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        {STAGE_SEQUENCE.map(s => (
+          <button
+            key={s} onClick={() => onHold(s)}
+            className={`${buttonClass} ${override?.kind === 'hold' && override.stage === s ? activeClass : ''}`}
+          >
+            Hold {STAGE_LABELS[s]}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        <button className={buttonClass} disabled={phase !== Phase.GREEN || override?.kind === 'mode'} onClick={onForceChange}>
+          Force Change
+        </button>
+        {(['flash', 'allRed'] as const).map(mode => (
+          <button
+            key={mode} onClick={() => onMode(mode)}
+            className={`${buttonClass} ${override?.kind === 'mode' && override.mode === mode ? activeClass : ''}`}
+          >
+            {SIGNAL_MODE_LABELS[mode]}
+          </button>
+        ))}
+        <button className={buttonClass} disabled={!override} onClick={onRelease}>Release</button>
+      </div>
+      <p className="text-[9px] text-zinc-600 mb-4">
+        Now {STAGE_LABELS[stage]}. The safety shield still bounds every manual action, and the agent does not learn from them.
+      </p>
+
+      <div className="flex justify-between items-center mb-2">
+        <span className={labelClass}>Time-of-Day Plans</span>
+        <span className="text-[10px] font-mono text-zinc-500">{clock} · {plan ? planLabel(plan) : 'Selected controller'}</span>
+      </div>
+      <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center mb-2">
+        <span className={labelClass}>From h</span>
+        <span className={labelClass}>To h</span>
+        <span className={labelClass}>Plan</span>
+        <span />
+        {schedule.map((window, i) => (
+          <React.Fragment key={i}>
+            <input
+              type="number" min={0} max={24} step={0.5} className={inputClass} value={window.from}
+              onChange={e => updateWindow(i, { from: Number(e.target.value) || 0 })}
+            />
+            <input
+              type="number" min={0} max={24} step={0.5} className={inputClass} value={window.to}
+              onChange={e => updateWindow(i, { to: Number(e.target.value) || 0 })}
+            />
+            <select className={inputClass} value={window.plan} onChange={e => updateWindow(i, { plan: e.target.value as PlanId })}>
+              {PLAN_IDS.map(id => <option key={id} value={id}>{planLabel(id)}</option>)}
+            </select>
+            <button className={buttonClass} onClick={() => onScheduleChange(schedule.filter((_, j) => j !== i))}>✕</button>
+          </React.Fragment>
+        ))}
+      </div>
+      <button
+        className={`${buttonClass} w-full mb-4`}
+        onClick={() => onScheduleChange([...schedule, { from: 22, to: 6, plan: 'fixed' }])}
+      >
+        Add Plan
+      </button>
+
+      <div className="flex justify-between items-center mb-2">
+        <span className={labelClass}>Audit Log · {audit.length}</span>
+        <div className="flex gap-2">
+          <button className={buttonClass} disabled={audit.length === 0} onClick={() => exportAuditLog(audit, 'csv')}>CSV</button>
+          <button className={buttonClass} disabled={audit.length === 0} onClick={() => exportAuditLog(audit, 'json')}>JSON</button>
+        </div>
+      </div>
+      <div className="space-y-1 text-[10px] font-mono">
+        {audit.length === 0 && <div className="text-zinc-700">No interventions yet</div>}
+        {audit.slice(-AUDIT_ROWS).reverse().map((entry, i) => (
+          <div key={`${entry.at}-${i}`} className="flex justify-between gap-2 text-zinc-400">
+            <span className="text-zinc-600">{entry.at.slice(11, 19)} · {entry.time.toFixed(0)}s</span>
+            <span className="truncate">{entry.node} {entry.action}: {entry.detail}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default OperatorPanel;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import {
+  RewardConfig, RewardTermId, REWARD_TERM_IDS, REWARD_TERMS, DEFAULT_REWARD_CONFIG
+} from '../services/reward';
+
+interface RewardDesignerProps {
+  config: RewardConfig;
+  onChange: (config: RewardConfig) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300 disabled:opacity-30';
+
+const unparsed = (text: string | undefined) => text !== undefined && (text.trim() === '' || !Number.isFinite(Number(text)));
+
+const RewardDesigner = ({ config, onChange }: RewardDesignerProps) => {
+  // Weights as typed, so half-written numbers like "-" or "0." survive until they parse
+  const [drafts, setDrafts] = useState<Partial<Record<RewardTermId, string>>>({});
+  const updateTerm = (id: RewardTermId, changes: Partial<RewardConfig[RewardTermId]>) =>
+    onChange({ ...config, [id]: { ...config[id], ...changes } });
+
+  const updateWeight = (id: RewardTermId, text: string) => {
+    setDrafts({ ...drafts, [id]: text });
+    if (!unparsed(text)) updateTerm(id, { weight: Number(text) });
+  };
+
+  const clearDraft = (id: RewardTermId) => {
+    const { [id]: _typed, ...rest } = drafts;
+    setDrafts(rest);
+  };
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🎯 Reward Designer</span>
+        <button className="text-zinc-600 hover:text-white uppercase" onClick={() => { setDrafts({}); onChange(DEFAULT_REWARD_CONFIG); }}>
+          Defaults
+        </button>
+      </h3>
+
+      <div className="grid grid-cols-[auto_1fr_4.5rem] gap-x-2 gap-y-1.5 items-center">
+        {REWARD_TERM_IDS.map(id => (
+          <React.Fragment key={id}>
+            <input
+              type="checkbox" className="accent-indigo-500" checked={config[id].enabled}
+              onChange={e => updateTerm(id, { enabled: e.target.checked })}
+            />
+            <div className="min-w-0">
+              <div className="flex items-center gap-1.5 text-[10px] font-black text-zinc-300">
+                <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: REWARD_TERMS[id].color }} />
+                {REWARD_TERMS[id].label}
+              </div>
+              <div className="text-[9px] font-mono text-zinc-600 truncate">{REWARD_TERMS[id].unit}</div>
+            </div>
+            <input
+              type="text" inputMode="decimal" disabled={!config[id].enabled}
+              className={`${inputClass} ${unparsed(drafts[id]) ? 'border-rose-500/60' : 'border-zinc-800'}`}
+              value={drafts[id] ?? config[id].weight}
+              onChange={e => updateWeight(id, e.target.value)}
+              onBlur={() => clearDraft(id)}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RewardDesigner;
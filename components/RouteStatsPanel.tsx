@@ -0,0 +1,43 @@
+import React from 'react';
+import { RouteStats } from '../services/network';
+
+interface RouteStatsPanelProps {
+  routes: RouteStats[];
+}
+
+const MAX_ROUTES = 8;
+
+const RouteStatsPanel = ({ routes }: RouteStatsPanelProps) => (
+  <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+    <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+      <span>🛣️ Corridor Routes</span>
+      <span className="text-zinc-700 font-mono">Entry → Exit</span>
+    </h3>
+    {routes.length === 0 ? (
+      <p className="text-[10px] font-mono text-zinc-700">No completed trips yet.</p>
+    ) : (
+      <table className="w-full text-[10px] font-mono">
+        <thead>
+          <tr className="text-zinc-600 uppercase">
+            <th className="text-left font-black pb-2">Route</th>
+            <th className="text-right font-black pb-2">Trips</th>
+            <th className="text-right font-black pb-2">Travel</th>
+            <th className="text-right font-black pb-2">Stops</th>
+          </tr>
+        </thead>
+        <tbody>
+          {routes.slice(0, MAX_ROUTES).map(row => (
+            <tr key={row.route} className="text-zinc-400">
+              <td className="py-1">{row.route}</td>
+              <td className="py-1 text-right">{row.trips}</td>
+              <td className="py-1 text-right">{row.meanTravelTime.toFixed(1)}s</td>
+              <td className="py-1 text-right">{row.meanStops.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+export default RouteStatsPanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { SIGNAL_ACTIONS } from '../services/signalPlan';
+import {
+  ShieldConfig, ShieldOverride, OVERRIDE_REASONS, DEFAULT_SHIELD_CONFIG
+} from '../services/safetyShield';
+
+interface SafetyShieldPanelProps {
+  config: ShieldConfig;
+  overrides: ShieldOverride[];
+  overrideCount: number;
+  showNode: boolean;
+  onChange: (config: ShieldConfig) => void;
+}
+
+const FIELDS: { key: keyof ShieldConfig; label: string }[] = [
+  { key: 'minGreen', label: 'Min Green' },
+  { key: 'maxGreen', label: 'Max Green' },
+  { key: 'minYellow', label: 'Min Yellow' },
+  { key: 'allRed', label: 'All-Red' },
+  { key: 'maxWait', label: 'Max Wait' },
+];
+
+const MAX_OVERRIDES = 6;
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+
+const actionName = (index: number) => SIGNAL_ACTIONS[index].replace(/_/g, ' ');
+
+const SafetyShieldPanel = ({ config, overrides, overrideCount, showNode, onChange }: SafetyShieldPanelProps) => {
+  const recent = overrides.slice(-MAX_OVERRIDES).reverse();
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🛡️ Safety Shield</span>
+        <span className="flex gap-3">
+          <span className="text-zinc-700 font-mono">{overrideCount} Overrides</span>
+          <button className="text-zinc-600 hover:text-white uppercase" onClick={() => onChange(DEFAULT_SHIELD_CONFIG)}>
+            Defaults
+          </button>
+        </span>
+      </h3>
+
+      <div className="grid grid-cols-5 gap-2 mb-4">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-[9px] font-black text-zinc-500 uppercase">
+            {label}
+            <input
+              type="number" min={0} step={1} className={inputClass} value={config[key]}
+              onChange={e => onChange({ ...config, [key]: Number(e.target.value) || 0 })}
+            />
+          </label>
+        ))}
+      </div>
+
+      {recent.length > 0 ? (
+        <table className="w-full text-[10px] font-mono">
+          <thead>
+            <tr className="text-zinc-600 uppercase">
+              <th className="text-left font-black pb-2">At</th>
+              <th className="text-left font-black pb-2">Requested</th>
+              <th className="text-left font-black pb-2">Applied</th>
+              <th className="text-right font-black pb-2">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map((o, i) => (
+              <tr key={`${o.node}-${o.time}-${i}`} className="text-zinc-400">
+                <td className="py-1">{showNode ? `${o.node} ` : ''}{o.time.toFixed(0)}s</td>
+                <td className="py-1 text-rose-400">{actionName(o.requested)}</td>
+                <td className="py-1 text-emerald-400">{actionName(o.applied)}</td>
+                <td className="py-1 text-right">{OVERRIDE_REASONS[o.reason]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-[10px] font-mono text-zinc-600">No unsafe actions so far.</div>
+      )}
+    </section>
+  );
+};
+
+export default SafetyShieldPanel;
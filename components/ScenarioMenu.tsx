@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { Scenario, describeEvent } from '../services/scenario';
+
+interface ScenarioMenuProps {
+  library: Scenario[];
+  current: Scenario | null;   // the scenario last loaded, if any
+  error: string | null;
+  onLoad: (scenario: Scenario) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onDismissError: () => void;
+}
+
+const buttonClass = 'px-2 py-1 rounded-md text-[10px] font-black uppercase transition-all text-zinc-600 hover:text-zinc-400';
+
+const ScenarioMenu = ({ library, current, error, onLoad, onImport, onExport, onDismissError }: ScenarioMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // An imported scenario is listed alongside the built-in ones while it is loaded
+  const scenarios = current && !library.includes(current) ? [...library, current] : library;
+  const summary = current ? [current.description, ...current.events.map(describeEvent)].filter(Boolean).join('\n') : undefined;
+
+  return (
+    <div className="relative bg-zinc-900 p-1 rounded-lg flex items-center border border-zinc-800 gap-1">
+      <select
+        value={current ? scenarios.indexOf(current) : ''}
+        title={summary}
+        onChange={e => { if (e.target.value !== '') onLoad(scenarios[Number(e.target.value)]); }}
+        className="bg-transparent px-1 py-1 text-[10px] font-black uppercase text-zinc-400 max-w-[9rem]"
+      >
+        <option value="">Scenario…</option>
+        {scenarios.map((scenario, index) => (
+          <option key={`${index}-${scenario.name}`} value={index}>{scenario.name}</option>
+        ))}
+      </select>
+      <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>Import</button>
+      <button className={buttonClass} onClick={onExport}>Export</button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+
+      {error && (
+        <div className="absolute top-full right-0 mt-2 w-96 bg-zinc-950 border border-rose-500/40 rounded-lg p-3 shadow-xl">
+          <div className="flex justify-between gap-2">
+            <span className="text-[10px] font-mono text-rose-400 break-words">{error}</span>
+            <button className="text-[10px] text-zinc-600 hover:text-white" onClick={onDismissError}>✕</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioMenu;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Direction } from '../types';
+import { DIRECTIONS } from '../services/simulation';
+import { SensorConfig, Detector, ApproachReading, DETECTOR_TYPES } from '../services/sensors';
+
+interface SensorPanelProps {
+  config: SensorConfig;
+  detectors: Detector[];                            // the focused junction's
+  readings: Record<Direction, ApproachReading>;     // what its controller sees
+  truth: Record<Direction, ApproachReading>;        // what is actually there
+  node: string;
+  onChange: (config: SensorConfig) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+
+// Config fields edited as numbers, with the factor between the stored value and the one shown
+const NUMBER_FIELDS: { key: keyof SensorConfig; label: string; scale: number }[] = [
+  { key: 'stopBarLength', label: 'Stop-bar px', scale: 1 },
+  { key: 'advanceDistance', label: 'Advance px', scale: 1 },
+  { key: 'cameraRange', label: 'Camera px', scale: 1 },
+  { key: 'noise', label: 'Noise %', scale: 100 },
+  { key: 'dropout', label: 'Dropout %', scale: 100 },
+  { key: 'latency', label: 'Latency s', scale: 1 },
+  { key: 'failureRate', label: 'Failed %', scale: 100 },
+];
+
+const SensorPanel = ({ config, detectors, readings, truth, node, onChange }: SensorPanelProps) => {
+  const failed = detectors.filter(d => d.failed).length;
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>📡 Sensors</span>
+        <span className={`font-mono ${failed > 0 ? 'text-rose-400' : 'text-zinc-700'}`}>{failed}/{detectors.length} Failed</span>
+      </h3>
+
+      <div className="flex gap-2 mb-3">
+        {(['stopBar', 'advance', 'camera'] as const).map(kind => (
+          <button
+            key={kind}
+            onClick={() => onChange({ ...config, [kind]: !config[kind] })}
+            className={`flex-1 px-2 py-1 rounded-md border text-[9px] font-black uppercase transition-all ${
+              config[kind] ? 'border-zinc-700 bg-zinc-800 text-zinc-200' : 'border-zinc-800 bg-zinc-900 text-zinc-600'
+            }`}
+            style={config[kind] ? { color: DETECTOR_TYPES[kind].color } : undefined}
+          >
+            {DETECTOR_TYPES[kind].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        {NUMBER_FIELDS.map(({ key, label, scale }) => (
+          <label key={key}>
+            <span className={labelClass}>{label}</span>
+            <input
+              type="number" min={0} className={inputClass} value={Math.round((config[key] as number) * scale * 100) / 100}
+              onChange={e => onChange({ ...config, [key]: Math.max(0, Number(e.target.value) || 0) / scale })}
+            />
+          </label>
+        ))}
+      </div>
+
+      <table className="w-full text-[10px] font-mono">
+        <thead>
+          <tr className="text-zinc-600 uppercase">
+            <th className="text-left font-black pb-2">Seen / True · {node}</th>
+            <th className="text-right font-black pb-2">Queue</th>
+            <th className="text-right font-black pb-2">Stopped</th>
+            <th className="text-right font-black pb-2">Left</th>
+            <th className="text-right font-black pb-2">Max Wait</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DIRECTIONS.map(dir => {
+            const seen = readings[dir], actual = truth[dir];
+            return (
+              <tr key={dir} className="text-zinc-400">
+                <td className="py-1">{dir}</td>
+                <td className="py-1 text-right">{seen.queued} / <span className="text-zinc-600">{actual.queued}</span></td>
+                <td className="py-1 text-right">{seen.stopped} / <span className="text-zinc-600">{actual.stopped}</span></td>
+                <td className="py-1 text-right">{seen.lefts} / <span className="text-zinc-600">{actual.lefts}</span></td>
+                <td className="py-1 text-right">{seen.maxWait.toFixed(0)}s / <span className="text-zinc-600">{actual.maxWait.toFixed(0)}s</span></td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default SensorPanel;
@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TelemetryRecorder, RunSummary, EpisodeSummary } from '../services/telemetry';
+import { NETWORK_LAYOUTS } from '../services/network';
+import { describeHyperparameters } from '../services/hyperparameters';
+
+interface TelemetryPanelProps {
+  recorder: TelemetryRecorder | null;
+  recording: boolean;
+  activeRunId: number | null;
+  episodesRecorded: number;   // bumps the episode list while the live run records
+  error: string | null;
+  onToggleRecording: () => void;
+  onReplay: (run: RunSummary, episode: number) => void;
+}
+
+const buttonClass = 'px-2 py-1 rounded-md text-[9px] font-black uppercase text-zinc-500 hover:text-white disabled:opacity-30';
+const selectClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+
+const TelemetryPanel = ({ recorder, recording, activeRunId, episodesRecorded, error, onToggleRecording, onReplay }: TelemetryPanelProps) => {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [runId, setRunId] = useState<number | null>(null);
+  const [episodes, setEpisodes] = useState<EpisodeSummary[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refreshRuns = useCallback(async () => {
+    if (!recorder) return;
+    try {
+      const list = await recorder.listRuns();
+      setRuns(list);
+      setRunId(current => list.some(r => r.id === current) ? current : list[0]?.id ?? null);
+    } catch (err) {
+      setStatus((err as Error).message);
+    }
+  }, [recorder]);
+
+  useEffect(() => { refreshRuns(); }, [refreshRuns, activeRunId]);
+
+  useEffect(() => {
+    if (!recorder || runId === null) {
+      setEpisodes([]);
+      return;
+    }
+    recorder.listEpisodes(runId).then(setEpisodes, err => setStatus((err as Error).message));
+  }, [recorder, runId, episodesRecorded]);
+
+  const selectedRun = runs.find(r => r.id === runId) || null;
+
+  const handleDelete = async () => {
+    if (!recorder || runId === null) return;
+    try {
+      await recorder.deleteRun(runId);
+      setStatus(`Deleted run ${runId}`);
+      await refreshRuns();
+    } catch (err) {
+      setStatus((err as Error).message);
+    }
+  };
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🎞️ Telemetry & Replay</span>
+        <button
+          className={`uppercase ${recording ? 'text-rose-400' : 'text-zinc-600 hover:text-white'}`}
+          onClick={onToggleRecording} disabled={!recorder}
+        >
+          {recording ? '● Recording' : 'Record'}
+        </button>
+      </h3>
+
+      {error && <div className="mb-3 text-[10px] font-mono text-rose-400">{error}</div>}
+
+      <div className="flex gap-2 mb-3">
+        <select className={selectClass} value={runId ?? ''} onChange={e => setRunId(Number(e.target.value))} disabled={runs.length === 0}>
+          {runs.length === 0 && <option value="">No recorded runs</option>}
+          {runs.map(r => (
+            <option key={r.id} value={r.id}>
+              #{r.id} {r.label} · {NETWORK_LAYOUTS[r.layout]?.label || r.layout}{r.id === activeRunId ? ' (live)' : ''}
+            </option>
+          ))}
+        </select>
+        <button className={buttonClass} onClick={refreshRuns} disabled={!recorder}>Refresh</button>
+        <button className={buttonClass} onClick={handleDelete} disabled={runId === null || runId === activeRunId}>Delete</button>
+      </div>
+
+      {selectedRun && (
+        <div className="mb-3 text-[9px] font-mono text-zinc-600">
+          {selectedRun.hyperparameters ? describeHyperparameters(selectedRun.hyperparameters) : 'Settings not recorded for this run'}
+        </div>
+      )}
+
+      {episodes.length > 0 ? (
+        <div className="max-h-40 overflow-y-auto">
+          <table className="w-full text-[10px] font-mono">
+            <thead>
+              <tr className="text-zinc-600 uppercase">
+                <th className="text-left font-black pb-2">Ep</th>
+                <th className="text-right font-black pb-2">Reward</th>
+                <th className="text-right font-black pb-2">Loss</th>
+                <th className="text-right font-black pb-2">ε</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {[...episodes].reverse().map(e => (
+                <tr key={e.episode} className="text-zinc-400">
+                  <td className="py-1">{e.episode + 1}</td>
+                  <td className="py-1 text-right">{e.reward.toFixed(0)}</td>
+                  <td className="py-1 text-right">{e.loss.toFixed(3)}</td>
+                  <td className="py-1 text-right">{e.epsilon.toFixed(2)}</td>
+                  <td className="py-1 text-right">
+                    <button className={buttonClass} onClick={() => selectedRun && onReplay(selectedRun, e.episode)}>Replay</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-[10px] font-mono text-zinc-600">Completed episodes of the selected run appear here.</div>
+      )}
+
+      {status && <div className="mt-3 text-[10px] font-mono text-zinc-500">{status}</div>}
+    </section>
+  );
+};
+
+export default TelemetryPanel;
@@ -0,0 +1,93 @@
+import React, { useState, useMemo } from 'react';
+import { DIRECTIONS } from '../services/simulation';
+import { Movement, MOVEMENTS } from '../services/geometry';
+import {
+  LoggedTrip, TripFilter, LOS_COLORS, filterTrips, summarizeApproaches, delayHistogram, exportTrips
+} from '../services/trips';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface TripPanelProps {
+  trips: LoggedTrip[];
+  total: number;       // completed since the reset, including trips that have dropped out of the log
+  nodes: string[];
+}
+
+const inputClass = 'bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const buttonClass = 'px-2 py-1 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+
+const TripPanel = ({ trips, total, nodes }: TripPanelProps) => {
+  const [filter, setFilter] = useState<TripFilter>({});
+  const shown = useMemo(() => filterTrips(trips, filter), [trips, filter]);
+  const approaches = useMemo(() => summarizeApproaches(shown), [shown]);
+  const histogram = useMemo(() => delayHistogram(shown), [shown]);
+  const dropped = total - trips.length;
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🧭 Trips & Level of Service</span>
+        <span className="text-zinc-700 font-mono">{shown.length} / {total}</span>
+      </h3>
+
+      <div className="flex gap-2 mb-4">
+        {nodes.length > 1 && (
+          <select className={inputClass} value={filter.node ?? ''} onChange={e => setFilter({ ...filter, node: e.target.value || undefined })}>
+            <option value="">All nodes</option>
+            {nodes.map(id => <option key={id} value={id}>Node {id}</option>)}
+          </select>
+        )}
+        <select
+          className={inputClass} value={filter.movement ?? ''}
+          onChange={e => setFilter({ ...filter, movement: (e.target.value || undefined) as Movement | undefined })}
+        >
+          <option value="">All movements</option>
+          {MOVEMENTS.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <button className={`${buttonClass} ml-auto`} disabled={shown.length === 0} onClick={() => exportTrips(shown)}>CSV</button>
+      </div>
+
+      <table className="w-full text-[10px] font-mono mb-4">
+        <thead>
+          <tr className="text-zinc-600 uppercase">
+            <th className="text-left font-black pb-2">Approach</th>
+            <th className="text-right font-black pb-2">Trips</th>
+            <th className="text-right font-black pb-2">Delay</th>
+            <th className="text-right font-black pb-2">Stops</th>
+            <th className="text-right font-black pb-2">Travel</th>
+            <th className="text-right font-black pb-2">LOS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DIRECTIONS.map(dir => {
+            const row = approaches[dir];
+            return (
+              <tr key={dir} className="text-zinc-400">
+                <td className="py-1">{dir}</td>
+                <td className="py-1 text-right">{row.trips}</td>
+                <td className="py-1 text-right">{row.trips ? `${row.meanDelay.toFixed(1)}s` : '—'}</td>
+                <td className="py-1 text-right">{row.trips ? row.meanStops.toFixed(2) : '—'}</td>
+                <td className="py-1 text-right">{row.trips ? `${row.meanTravelTime.toFixed(1)}s` : '—'}</td>
+                <td className="py-1 text-right font-black" style={{ color: row.los ? LOS_COLORS[row.los] : undefined }}>{row.los ?? '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="text-[9px] font-black text-zinc-600 uppercase tracking-widest mb-2">Delay per trip (s)</div>
+      <div className="h-[100px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram}>
+            <Bar dataKey="count" name="Trips" fill="#6366f1" isAnimationActive={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 8, fill: '#52525b' }} interval={0} />
+            <YAxis hide allowDecimals={false} />
+            <Tooltip contentStyle={{ backgroundColor: '#09090b', borderColor: '#27272a', fontSize: '10px' }} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {dropped > 0 && <p className="text-[9px] text-zinc-600 mt-2">{dropped} older trips have dropped out of the log.</p>}
+    </section>
+  );
+};
+
+export default TripPanel;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { WEATHER } from '../constants';
+import { ControllerId } from '../services/controllers';
+import {
+  WeatherScript, WeatherScriptMode, WeatherEffects, WeatherBreakdown, WEATHER_SCRIPT_MODES
+} from '../services/weather';
+
+export const emptyWeatherStats = (): Record<ControllerId, WeatherBreakdown> => ({
+  dqn: {}, fixed: {}, actuated: {}, maxPressure: {},
+});
+
+interface WeatherPanelProps {
+  script: WeatherScript;
+  weather: string;            // condition in force now
+  effects: WeatherEffects;
+  stats: WeatherBreakdown;    // the active controller's performance under each condition
+  controllerLabel: string;
+  onChange: (script: WeatherScript) => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-zinc-300';
+const labelClass = 'text-[9px] font-black text-zinc-600 uppercase tracking-widest';
+const buttonClass = 'px-2 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all';
+const SCHEDULE_STEP = 300;   // s between a new schedule entry and the one before it
+
+const multiplier = (value: number) => `×${value.toFixed(2)}`;
+
+const WeatherPanel = ({ script, weather, effects, stats, controllerLabel, onChange }: WeatherPanelProps) => {
+  const conditions = Object.keys(WEATHER);
+  const update = (changes: Partial<WeatherScript>) => onChange({ ...script, ...changes });
+  const updateChange = (index: number, changes: Partial<WeatherScript['schedule'][number]>) =>
+    update({ schedule: script.schedule.map((change, i) => i === index ? { ...change, ...changes } : change) });
+  const addChange = () => {
+    const last = script.schedule[script.schedule.length - 1];
+    const weather = conditions.find(c => c !== (last?.weather || script.initial)) || script.initial;
+    update({ schedule: [...script.schedule, { at: (last?.at || 0) + SCHEDULE_STEP, weather }] });
+  };
+
+  return (
+    <section className="bg-zinc-950 p-6 rounded-2xl border border-zinc-900 shadow-xl">
+      <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4 flex justify-between">
+        <span>🌦️ Weather</span>
+        <span className="text-zinc-700 font-mono">{weather} · {(effects.visibility * 100).toFixed(0)}% Visibility</span>
+      </h3>
+
+      <div className="grid grid-cols-4 gap-2 mb-4 text-[10px] font-mono text-zinc-600">
+        <span>Speed <span className="text-zinc-300">{multiplier(effects.speed / WEATHER.SUNNY.speed)}</span></span>
+        <span>Braking <span className="text-zinc-300">{multiplier(effects.decel)}</span></span>
+        <span>Headway <span className="text-zinc-300">{multiplier(effects.headway)}</span></span>
+        <span>Detection <span className="text-zinc-300">{multiplier(effects.detection)}</span></span>
+      </div>
+
+      <div className="bg-zinc-900 p-1 rounded-lg flex border border-zinc-800 gap-1 mb-3">
+        {(Object.keys(WEATHER_SCRIPT_MODES) as WeatherScriptMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            className={`flex-1 px-2 py-1 rounded-md text-[10px] font-black uppercase transition-all ${script.mode === mode ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+          >
+            {WEATHER_SCRIPT_MODES[mode]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label>
+          <span className={labelClass}>{script.mode === 'fixed' ? 'Condition' : 'Starts As'}</span>
+          <select className={inputClass} value={script.initial} onChange={e => update({ initial: e.target.value })}>
+            {conditions.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+        {script.mode !== 'fixed' && (
+          <label>
+            <span className={labelClass}>Transition s</span>
+            <input
+              type="number" min={0} className={inputClass} value={script.transition}
+              onChange={e => update({ transition: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </label>
+        )}
+        {script.mode === 'random' && (
+          <>
+            <label>
+              <span className={labelClass}>Mean Spell min</span>
+              <input
+                type="number" min={1} className={inputClass} value={Math.round(script.meanSpell / 60)}
+                onChange={e => update({ meanSpell: Math.max(1, Number(e.target.value) || 1) * 60 })}
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Seed</span>
+              <input
+                type="number" className={inputClass} value={script.seed}
+                onChange={e => update({ seed: Number(e.target.value) >>> 0 })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {script.mode === 'schedule' && (
+        <div className="mb-3">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center mb-2">
+            <span className={labelClass}>At s</span>
+            <span className={labelClass}>Becomes</span>
+            <span />
+            {script.schedule.map((change, i) => (
+              <React.Fragment key={i}>
+                <input
+                  type="number" min={0} className={inputClass} value={change.at}
+                  onChange={e => updateChange(i, { at: Math.max(0, Number(e.target.value) || 0) })}
+                />
+                <select className={inputClass} value={change.weather} onChange={e => updateChange(i, { weather: e.target.value })}>
+                  {conditions.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button className={buttonClass} onClick={() => update({ schedule: script.schedule.filter((_, j) => j !== i) })}>✕</button>
+              </React.Fragment>
+            ))}
+          </div>
+          <button className={`${buttonClass} w-full`} onClick={addChange}>Add Change</button>
+        </div>
+      )}
+
+      <table className="w-full text-[10px] font-mono">
+        <thead>
+          <tr className="text-zinc-600 uppercase">
+            <th className="text-left font-black pb-2">{controllerLabel}</th>
+            <th className="text-right font-black pb-2">Time</th>
+            <th className="text-right font-black pb-2">Veh/min</th>
+            <th className="text-right font-black pb-2">Wait/veh</th>
+            <th className="text-right font-black pb-2">Rwd/dec</th>
+          </tr>
+        </thead>
+        <tbody>
+          {conditions.map(c => {
+            const s = stats[c];
+            return (
+              <tr key={c} className={c === weather ? 'text-zinc-200' : 'text-zinc-500'}>
+                <td className="py-1">{c}</td>
+                <td className="py-1 text-right">{s ? `${(s.time / 60).toFixed(1)}m` : '—'}</td>
+                <td className="py-1 text-right">{s && s.time > 0 ? (s.vehiclesPassed / (s.time / 60)).toFixed(1) : '—'}</td>
+                <td className="py-1 text-right">{s && s.vehiclesPassed > 0 ? `${(s.waitTime / s.vehiclesPassed).toFixed(1)}s` : '—'}</td>
+                <td className="py-1 text-right">{s && s.decisions > 0 ? (s.reward / s.decisions).toFixed(2) : '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default WeatherPanel;
@@ -0,0 +1,103 @@
+import { DQNAgent } from './dqnAgent';
+import { readAgentWeights, restoreModel } from './modelStore';
+import { AgentEnvelope, AgentRequest, AgentResponse, AgentStatus } from './agentClient';
+import { Hyperparameters } from './hyperparameters';
+
+// The page's DQN lives here: every forward pass and every replay batch runs off the main thread
+const scope = self as unknown as Worker;
+let agent: DQNAgent | null = null;
+let replaying: Promise<void> | null = null;
+let replayAgain = false;
+
+const status = (): AgentStatus => ({ epsilon: agent?.epsilon ?? 0, loss: agent?.getAverageLoss() ?? 0 });
+
+// The agent's own names for the settings it is built with
+const agentOptions = (config: Hyperparameters) => ({
+  gamma: config.gamma,
+  epsilon: config.initialEpsilon,
+  epsilonDecay: config.epsilonDecay,
+  epsilonMin: config.epsilonMin,
+  learningRate: config.learningRate,
+  memorySize: config.bufferSize,
+  batchSize: config.batchSize,
+  targetUpdateFrequency: config.targetSyncInterval,
+});
+
+// Settings the running agent reads afresh on every replay batch
+const applyLive = (agent: DQNAgent, params: Partial<Hyperparameters>) => {
+  if (params.gamma !== undefined) agent.gamma = params.gamma;
+  if (params.epsilonDecay !== undefined) agent.epsilonDecay = params.epsilonDecay;
+  if (params.epsilonMin !== undefined) agent.epsilonMin = params.epsilonMin;
+  if (params.batchSize !== undefined) agent.batchSize = params.batchSize;
+  if (params.targetSyncInterval !== undefined) agent.targetUpdateFrequency = params.targetSyncInterval;
+};
+
+const greedy = (qValues: number[], allowed?: boolean[]) => {
+  const candidates = qValues.map((q, i) => (!allowed || allowed[i] ? q : -Infinity));
+  return candidates.indexOf(Math.max(...candidates));
+};
+
+const trainBatches = async (agent: DQNAgent) => {
+  do {
+    replayAgain = false;
+    await agent.replay();
+  } while (replayAgain && !agent.isDisposed);
+};
+
+// Batches train one at a time; requests that arrive during one fold into a single follow-up batch,
+// and each of them is answered once the run that trains it has finished
+const replay = (agent: DQNAgent): Promise<void> => {
+  if (replaying) {
+    replayAgain = true;
+    return replaying;
+  }
+  replaying = trainBatches(agent).finally(() => { replaying = null; });
+  return replaying;
+};
+
+const handle = async (request: AgentRequest, agent: DQNAgent): Promise<unknown> => {
+  switch (request.type) {
+    // Exploration that lands on a masked action falls back to the best allowed one
+    case 'act': {
+      if (request.explore) {
+        const action = agent.act(request.state);
+        if (!request.allowed || request.allowed[action]) return action;
+      }
+      return greedy(agent.getQValues(request.state), request.allowed);
+    }
+    case 'qValues':
+      return request.states.map(state => agent.getQValues(state));
+    case 'remember': {
+      const { state, action, reward, nextState, done } = request.transition;
+      agent.remember(state, action, reward, nextState, done);
+      return undefined;
+    }
+    case 'replay':
+      return replay(agent);
+    case 'getWeights':
+      return readAgentWeights(agent);
+    case 'setWeights':
+      restoreModel(agent, request.weights);
+      return undefined;
+    case 'setHyperparameters':
+      applyLive(agent, request.params);
+      return undefined;
+    case 'init':
+      return undefined;
+  }
+};
+
+scope.onmessage = async ({ data: { id, request } }: MessageEvent<AgentEnvelope>) => {
+  let response: AgentResponse;
+  try {
+    if (request.type === 'init') {
+      agent?.dispose();
+      agent = new DQNAgent({ stateSize: request.stateSize, actionSize: request.actionSize, ...agentOptions(request.config) });
+    }
+    if (!agent) throw new Error('Agent is not ready yet');
+    response = { id, result: await handle(request, agent), status: status() };
+  } catch (err) {
+    response = { id, error: (err as Error).message, status: status() };
+  }
+  scope.postMessage(response);
+};
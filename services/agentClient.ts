@@ -0,0 +1,148 @@
+import { AgentWeights, isAgentWeights } from './modelStore';
+import { Hyperparameters } from './hyperparameters';
+
+// How long a green decision waits on the worker before the fixed-time plan stands in
+export const DECISION_DEADLINE_MS = 100;
+
+// --- Message Protocol ---
+export interface Transition {
+  state: number[];
+  action: number;
+  reward: number;
+  nextState: number[];
+  done: boolean;
+}
+
+export type AgentRequest =
+  | { type: 'init'; stateSize: number; actionSize: number; config: Hyperparameters }
+  | { type: 'act'; state: number[]; allowed?: boolean[]; explore: boolean }
+  | { type: 'qValues'; states: number[][] }
+  | { type: 'remember'; transition: Transition }
+  | { type: 'replay' }
+  | { type: 'getWeights' }
+  | { type: 'setWeights'; weights: AgentWeights }
+  | { type: 'setHyperparameters'; params: Partial<Hyperparameters> };
+
+// Training state the worker reports with every reply
+export interface AgentStatus {
+  epsilon: number;
+  loss: number;
+}
+
+export interface AgentEnvelope {
+  id: number;
+  request: AgentRequest;
+}
+
+export interface AgentResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+  status: AgentStatus;
+}
+
+// Replies cross the thread boundary untyped; each call checks its own before handing it on
+const expectReply = <T>(isValid: (value: unknown) => value is T, what: string) => (value: unknown): T => {
+  if (!isValid(value)) throw new Error(`Agent worker sent malformed ${what}`);
+  return value;
+};
+
+const isAction = (value: unknown): value is number => typeof value === 'number';
+
+const isQValueBatch = (value: unknown): value is number[][] =>
+  Array.isArray(value) && value.every(row => Array.isArray(row) && row.every(q => typeof q === 'number'));
+
+/**
+ * Main-thread handle on the DQN running in the agent worker. Every call is a
+ * message and resolves when the worker replies, so nothing here blocks the
+ * animation loop. Epsilon and the loss are mirrored from the latest reply for
+ * the dashboard. If the worker dies, every pending and later call rejects.
+ */
+export class AgentClient {
+  public epsilon: number;
+  public loss = 0;
+  public isDisposed = false;
+  public error: string | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: unknown) => void; reject: (err: Error) => void }>();
+
+  constructor(
+    private worker: Worker, { stateSize, actionSize, config }: { stateSize: number; actionSize: number; config: Hyperparameters }
+  ) {
+    this.epsilon = config.initialEpsilon;
+    worker.onmessage = ({ data }: MessageEvent<AgentResponse>) => this.receive(data);
+    worker.onerror = event => this.fail(event.message || 'Agent worker crashed');
+    this.call({ type: 'init', stateSize, actionSize, config }).catch(() => {});
+  }
+
+  private receive({ id, result, error, status }: AgentResponse) {
+    this.epsilon = status.epsilon;
+    this.loss = status.loss;
+    const call = this.pending.get(id);
+    if (!call) return;
+    this.pending.delete(id);
+    if (error !== undefined) call.reject(new Error(error));
+    else call.resolve(result);
+  }
+
+  private fail(message: string) {
+    this.error = message;
+    this.pending.forEach(call => call.reject(new Error(message)));
+    this.pending.clear();
+  }
+
+  private call(request: AgentRequest): Promise<unknown> {
+    if (this.isDisposed) return Promise.reject(new Error('Agent has been disposed'));
+    if (this.error) return Promise.reject(new Error(this.error));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, request } as AgentEnvelope);
+    });
+  }
+
+  // With `explore` off the policy is evaluated greedily and epsilon is left untouched
+  act(state: number[], allowed: boolean[] | undefined, explore: boolean) {
+    return this.call({ type: 'act', state, allowed, explore }).then(expectReply(isAction, 'an action'));
+  }
+
+  // One forward pass per state, batched into a single message
+  qValues(states: number[][]) {
+    return this.call({ type: 'qValues', states }).then(expectReply(isQValueBatch, 'Q-values'));
+  }
+
+  remember(transition: Transition) {
+    return this.call({ type: 'remember', transition }).then(() => {});
+  }
+
+  // Resolves once the batch has trained; callers that don't need the new weights need not wait
+  replay() {
+    return this.call({ type: 'replay' }).then(() => {});
+  }
+
+  getWeights() {
+    return this.call({ type: 'getWeights' }).then(expectReply(isAgentWeights, 'weights'));
+  }
+
+  setWeights(weights: AgentWeights) {
+    return this.call({ type: 'setWeights', weights }).then(() => {});
+  }
+
+  // Only the live settings take effect; the rest need a new agent
+  setHyperparameters(params: Partial<Hyperparameters>) {
+    return this.call({ type: 'setHyperparameters', params }).then(() => {});
+  }
+
+  dispose() {
+    this.fail('Agent has been disposed');
+    this.isDisposed = true;
+    this.worker.terminate();
+  }
+}
+
+// Resolves to null when `promise` fails or misses the deadline, so a late worker never holds up the caller
+export const withDeadline = <T>(promise: Promise<T>, ms: number): Promise<T | null> =>
+  Promise.race([
+    promise.catch(() => null),
+    new Promise<null>(resolve => setTimeout(() => resolve(null), ms)),
+  ]);
@@ -0,0 +1,269 @@
+import { Direction } from '../types';
+import { TrafficSimulation, FIXED_DT, DIRECTIONS } from './simulation';
+import { ControllerId, SignalController } from './controllers';
+import { SafetyShield, ShieldConfig, DEFAULT_SHIELD_CONFIG, allowedActions } from './safetyShield';
+import { buildObservation } from './observation';
+import { RewardConfig, DEFAULT_REWARD_CONFIG, computeReward, createRewardTracker } from './reward';
+import { DemandProfile } from './demand';
+import { downloadTextFile } from './fileIO';
+import { summarizeEmissions } from './emissions';
+import { WeatherScript, WeatherBreakdown, weatherBucket, mergeWeatherBreakdowns, describeWeatherScript } from './weather';
+import { SensorConfig, DEFAULT_SENSOR_CONFIG } from './sensors';
+import { LaneConfig, DEFAULT_LANE_CONFIG } from './lanes';
+
+export interface BenchmarkScenario {
+  seed: number;
+  weather: WeatherScript;
+  demand: DemandProfile;
+  episodes: number;
+  duration: number;   // s simulated per episode, the same for every controller whatever its green times
+  reward: RewardConfig;
+  shield: ShieldConfig;
+  sensors: SensorConfig;
+  lanes: LaneConfig;
+}
+
+export interface EpisodeResult {
+  episode: number;
+  seed: number;
+  vehiclesPassed: number;
+  emissions: number;
+  nox: number;
+  fuel: number;       // mL
+  distance: number;   // vehicle-km
+  reward: number;
+  waits: number[];
+  maxQueue: Record<Direction, number>;
+  shieldOverrides: number;
+  conflicts: number;
+  redLightViolations: number;
+  byWeather: WeatherBreakdown;
+}
+
+export interface BenchmarkRow {
+  controller: ControllerId;
+  label: string;
+  throughput: number;
+  meanWait: number;
+  p95Wait: number;
+  maxQueue: Record<Direction, number>;
+  totalEmissions: number;
+  co2PerKm: number;
+  totalNox: number;
+  totalFuel: number;   // L
+  cumulativeReward: number;
+  shieldOverrides: number;
+  conflicts: number;
+  redLightViolations: number;
+  byWeather: WeatherBreakdown;
+  episodes: Omit<EpisodeResult, 'waits'>[];
+}
+
+export interface BenchmarkReport {
+  generatedAt: string;
+  scenario: BenchmarkScenario;
+  rows: BenchmarkRow[];
+}
+
+// One benchmark per detector failure rate, everything else held equal
+export interface SensorSweepPoint {
+  failureRate: number;
+  rows: BenchmarkRow[];
+}
+
+export interface BenchmarkProgress {
+  controller: ControllerId;
+  episode: number;
+  completed: number;
+  total: number;
+}
+
+export const EPISODE_DURATION = 900;   // s simulated per benchmark episode by default
+
+// Steps between yields to the event loop so the UI keeps painting during a run
+const STEPS_PER_YIELD = 2000;
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+};
+
+// Each episode gets its own seed, shared across controllers so they all face the same arrivals
+const episodeSeed = (scenario: BenchmarkScenario, episode: number) => (scenario.seed + episode * 7919) >>> 0;
+
+export const runEpisode = async (
+  controller: SignalController, scenario: BenchmarkScenario, episode: number, isCancelled?: () => boolean
+): Promise<EpisodeResult> => {
+  const seed = episodeSeed(scenario, episode);
+  const sim = new TrafficSimulation({
+    seed, weather: scenario.weather, demand: scenario.demand, sensors: scenario.sensors, lanes: scenario.lanes,
+  });
+  const rewardTracker = createRewardTracker();
+  const shield = new SafetyShield(scenario.shield);
+  const maxQueue = { N: 0, S: 0, E: 0, W: 0 };
+  const tracked = new Map<string, { wait: number; passed: boolean }>();
+  const waits: number[] = [];
+  const byWeather: WeatherBreakdown = {};
+  let reward = 0, stepEmissions = 0, steps = 0;
+
+  while (sim.time < scenario.duration) {
+    if (sim.awaitingDecision) {
+      const decisionReward = computeReward(sim, rewardTracker, stepEmissions, scenario.reward);
+      reward += decisionReward;
+      weatherBucket(byWeather, sim.weather).reward += decisionReward;
+      weatherBucket(byWeather, sim.weather).decisions++;
+      stepEmissions = 0;
+      const action = await controller.selectAction({ sim, state: buildObservation(sim), allowed: allowedActions(sim, scenario.shield) });
+      sim.applySignal(shield.apply(sim, action).signal);
+      continue;
+    }
+
+    const result = sim.step(FIXED_DT);
+    stepEmissions += result.emissions;
+    const conditions = weatherBucket(byWeather, sim.weather);
+    conditions.time += FIXED_DT;
+    conditions.vehiclesPassed += result.exited;
+    conditions.waitTime += result.waitTime;
+
+    // Vehicle.waiting resets whenever a car moves, so total each vehicle's stopped time here,
+    // starting from however long it was held back at the entry
+    const present = new Set<string>();
+    const queued = { N: 0, S: 0, E: 0, W: 0 };
+    sim.vehicles.forEach(v => {
+      present.add(v.id);
+      const entry = tracked.get(v.id) || { wait: sim.time - v.trip.spawnedAt, passed: false };
+      if ((v.waiting || 0) > 0) entry.wait += FIXED_DT;
+      entry.passed = v.passed;
+      tracked.set(v.id, entry);
+      if (v.isStopping && !v.passed) queued[v.dir]++;
+    });
+    tracked.forEach((entry, id) => {
+      if (present.has(id)) return;
+      if (entry.passed) waits.push(entry.wait);
+      tracked.delete(id);
+    });
+    DIRECTIONS.forEach(dir => { maxQueue[dir] = Math.max(maxQueue[dir], queued[dir]); });
+
+    if (++steps % STEPS_PER_YIELD === 0) {
+      await yieldToBrowser();
+      if (isCancelled?.()) throw new Error('Episode cancelled');
+    }
+  }
+
+  // Vehicles still on the tile or held back at the entry count with their wait so far, so a starved approach shows
+  tracked.forEach(entry => waits.push(entry.wait));
+  waits.push(...sim.getEntryWaits());
+
+  const incidents = sim.conflicts.getSummary();
+  const { total } = summarizeEmissions([sim.emissionLedger]);
+  return {
+    episode, seed, vehiclesPassed: sim.vehiclesPassed, emissions: sim.totalEmissions,
+    nox: total.nox, fuel: total.fuel, distance: total.distance, reward, waits, maxQueue,
+    shieldOverrides: shield.overrideCount, conflicts: incidents.conflicts, redLightViolations: incidents.counts.redLight,
+    byWeather,
+  };
+};
+
+export const runBenchmark = async (
+  controllers: SignalController[], scenario: BenchmarkScenario,
+  onProgress?: (progress: BenchmarkProgress) => void, isCancelled?: () => boolean
+): Promise<BenchmarkReport> => {
+  const rows: BenchmarkRow[] = [];
+  const total = controllers.length * scenario.episodes;
+  let completed = 0;
+
+  for (const controller of controllers) {
+    const results: EpisodeResult[] = [];
+    for (let episode = 0; episode < scenario.episodes; episode++) {
+      if (isCancelled?.()) throw new Error('Benchmark cancelled');
+      onProgress?.({ controller: controller.id, episode, completed, total });
+      results.push(await runEpisode(controller, scenario, episode, isCancelled));
+      completed++;
+    }
+
+    const waits = results.flatMap(r => r.waits);
+    const sumOf = (pick: (r: EpisodeResult) => number) => results.reduce((acc, r) => acc + pick(r), 0);
+    rows.push({
+      controller: controller.id,
+      label: controller.label,
+      throughput: results.reduce((sum, r) => sum + r.vehiclesPassed, 0),
+      meanWait: waits.length ? waits.reduce((a, b) => a + b, 0) / waits.length : 0,
+      p95Wait: percentile(waits, 0.95),
+      maxQueue: DIRECTIONS.reduce((acc, dir) => ({ ...acc, [dir]: Math.max(...results.map(r => r.maxQueue[dir])) }),
+        { N: 0, S: 0, E: 0, W: 0 }),
+      totalEmissions: sumOf(r => r.emissions),
+      co2PerKm: sumOf(r => r.distance) > 0 ? sumOf(r => r.emissions) / sumOf(r => r.distance) : 0,
+      totalNox: sumOf(r => r.nox),
+      totalFuel: sumOf(r => r.fuel) / 1000,
+      cumulativeReward: results.reduce((sum, r) => sum + r.reward, 0),
+      shieldOverrides: results.reduce((sum, r) => sum + r.shieldOverrides, 0),
+      conflicts: results.reduce((sum, r) => sum + r.conflicts, 0),
+      redLightViolations: results.reduce((sum, r) => sum + r.redLightViolations, 0),
+      byWeather: mergeWeatherBreakdowns(results.map(r => r.byWeather)),
+      episodes: results.map(({ waits: _waits, ...rest }) => rest),
+    });
+  }
+
+  return { generatedAt: new Date().toISOString(), scenario, rows };
+};
+
+/**
+ * How far each controller degrades as detectors die. Failures are drawn from
+ * the sensor seed, so a higher rate kills a superset of the detectors a lower
+ * one does and the traffic itself is identical throughout.
+ */
+export const runSensorSweep = async (
+  controllers: SignalController[], scenario: BenchmarkScenario, failureRates: number[],
+  onProgress?: (progress: BenchmarkProgress) => void, isCancelled?: () => boolean
+): Promise<SensorSweepPoint[]> => {
+  const points: SensorSweepPoint[] = [];
+  const perRate = controllers.length * scenario.episodes;
+  for (const failureRate of failureRates) {
+    const done = points.length * perRate;
+    const report = await runBenchmark(
+      controllers, { ...scenario, sensors: { ...scenario.sensors, failureRate } },
+      progress => onProgress?.({ ...progress, completed: done + progress.completed, total: perRate * failureRates.length }),
+      isCancelled
+    );
+    points.push({ failureRate, rows: report.rows });
+  }
+  return points;
+};
+
+export const defaultScenario = (
+  seed: number, weather: WeatherScript, demand: DemandProfile, reward: RewardConfig = DEFAULT_REWARD_CONFIG,
+  shield: ShieldConfig = DEFAULT_SHIELD_CONFIG, sensors: SensorConfig = DEFAULT_SENSOR_CONFIG, lanes: LaneConfig = DEFAULT_LANE_CONFIG
+): BenchmarkScenario => ({
+  seed, weather, demand, episodes: 3, duration: EPISODE_DURATION, reward, shield, sensors, lanes,
+});
+
+// --- Export ---
+const csvText = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+export const reportToCsv = (report: BenchmarkReport): string => {
+  const header = [
+    'controller', 'episodes', 'episode_duration_s', 'seed', 'weather', 'demand', 'detector_failure_rate', 'throughput', 'mean_wait_s', 'p95_wait_s',
+    ...DIRECTIONS.map(dir => `max_queue_${dir}`), 'total_co2_g', 'co2_g_per_km', 'total_nox_g', 'total_fuel_l',
+    'cumulative_reward', 'shield_overrides',
+    'conflicts', 'red_light_violations',
+  ];
+  const lines = report.rows.map(row => [
+    csvText(row.label), report.scenario.episodes, report.scenario.duration, report.scenario.seed,
+    csvText(describeWeatherScript(report.scenario.weather)), csvText(report.scenario.demand.name), report.scenario.sensors.failureRate,
+    row.throughput,
+    row.meanWait.toFixed(2), row.p95Wait.toFixed(2), ...DIRECTIONS.map(dir => row.maxQueue[dir]),
+    row.totalEmissions.toFixed(1), row.co2PerKm.toFixed(1), row.totalNox.toFixed(2), row.totalFuel.toFixed(2),
+    row.cumulativeReward.toFixed(1), row.shieldOverrides,
+    row.conflicts, row.redLightViolations,
+  ].join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const exportReport = (report: BenchmarkReport, format: 'csv' | 'json') => {
+  const stamp = report.generatedAt.replace(/[:.]/g, '-');
+  if (format === 'csv') downloadTextFile(`benchmark-${stamp}.csv`, reportToCsv(report), 'text/csv');
+  else downloadTextFile(`benchmark-${stamp}.json`, JSON.stringify(report, null, 2));
+};
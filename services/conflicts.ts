@@ -0,0 +1,240 @@
+import { Direction, Phase } from '../types';
+import { Vec, Movement, STOP_LINE_OFFSET, movementsConflict } from './geometry';
+import { movementSignal } from './signalPlan';
+import { TrafficSimulation, SimVehicle } from './simulation';
+import { VEHICLE_CLASSES } from './vehicles';
+
+export type IncidentKind = 'collision' | 'ttc' | 'pet' | 'redLight';
+
+export const INCIDENT_KINDS: IncidentKind[] = ['collision', 'ttc', 'pet', 'redLight'];
+
+export const INCIDENT_TYPES: Record<IncidentKind, { label: string; color: string; description: string }> = {
+  collision: { label: 'Collision',     color: '#ef4444', description: 'Two vehicle bodies overlapped inside the junction' },
+  ttc:       { label: 'Low TTC',       color: '#f97316', description: 'Conflicting vehicles on course to touch within the TTC threshold' },
+  pet:       { label: 'Low PET',       color: '#f59e0b', description: 'A conflicting vehicle reached a spot shortly after another left it' },
+  redLight:  { label: 'Red Light',     color: '#e879f9', description: 'A vehicle crossed its stop line while its movement was held' },
+};
+
+export interface Incident {
+  id: number;
+  kind: IncidentKind;
+  time: number;
+  vehicles: string[];
+  movements: string;      // e.g. "N left × S through"
+  value: number | null;   // TTC or PET in s for near misses
+  x: number;
+  y: number;
+}
+
+export interface IncidentSummary {
+  counts: Record<IncidentKind, number>;
+  conflicts: number;      // collisions and near misses together
+  minTTC: number | null;
+  minPET: number | null;
+}
+
+export const TTC_THRESHOLD = 1.5;   // s
+export const PET_THRESHOLD = 1.0;   // s
+const WATCH_MARGIN = 40;            // px beyond the stop lines where approaching vehicles are already watched for TTC
+const CELL_SIZE = 20;               // px grid over the box used to measure PET
+const MAX_LOGGED_INCIDENTS = 200;
+
+const emptyCounts = (): Record<IncidentKind, number> => ({ collision: 0, ttc: 0, pet: 0, redLight: 0 });
+
+const bodyWidth = (v: SimVehicle) => VEHICLE_CLASSES[v.vehicleClass].width;
+
+const pairKey = (a: SimVehicle, b: SimVehicle) => a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+
+const describe = (v: SimVehicle) => `${v.origin} ${v.movement}`;
+
+// Corners of the vehicle's body; positions are the centre of the rectangle
+const corners = (v: SimVehicle): Vec[] => {
+  const rad = (v.angle * Math.PI) / 180;
+  const f = { x: Math.cos(rad) * v.length / 2, y: Math.sin(rad) * v.length / 2 };
+  const r = { x: -Math.sin(rad) * bodyWidth(v) / 2, y: Math.cos(rad) * bodyWidth(v) / 2 };
+  return [
+    { x: v.x + f.x + r.x, y: v.y + f.y + r.y }, { x: v.x + f.x - r.x, y: v.y + f.y - r.y },
+    { x: v.x - f.x - r.x, y: v.y - f.y - r.y }, { x: v.x - f.x + r.x, y: v.y - f.y + r.y },
+  ];
+};
+
+// Separating axis test for two oriented rectangles
+const bodiesOverlap = (a: SimVehicle, b: SimVehicle): boolean => {
+  const ca = corners(a), cb = corners(b);
+  const edge = (c: Vec[], i: number) => ({ x: c[i + 1].x - c[i].x, y: c[i + 1].y - c[i].y });
+  return [edge(ca, 0), edge(ca, 1), edge(cb, 0), edge(cb, 1)].every(axis => {
+    const project = (points: Vec[]) => points.map(p => p.x * axis.x + p.y * axis.y);
+    const pa = project(ca), pb = project(cb);
+    return Math.max(...pa) >= Math.min(...pb) && Math.max(...pb) >= Math.min(...pa);
+  });
+};
+
+/**
+ * Seconds until two vehicles touch if both hold their current velocity, with
+ * each body approximated by a circle between its half length and half width.
+ * Null when they are not closing or would pass clear.
+ */
+export const timeToCollision = (a: Vec, va: Vec, ra: number, b: Vec, vb: Vec, rb: number): number | null => {
+  const p = { x: b.x - a.x, y: b.y - a.y };
+  const w = { x: vb.x - va.x, y: vb.y - va.y };
+  const radius = ra + rb;
+  const qa = w.x * w.x + w.y * w.y;
+  const qb = 2 * (p.x * w.x + p.y * w.y);
+  const qc = p.x * p.x + p.y * p.y - radius * radius;
+  if (qa === 0 || qb >= 0 || qc <= 0) return null;
+  const disc = qb * qb - 4 * qa * qc;
+  if (disc < 0) return null;
+  return (-qb - Math.sqrt(disc)) / (2 * qa);
+};
+
+const contactRadius = (v: SimVehicle) => (v.length / 2 + bodyWidth(v) / 2) / 2;
+
+interface CellExit {
+  id: string;
+  origin: Direction;
+  movement: Movement;
+  time: number;
+}
+
+/**
+ * Watches one junction for traffic conflicts: body overlaps inside the box,
+ * time-to-collision and post-encroachment time below their thresholds between
+ * vehicles on conflicting movements, and stop-line crossings on red. PET is
+ * measured on vehicle centres over a coarse grid of the box. Each pair of
+ * vehicles is logged at most once per kind, with the worst value seen.
+ */
+export class ConflictMonitor {
+  public incidents: Incident[] = [];
+  public counts = emptyCounts();
+  private nextId = 1;
+  private logged = new Map<string, Incident>();
+  private cells = new Map<string, number>();          // vehicle id -> grid cell it occupies
+  private cellExits = new Map<number, CellExit>();    // grid cell -> last vehicle to leave it
+  private minTTC: number | null = null;
+  private minPET: number | null = null;
+
+  constructor(private center: Vec) {}
+
+  reset() {
+    this.incidents = [];
+    this.counts = emptyCounts();
+    this.nextId = 1;
+    this.logged.clear();
+    this.cells.clear();
+    this.cellExits.clear();
+    this.minTTC = null;
+    this.minPET = null;
+  }
+
+  getSummary(): IncidentSummary {
+    return {
+      counts: { ...this.counts },
+      conflicts: this.counts.collision + this.counts.ttc + this.counts.pet,
+      minTTC: this.minTTC,
+      minPET: this.minPET,
+    };
+  }
+
+  // Call once per step after vehicles have moved, with their positions before the move
+  observe(sim: TrafficSimulation, previous: SimVehicle[], dt: number) {
+    const before = new Map(previous.map(v => [v.id, v]));
+    const present = new Set(sim.vehicles.map(v => v.id));
+    // Pairs are forgotten once a vehicle leaves, so the log only holds vehicles still on the tile
+    this.logged.forEach((incident, key) => {
+      if (incident.vehicles.some(id => !present.has(id))) this.logged.delete(key);
+    });
+
+    sim.vehicles.forEach(v => {
+      const prev = before.get(v.id);
+      if (prev) this.checkStopLine(sim, prev, v);
+    });
+    this.checkPairs(sim, before, dt);
+    this.trackCells(sim);
+  }
+
+  private within(v: Vec, margin: number) {
+    return Math.abs(v.x - this.center.x) <= STOP_LINE_OFFSET + margin && Math.abs(v.y - this.center.y) <= STOP_LINE_OFFSET + margin;
+  }
+
+  private log(key: string, incident: Omit<Incident, 'id'>) {
+    const existing = this.logged.get(key);
+    if (existing) {
+      if (existing.value !== null && incident.value !== null && incident.value < existing.value) existing.value = incident.value;
+      return;
+    }
+    const entry = { ...incident, id: this.nextId++ };
+    this.logged.set(key, entry);
+    this.counts[incident.kind]++;
+    this.incidents = [...this.incidents.slice(-(MAX_LOGGED_INCIDENTS - 1)), entry];
+  }
+
+  // Entering on yellow is legal for movements the ending green served; anything else held is a violation
+  private checkStopLine(sim: TrafficSimulation, prev: SimVehicle, v: SimVehicle) {
+    if (prev.turned || prev.turnDistance !== undefined) return;
+    if (!(sim.distanceToStopLine(prev) > 0 && sim.distanceToStopLine(v) <= 0)) return;
+    if (sim.signalFor(v.origin, v.movement) !== 'stop') return;
+    const clearing = sim.phase === Phase.YELLOW && !sim.activePreemption?.greenAt &&
+                     movementSignal(sim.stage, Phase.GREEN, v.origin, v.movement) !== 'stop';
+    if (clearing) return;
+    this.log(`redLight:${v.id}`, {
+      kind: 'redLight', time: sim.time, vehicles: [v.id], movements: describe(v), value: null, x: v.x, y: v.y,
+    });
+  }
+
+  private checkPairs(sim: TrafficSimulation, before: Map<string, SimVehicle>, dt: number) {
+    const watched = sim.vehicles.filter(v => this.within(v, WATCH_MARGIN));
+    const velocity = (v: SimVehicle): Vec => {
+      const prev = before.get(v.id);
+      return prev && dt > 0 ? { x: (v.x - prev.x) / dt, y: (v.y - prev.y) / dt } : { x: 0, y: 0 };
+    };
+
+    watched.forEach((a, i) => watched.slice(i + 1).forEach(b => {
+      const key = pairKey(a, b);
+      const movements = `${describe(a)} × ${describe(b)}`;
+      const at = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      if (this.within(a, 0) && this.within(b, 0) && bodiesOverlap(a, b)) {
+        this.log(`collision:${key}`, { kind: 'collision', time: sim.time, vehicles: [a.id, b.id], movements, value: null, ...at });
+        return;
+      }
+      if (!movementsConflict(a.origin, a.movement, b.origin, b.movement, sim.laneCounts)) return;
+      if (!this.within(a, 0) && !this.within(b, 0)) return;
+      const ttc = timeToCollision(a, velocity(a), contactRadius(a), b, velocity(b), contactRadius(b));
+      if (ttc === null || ttc > TTC_THRESHOLD) return;
+      this.minTTC = this.minTTC === null ? ttc : Math.min(this.minTTC, ttc);
+      this.log(`ttc:${key}`, { kind: 'ttc', time: sim.time, vehicles: [a.id, b.id], movements, value: ttc, ...at });
+    }));
+  }
+
+  private cellOf(v: Vec): number | null {
+    if (!this.within(v, 0)) return null;
+    const cols = Math.ceil((2 * STOP_LINE_OFFSET) / CELL_SIZE);
+    const col = Math.min(cols - 1, Math.floor((v.x - this.center.x + STOP_LINE_OFFSET) / CELL_SIZE));
+    const row = Math.min(cols - 1, Math.floor((v.y - this.center.y + STOP_LINE_OFFSET) / CELL_SIZE));
+    return row * cols + col;
+  }
+
+  private trackCells(sim: TrafficSimulation) {
+    const byId = new Map(sim.vehicles.map(v => [v.id, v]));
+    this.cells.forEach((cell, id) => {
+      const v = byId.get(id);
+      if (v && this.cellOf(v) === cell) return;
+      this.cells.delete(id);
+      if (v) this.cellExits.set(cell, { id, origin: v.origin, movement: v.movement, time: sim.time });
+    });
+
+    sim.vehicles.forEach(v => {
+      const cell = this.cellOf(v);
+      if (cell === null || this.cells.get(v.id) === cell) return;
+      this.cells.set(v.id, cell);
+      const exit = this.cellExits.get(cell);
+      if (!exit || exit.id === v.id || !movementsConflict(exit.origin, exit.movement, v.origin, v.movement, sim.laneCounts)) return;
+      const pet = sim.time - exit.time;
+      if (pet > PET_THRESHOLD) return;
+      this.minPET = this.minPET === null ? pet : Math.min(this.minPET, pet);
+      this.log(`pet:${[exit.id, v.id].sort().join('|')}`, {
+        kind: 'pet', time: sim.time, vehicles: [exit.id, v.id],
+        movements: `${exit.origin} ${exit.movement} × ${describe(v)}`, value: pet, x: v.x, y: v.y,
+      });
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import { Direction, Phase } from '../types';
+import { MIN_GREEN_TIME, MAX_GREEN_TIME } from '../constants';
+import { AgentClient } from './agentClient';
+import { TrafficSimulation, DIRECTIONS } from './simulation';
+import { Movement, MOVEMENTS } from './geometry';
+import {
+  SignalStage, ACTION_SWITCH, ACTION_EXTEND_SHORT, ACTION_EXTEND_LONG, ACTION_SWITCH_SKIP_LEFT,
+  isLeftStage, stageAfter, movementSignal
+} from './signalPlan';
+
+// Decisions per training episode
+export const DECISIONS_PER_EPISODE = 100;
+
+export type ControllerId = 'dqn' | 'fixed' | 'actuated' | 'maxPressure';
+
+export interface ControllerContext {
+  sim: TrafficSimulation;
+  state: number[];
+  allowed?: boolean[];   // safety-shield mask; controllers that ignore it get overridden
+}
+
+/**
+ * Picks the next action at the end of each green interval (yellow always
+ * advances on its own). Only learning controllers feed transitions back into
+ * the replay buffer. A learned policy answers from the agent worker, so its
+ * action may arrive as a promise.
+ */
+export interface SignalController {
+  readonly id: ControllerId;
+  readonly label: string;
+  readonly learns: boolean;
+  selectAction(ctx: ControllerContext): number | Promise<number>;
+}
+
+type MovementCounts = Record<Direction, Record<Movement, number>>;
+
+// Movements the stage gives a green to, permitted lefts included
+const servedMovements = (stage: SignalStage, dir: Direction) =>
+  MOVEMENTS.filter(m => movementSignal(stage, Phase.GREEN, dir, m) !== 'stop');
+
+const stageDemand = (counts: MovementCounts, stage: SignalStage) =>
+  DIRECTIONS.reduce((total, dir) => total + servedMovements(stage, dir).reduce((sum, m) => sum + counts[dir][m], 0), 0);
+
+const totalDemand = (counts: MovementCounts) =>
+  DIRECTIONS.reduce((total, dir) => total + MOVEMENTS.reduce((sum, m) => sum + counts[dir][m], 0), 0);
+
+// Leaves the green, skipping the upcoming protected left when too few vehicles are waiting for it
+const switchAction = (sim: TrafficSimulation, minLeftDemand = 1) => {
+  const next = stageAfter(sim.stage);
+  if (!isLeftStage(next)) return ACTION_SWITCH;
+  return stageDemand(sim.getMovementQueues(), next) >= minLeftDemand ? ACTION_SWITCH : ACTION_SWITCH_SKIP_LEFT;
+};
+
+// --- Learned Policy ---
+export class DQNController implements SignalController {
+  readonly id = 'dqn';
+  readonly label = 'DQN';
+  readonly learns = true;
+
+  // With `explore` off the policy is evaluated greedily and epsilon is left untouched
+  constructor(private getAgent: () => AgentClient | null, private explore = true) {}
+
+  selectAction({ state, allowed }: ControllerContext): number | Promise<number> {
+    const agent = this.getAgent();
+    if (!agent) return ACTION_EXTEND_SHORT;
+    return agent.act(state, allowed, this.explore);
+  }
+}
+
+// --- Fixed-Cycle Plan ---
+export const FIXED_GREEN_SPLITS: Record<SignalStage, number> = {
+  NS_LEFT: 10, NS_THROUGH: 30, EW_LEFT: 10, EW_THROUGH: 30,
+};
+
+export class FixedTimeController implements SignalController {
+  readonly id = 'fixed';
+  readonly label = 'Fixed';
+  readonly learns = false;
+
+  constructor(private splits: Record<SignalStage, number> = FIXED_GREEN_SPLITS) {}
+
+  // Runs every stage of the ring, protected lefts included, whatever the demand
+  selectAction({ sim }: ControllerContext): number {
+    const remaining = this.splits[sim.stage] - sim.getPhaseElapsed();
+    if (remaining <= 0) return ACTION_SWITCH;
+    return remaining >= 10 ? ACTION_EXTEND_LONG : ACTION_EXTEND_SHORT;
+  }
+}
+
+// --- Vehicle-Actuated (gap-out / max-out) ---
+export const ACTUATED_DETECTION_RANGE = 150;
+
+export class ActuatedController implements SignalController {
+  readonly id = 'actuated';
+  readonly label = 'Actuated';
+  readonly learns = false;
+
+  selectAction({ sim }: ControllerContext): number {
+    const elapsed = sim.getPhaseElapsed();
+    if (elapsed >= MAX_GREEN_TIME) return switchAction(sim);
+
+    // Detectors on each approach only place calls for the movements the stage serves
+    const greenDemand = DIRECTIONS.reduce((total, dir) => {
+      const calls = sim.getApproachCounts(ACTUATED_DETECTION_RANGE, servedMovements(sim.stage, dir));
+      return total + calls[dir];
+    }, 0);
+    const queues = sim.getMovementQueues();
+    const conflictingDemand = totalDemand(queues) - stageDemand(queues, sim.stage);
+    if (elapsed >= MIN_GREEN_TIME && greenDemand === 0 && conflictingDemand > 0) return switchAction(sim);
+
+    return ACTION_EXTEND_SHORT;
+  }
+}
+
+// --- Max-Pressure ---
+const MAX_PRESSURE_MIN_LEFT_QUEUE = 2;
+
+export class MaxPressureController implements SignalController {
+  readonly id = 'maxPressure';
+  readonly label = 'Max-Pressure';
+  readonly learns = false;
+
+  // Exits drain freely, so each movement's pressure is just its upstream queue.
+  // The ring order is kept; a protected left is only worth running for a queue.
+  selectAction({ sim }: ControllerContext): number {
+    const queues = sim.getMovementQueues();
+    const servedPressure = stageDemand(queues, sim.stage);
+    const waitingPressure = totalDemand(queues) - servedPressure;
+    if (sim.getPhaseElapsed() >= MIN_GREEN_TIME && waitingPressure > servedPressure) {
+      return switchAction(sim, MAX_PRESSURE_MIN_LEFT_QUEUE);
+    }
+    return ACTION_EXTEND_SHORT;
+  }
+}
+
+export const createControllers = (getAgent: () => AgentClient | null, explore = true): Record<ControllerId, SignalController> => ({
+  dqn: new DQNController(getAgent, explore),
+  fixed: new FixedTimeController(),
+  actuated: new ActuatedController(),
+  maxPressure: new MaxPressureController(),
+});
+
+export const CONTROLLER_IDS: ControllerId[] = ['dqn', 'fixed', 'actuated', 'maxPressure'];
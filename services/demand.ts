@@ -0,0 +1,169 @@
+import { Direction } from '../types';
+import { SeededRandom } from './random';
+import { VehicleMix, carsAndTrucks } from './vehicles';
+
+export type ArrivalPattern = 'poisson' | 'platoon';
+export type DemandCurveId = 'flat' | 'morningPeak' | 'eveningPeak' | 'doublePeak';
+
+// Shares of arrivals turning left / right; the remainder goes straight through
+export interface TurnRatio {
+  left: number;
+  right: number;
+}
+
+export interface DemandProfile {
+  name: string;
+  rates: Record<Direction, number>;          // vehicles per hour before the time-of-day multiplier
+  curves: Record<Direction, DemandCurveId>;
+  arrival: ArrivalPattern;
+  platoonSize: number;
+  vehicleMix: VehicleMix;                    // relative share of each vehicle class among arrivals
+  emergencyShare: number;                    // 0..1, share of arrivals that are ambulances or fire trucks
+  pedestrianRate: number;                    // pedestrians per hour at each crosswalk
+  turnRatios: Record<Direction, TurnRatio>;
+  startHour: number;                         // clock hour at simulation time zero
+  hourDuration: number;                      // simulated seconds per clock hour (3600 = real time)
+}
+
+// Hourly demand multipliers, index 0 = midnight
+export const DEMAND_CURVES: Record<DemandCurveId, number[]> = {
+  flat:        [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+  morningPeak: [0.2, 0.1, 0.1, 0.1, 0.2, 0.5, 1.2, 2.2, 2.5, 1.6, 1, 0.9, 1, 0.9, 0.9, 1, 1.1, 1.2, 1, 0.8, 0.6, 0.5, 0.4, 0.3],
+  eveningPeak: [0.2, 0.1, 0.1, 0.1, 0.2, 0.4, 0.7, 1, 1, 0.9, 0.9, 1, 1, 1, 1.1, 1.4, 2, 2.5, 2.1, 1.3, 0.9, 0.6, 0.4, 0.3],
+  doublePeak:  [0.2, 0.1, 0.1, 0.1, 0.2, 0.5, 1.1, 2, 2.2, 1.4, 1, 1, 1.1, 1, 1, 1.2, 1.7, 2.1, 1.8, 1.1, 0.8, 0.6, 0.4, 0.3],
+};
+
+// Gap between vehicles inside a platoon, in simulated seconds
+const PLATOON_HEADWAY = 1.5;
+
+const allDirections = <T,>(value: T): Record<Direction, T> => ({ N: value, S: value, E: value, W: value });
+
+export const NO_TURNS: TurnRatio = { left: 0, right: 0 };
+const TYPICAL_TURNS: TurnRatio = { left: 0.15, right: 0.15 };
+
+// --- Built-in Presets ---
+export const BUILT_IN_DEMAND_PROFILES: DemandProfile[] = [
+  {
+    name: 'Uniform (legacy)', rates: allDirections(640), curves: allDirections<DemandCurveId>('flat'),
+    arrival: 'poisson', platoonSize: 1, emergencyShare: 0, pedestrianRate: 0, startHour: 12, hourDuration: 3600,
+    vehicleMix: carsAndTrucks(0.15),
+    turnRatios: allDirections(NO_TURNS),
+  },
+  {
+    name: 'Uniform with Turns', rates: allDirections(640), curves: allDirections<DemandCurveId>('flat'),
+    arrival: 'poisson', platoonSize: 1, emergencyShare: 0, pedestrianRate: 0, startHour: 12, hourDuration: 3600,
+    vehicleMix: { car: 0.7, truck: 0.1, bus: 0.03, motorcycle: 0.05, ev: 0.12 },
+    turnRatios: allDirections(TYPICAL_TURNS),
+  },
+  {
+    name: 'Morning Peak N→S', rates: { N: 900, S: 350, E: 400, W: 400 },
+    curves: { N: 'morningPeak', S: 'flat', E: 'flat', W: 'flat' },
+    arrival: 'poisson', platoonSize: 1, emergencyShare: 0, pedestrianRate: 0, startHour: 6, hourDuration: 120,
+    vehicleMix: { car: 0.72, truck: 0.06, bus: 0.05, motorcycle: 0.05, ev: 0.12 },
+    turnRatios: { N: { left: 0.3, right: 0.1 }, S: TYPICAL_TURNS, E: TYPICAL_TURNS, W: TYPICAL_TURNS },
+  },
+  {
+    name: 'Arterial Platoons E-W', rates: { N: 250, S: 250, E: 900, W: 900 }, curves: allDirections<DemandCurveId>('flat'),
+    arrival: 'platoon', platoonSize: 5, emergencyShare: 0, pedestrianRate: 0, startHour: 12, hourDuration: 3600,
+    vehicleMix: { car: 0.7, truck: 0.12, bus: 0.04, motorcycle: 0.04, ev: 0.1 },
+    turnRatios: { N: TYPICAL_TURNS, S: TYPICAL_TURNS, E: { left: 0.1, right: 0.05 }, W: { left: 0.1, right: 0.05 } },
+  },
+  {
+    name: 'Freight Corridor', rates: allDirections(500), curves: allDirections<DemandCurveId>('doublePeak'),
+    arrival: 'poisson', platoonSize: 1, emergencyShare: 0, pedestrianRate: 0, startHour: 5, hourDuration: 300,
+    vehicleMix: { car: 0.55, truck: 0.4, bus: 0, motorcycle: 0, ev: 0.05 },
+    turnRatios: allDirections({ left: 0.1, right: 0.2 }),
+  },
+  {
+    name: 'Downtown Pedestrians', rates: allDirections(450), curves: allDirections<DemandCurveId>('flat'),
+    arrival: 'poisson', platoonSize: 1, emergencyShare: 0, pedestrianRate: 180, startHour: 12, hourDuration: 3600,
+    vehicleMix: { car: 0.6, truck: 0.03, bus: 0.1, motorcycle: 0.1, ev: 0.17 },
+    turnRatios: allDirections(TYPICAL_TURNS),
+  },
+];
+
+export const DEFAULT_DEMAND_PROFILE = BUILT_IN_DEMAND_PROFILES[0];
+
+export const clockHour = (profile: DemandProfile, time: number) =>
+  (profile.startHour + time / profile.hourDuration) % 24;
+
+// Linear interpolation between the hourly points of the approach's curve
+export const curveMultiplier = (profile: DemandProfile, dir: Direction, time: number) => {
+  const curve = DEMAND_CURVES[profile.curves[dir]] || DEMAND_CURVES.flat;
+  const hour = clockHour(profile, time);
+  const lower = Math.floor(hour);
+  const fraction = hour - lower;
+  return curve[lower] * (1 - fraction) + curve[(lower + 1) % 24] * fraction;
+};
+
+// Arrivals per simulated second on one approach at the given time
+export const arrivalRate = (profile: DemandProfile, dir: Direction, time: number) =>
+  (profile.rates[dir] * curveMultiplier(profile, dir, time)) / 3600;
+
+/**
+ * Turns a demand profile into arrival events. Each step draws one Bernoulli
+ * sample per approach, which is a Poisson process for small timesteps and
+ * follows time-varying rates without extra bookkeeping.
+ */
+export class DemandGenerator {
+  private platoonRemaining = allDirections(0);
+  private platoonClock = allDirections(0);
+
+  constructor(public readonly profile: DemandProfile, private rng: SeededRandom) {}
+
+  // `surge` scales each approach's rate on top of the profile, for scripted demand spikes
+  arrivals(time: number, dt: number, directions: Direction[], surge?: Record<Direction, number>): Direction[] {
+    const arrived: Direction[] = [];
+    directions.forEach(dir => {
+      const rate = arrivalRate(this.profile, dir, time) * (surge ? surge[dir] : 1);
+
+      if (this.profile.arrival === 'poisson' || this.profile.platoonSize <= 1) {
+        if (this.rng.next() < rate * dt) arrived.push(dir);
+        return;
+      }
+
+      // Platoons start at rate / size, then release their members at a fixed headway
+      if (this.rng.next() < (rate / this.profile.platoonSize) * dt) {
+        this.platoonRemaining[dir] += this.profile.platoonSize;
+      }
+      this.platoonClock[dir] = Math.max(0, this.platoonClock[dir] - dt);
+      if (this.platoonRemaining[dir] > 0 && this.platoonClock[dir] <= 0) {
+        arrived.push(dir);
+        this.platoonRemaining[dir]--;
+        this.platoonClock[dir] = PLATOON_HEADWAY;
+      }
+    });
+    return arrived;
+  }
+}
+
+// --- Saved Presets ---
+const PRESET_STORAGE_KEY = 'neural-traffic:demand-presets';
+
+export const loadDemandPresets = (): DemandProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESET_STORAGE_KEY) || '[]');
+    // Presets saved before turns, emergency traffic or pedestrians existed have none of them, and
+    // presets from before the vehicle classes only have a truck share
+    return Array.isArray(stored)
+      ? stored.map(({ truckShare, ...p }) => ({
+        turnRatios: allDirections(NO_TURNS), emergencyShare: 0, pedestrianRate: 0,
+        vehicleMix: carsAndTrucks(Number.isFinite(truckShare) ? truckShare : 0.15), ...p,
+      }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDemandPreset = (profile: DemandProfile): DemandProfile[] => {
+  const presets = [...loadDemandPresets().filter(p => p.name !== profile.name), profile];
+  localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deleteDemandPreset = (name: string): DemandProfile[] => {
+  const presets = loadDemandPresets().filter(p => p.name !== name);
+  localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
@@ -0,0 +1,56 @@
+import { Direction, TrafficSide } from '../types';
+import { Movement } from './geometry';
+import { SignalStage, SIDE_DIRECTIONS } from './signalPlan';
+import { VehicleClassId } from './vehicles';
+
+export type EmergencyKind = 'ambulance' | 'fireTruck';
+export const EMERGENCY_KINDS: EmergencyKind[] = ['ambulance', 'fireTruck'];
+
+export const EMERGENCY_VEHICLES: Record<EmergencyKind, { label: string; vehicleClass: VehicleClassId; color: string; speedFactor: number }> = {
+  ambulance: { label: 'Ambulance', vehicleClass: 'car', color: '#f8fafc', speedFactor: 1.3 },
+  fireTruck: { label: 'Fire Truck', vehicleClass: 'truck', color: '#dc2626', speedFactor: 1.15 },
+};
+
+// Emergency vehicles closer than this to their stop line trigger preemption
+export const PREEMPTION_DETECTION_RANGE = 320;
+
+/**
+ * One preemption run at an intersection, from the emergency vehicle being
+ * detected until it clears the stop line. While it holds green, every movement
+ * of the emergency approach runs protected and all others stop, so the queue
+ * ahead of the vehicle flushes. `otherDelay` is the stopped vehicle-seconds
+ * every other road user accumulated meanwhile.
+ */
+export interface PreemptionEvent {
+  vehicleId: string;
+  kind: EmergencyKind;
+  approach: Direction;
+  movement: Movement;
+  stage: SignalStage;
+  detectedAt: number;
+  greenAt: number | null;
+  clearedAt: number | null;
+  emergencyDelay: number;
+  otherDelay: number;
+}
+
+// Control returns through the emergency approach's through stage, so the ring carries on from there
+export const preemptionStage = (approach: Direction): SignalStage =>
+  SIDE_DIRECTIONS[TrafficSide.NS].includes(approach) ? 'NS_THROUGH' : 'EW_THROUGH';
+
+export interface PreemptionSummary {
+  count: number;
+  meanResponse: number;     // seconds from detection to green
+  meanOtherDelay: number;   // stopped vehicle-seconds of other traffic per preemption
+}
+
+export const summarizePreemptions = (events: PreemptionEvent[]): PreemptionSummary => {
+  const completed = events.filter(e => e.clearedAt !== null);
+  if (completed.length === 0) return { count: 0, meanResponse: 0, meanOtherDelay: 0 };
+  const total = (pick: (e: PreemptionEvent) => number) => completed.reduce((sum, e) => sum + pick(e), 0);
+  return {
+    count: completed.length,
+    meanResponse: total(e => (e.greenAt ?? e.clearedAt!) - e.detectedAt) / completed.length,
+    meanOtherDelay: total(e => e.otherDelay) / completed.length,
+  };
+};
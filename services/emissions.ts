@@ -0,0 +1,138 @@
+import { Direction } from '../types';
+
+export type EmissionProfileId = 'petrolCar' | 'dieselTruck' | 'dieselBus' | 'motorcycle' | 'electric';
+
+/**
+ * How a kind of powertrain turns motion into exhaust. Vehicle specific power
+ * (kW per tonne) is `v·(rotational·a + rolling) + drag·v³` with v in m/s and a
+ * in m/s²; the reference car's rates in each operating mode are then scaled
+ * by `co2Scale` and `noxScale`.
+ */
+export interface EmissionProfile {
+  label: string;
+  rotational: number;
+  rolling: number;
+  drag: number;
+  co2Scale: number;
+  noxScale: number;
+  co2PerMl: number | null;   // g of CO₂ per mL of fuel burnt; null for powertrains that burn none
+}
+
+export const EMISSION_PROFILES: Record<EmissionProfileId, EmissionProfile> = {
+  petrolCar:   { label: 'Petrol car',   rotational: 1.1, rolling: 0.132,  drag: 0.000302, co2Scale: 1,   noxScale: 1,  co2PerMl: 2.31 },
+  dieselTruck: { label: 'Diesel truck', rotational: 1,   rolling: 0.092,  drag: 0.000169, co2Scale: 3.2, noxScale: 14, co2PerMl: 2.68 },
+  dieselBus:   { label: 'Diesel bus',   rotational: 1,   rolling: 0.092,  drag: 0.000169, co2Scale: 3,   noxScale: 12, co2PerMl: 2.68 },
+  motorcycle:  { label: 'Motorcycle',   rotational: 1.1, rolling: 0.132,  drag: 0.000302, co2Scale: 0.4, noxScale: 0.5, co2PerMl: 2.31 },
+  electric:    { label: 'Electric',     rotational: 1.1, rolling: 0.132,  drag: 0.000302, co2Scale: 0,   noxScale: 0,  co2PerMl: null },
+};
+
+// Reference petrol car's CO₂ (g/s) and NOx (mg/s) by VSP bin, loosely after MOVES operating modes
+const OPERATING_MODES: { maxVsp: number; co2: number; nox: number }[] = [
+  { maxVsp: 0,        co2: 1.6,  nox: 1 },
+  { maxVsp: 3,        co2: 2.3,  nox: 2 },
+  { maxVsp: 6,        co2: 3.1,  nox: 3.5 },
+  { maxVsp: 9,        co2: 3.9,  nox: 5.5 },
+  { maxVsp: 12,       co2: 4.7,  nox: 7.5 },
+  { maxVsp: 18,       co2: 5.8,  nox: 10 },
+  { maxVsp: 24,       co2: 7.2,  nox: 14 },
+  { maxVsp: 30,       co2: 8.6,  nox: 19 },
+  { maxVsp: Infinity, co2: 10.2, nox: 25 },
+];
+const IDLE_MODE = { co2: 1.1, nox: 0.6 };
+const BRAKING_MODE = { co2: 0.9, nox: 0.5 };
+const IDLE_SPEED = 0.5;      // m/s below which the engine is idling
+const BRAKING_DECEL = -0.9;  // m/s² at or below which the vehicle is braking rather than coasting
+
+export interface EmissionRates {
+  co2: number;    // g/s
+  nox: number;    // g/s
+  fuel: number;   // mL/s
+}
+
+export const vehicleSpecificPower = (profile: EmissionProfile, speed: number, accel: number) =>
+  speed * (profile.rotational * accel + profile.rolling) + profile.drag * speed * speed * speed;
+
+export const emissionRates = (id: EmissionProfileId, speed: number, accel: number): EmissionRates => {
+  const profile = EMISSION_PROFILES[id];
+  const mode = speed < IDLE_SPEED ? IDLE_MODE
+    : accel <= BRAKING_DECEL ? BRAKING_MODE
+    : OPERATING_MODES.find(m => vehicleSpecificPower(profile, speed, accel) < m.maxVsp)!;
+  const co2 = mode.co2 * profile.co2Scale;
+  return { co2, nox: (mode.nox * profile.noxScale) / 1000, fuel: profile.co2PerMl ? co2 / profile.co2PerMl : 0 };
+};
+
+// --- Accounting ---
+export interface EmissionTotals {
+  co2: number;       // g
+  nox: number;       // g
+  fuel: number;      // mL
+  distance: number;  // km driven
+}
+
+export const emptyEmissionTotals = (): EmissionTotals => ({ co2: 0, nox: 0, fuel: 0, distance: 0 });
+
+export const addEmissions = (a: EmissionTotals, b: EmissionTotals): EmissionTotals => ({
+  co2: a.co2 + b.co2, nox: a.nox + b.nox, fuel: a.fuel + b.fuel, distance: a.distance + b.distance,
+});
+
+export const emittedOver = (rates: EmissionRates, dt: number, distance: number): EmissionTotals => ({
+  co2: rates.co2 * dt, nox: rates.nox * dt, fuel: rates.fuel * dt, distance,
+});
+
+export interface EmissionSummary {
+  total: EmissionTotals;
+  byApproach: Record<Direction, EmissionTotals>;
+  trips: number;                  // vehicles that have left the model
+  co2PerVehicle: number | null;   // g over each finished trip
+  co2PerKm: number | null;        // g per vehicle-km, idling included
+}
+
+/**
+ * Running totals for one junction, split by the approach vehicles arrived on.
+ * Finished trips are counted with everything the vehicle emitted on the way,
+ * including at junctions it drove through before this one.
+ */
+export class EmissionLedger {
+  public byApproach: Record<Direction, EmissionTotals> = this.emptyApproaches();
+  public trips = 0;
+  public tripCo2 = 0;
+
+  reset() {
+    this.byApproach = this.emptyApproaches();
+    this.trips = 0;
+    this.tripCo2 = 0;
+  }
+
+  record(origin: Direction, emitted: EmissionTotals) {
+    this.byApproach[origin] = addEmissions(this.byApproach[origin], emitted);
+  }
+
+  completeTrip(emitted: EmissionTotals) {
+    this.trips++;
+    this.tripCo2 += emitted.co2;
+  }
+
+  get total(): EmissionTotals {
+    return Object.values(this.byApproach).reduce(addEmissions, emptyEmissionTotals());
+  }
+
+  private emptyApproaches(): Record<Direction, EmissionTotals> {
+    return { N: emptyEmissionTotals(), S: emptyEmissionTotals(), E: emptyEmissionTotals(), W: emptyEmissionTotals() };
+  }
+}
+
+// Several junctions' ledgers as one; approaches are summed by compass direction
+export const summarizeEmissions = (ledgers: EmissionLedger[]): EmissionSummary => {
+  const byApproach = new EmissionLedger().byApproach;
+  ledgers.forEach(ledger => (Object.keys(byApproach) as Direction[]).forEach(dir => {
+    byApproach[dir] = addEmissions(byApproach[dir], ledger.byApproach[dir]);
+  }));
+  const total = Object.values(byApproach).reduce(addEmissions, emptyEmissionTotals());
+  const trips = ledgers.reduce((sum, l) => sum + l.trips, 0);
+  const tripCo2 = ledgers.reduce((sum, l) => sum + l.tripCo2, 0);
+  return {
+    total, byApproach, trips,
+    co2PerVehicle: trips > 0 ? tripCo2 / trips : null,
+    co2PerKm: total.distance > 0 ? total.co2 / total.distance : null,
+  };
+};
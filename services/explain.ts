@@ -0,0 +1,110 @@
+import { WEATHER } from '../constants';
+import { AgentClient } from './agentClient';
+import { FEATURE_LABELS, STATE_SIZE } from './observation';
+
+const WEATHER_FEATURE = FEATURE_LABELS.indexOf('Weather Factor');
+
+// How the controller arrived at an action
+export type DecisionSource = 'greedy' | 'exploratory' | 'rule' | 'forced' | 'shielded' | 'manual' | 'fallback';
+
+export const DECISION_SOURCES: Record<DecisionSource, { label: string; color: string; description: string }> = {
+  greedy:      { label: 'Greedy',      color: '#10b981', description: 'Highest Q-value action' },
+  exploratory: { label: 'Exploratory', color: '#f59e0b', description: 'Random ε-greedy exploration, not the best-rated action' },
+  rule:        { label: 'Rule-based',  color: '#818cf8', description: 'Chosen by a baseline controller; Q-values are the DQN\'s view' },
+  forced:      { label: 'Forced',      color: '#71717a', description: 'Yellow and all-red always advance to the next green' },
+  shielded:    { label: 'Shielded',    color: '#f43f5e', description: 'The safety shield replaced an action that broke a timing constraint' },
+  manual:      { label: 'Operator',    color: '#38bdf8', description: 'Set by a manual operator override; kept out of training' },
+  fallback:    { label: 'Fallback',    color: '#a1a1aa', description: 'The agent worker missed its deadline, so the fixed-time plan decided' },
+};
+
+// Everything needed to explain one decision after the fact
+export interface DecisionContext {
+  state: number[];
+  actionIndex: number;
+  qValues: number[];
+  source: DecisionSource;
+  allowed?: boolean[];   // actions the shield allowed at the time; absent means all of them
+}
+
+export interface FeatureAttribution {
+  index: number;
+  label: string;
+  value: number;
+  attribution: number;   // change in the chosen action's margin the feature accounts for
+}
+
+export interface DecisionExplanation {
+  actionIndex: number;
+  runnerUpIndex: number;
+  margin: number;         // Q(chosen) - Q(best other allowed action); negative when exploring
+  probability: number;    // softmax share of the chosen action
+  source: DecisionSource;
+  attributions: FeatureAttribution[];
+}
+
+// An empty junction in clear weather: the reference each feature is reset to
+export const FEATURE_BASELINE = Array.from({ length: STATE_SIZE }, (_, i) => i === WEATHER_FEATURE ? WEATHER.SUNNY.factor : 0);
+
+// Actions the shield blocked never compete with the chosen one
+const isAllowed = (allowed: boolean[] | undefined, i: number) => !allowed || allowed[i] !== false;
+
+const bestAllowed = (qValues: number[], allowed?: boolean[]) =>
+  qValues.reduce((best, q, i) => isAllowed(allowed, i) && (best < 0 || q > qValues[best]) ? i : best, -1);
+
+// The allowed action that would have won had the chosen one not been available
+const runnerUp = (qValues: number[], actionIndex: number, allowed?: boolean[]) =>
+  qValues.reduce((best, q, i) => i !== actionIndex && isAllowed(allowed, i) && (best < 0 || q > qValues[best]) ? i : best, -1);
+
+const margin = (qValues: number[], actionIndex: number, allowed?: boolean[]) => {
+  const other = runnerUp(qValues, actionIndex, allowed);
+  return other < 0 ? 0 : qValues[actionIndex] - qValues[other];
+};
+
+// Softmax share of the chosen action among the allowed ones
+export const actionProbability = (qValues: number[], actionIndex: number, allowed?: boolean[]) => {
+  if (qValues.length === 0) return 0;
+  const top = Math.max(...qValues);
+  const weights = qValues.map((q, i) => isAllowed(allowed, i) || i === actionIndex ? Math.exp(q - top) : 0);
+  return weights[actionIndex] / weights.reduce((a, b) => a + b, 0);
+};
+
+export const decisionSource = (
+  learns: boolean, forced: boolean, qValues: number[], actionIndex: number, overridden = false, manual = false, late = false,
+  allowed?: boolean[]
+): DecisionSource => {
+  if (forced) return 'forced';
+  if (overridden) return 'shielded';
+  if (manual) return 'manual';
+  if (late) return 'fallback';
+  if (!learns) return 'rule';
+  return actionIndex === bestAllowed(qValues, allowed) ? 'greedy' : 'exploratory';
+};
+
+/**
+ * Occlusion attribution: each feature in turn is reset to FEATURE_BASELINE and
+ * the network re-evaluated. A feature's attribution is how much of the chosen
+ * action's lead over the runner-up disappears without it, so positive values
+ * argue for the action and negative values against. Features interact, so the
+ * attributions need not add up to the margin. All the passes go to the agent
+ * worker as one batch.
+ */
+export const explainDecision = async (
+  agent: AgentClient, { state, actionIndex, qValues, source, allowed }: DecisionContext
+): Promise<DecisionExplanation> => {
+  const perturbed = state.map((_, index) => state.map((v, i) => i === index ? FEATURE_BASELINE[i] : v));
+  const [baseQ, ...perturbedQ] = await agent.qValues([state, ...perturbed]);
+  const base = margin(baseQ, actionIndex, allowed);
+  const attributions = state.map((value, index) => ({
+    index, label: FEATURE_LABELS[index], value,
+    attribution: value === FEATURE_BASELINE[index] ? 0 : base - margin(perturbedQ[index], actionIndex, allowed),
+  }));
+
+  return {
+    actionIndex,
+    runnerUpIndex: runnerUp(qValues, actionIndex, allowed),
+    margin: margin(qValues, actionIndex, allowed),
+    probability: actionProbability(qValues, actionIndex, allowed),
+    source,
+    attributions: attributions.sort((a, b) => Math.abs(b.attribution) - Math.abs(a.attribution)),
+  };
+};
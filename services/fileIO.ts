@@ -0,0 +1,9 @@
+// Triggers a browser download for generated text (model files, reports, logs).
+export const downloadTextFile = (filename: string, content: string, mimeType = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
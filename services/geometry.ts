@@ -0,0 +1,198 @@
+import { Direction } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+
+export type Movement = 'left' | 'through' | 'right';
+export const MOVEMENTS: Movement[] = ['left', 'through', 'right'];
+
+export interface Vec { x: number; y: number; }
+
+export const CENTER: Vec = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
+export const LANE_OFFSET = 35;
+export const STOP_LINE_OFFSET = 80;      // stop line distance from the centre of the box
+export const STOP_ZONE_START = 480;      // vehicles further out than this ignore the signal, far enough to brake from cruise
+export const ENTRY_OFFSET = 100;         // vehicles enter this far beyond the edge of an intersection's tile
+const CONFLICT_CLEARANCE = 22;           // paths closer than this cannot be used at the same time
+const PATH_SAMPLE_STEP = 4;
+
+// Unit vector of travel for vehicles on each approach ("N" = arriving from the north)
+export const TRAVEL: Record<Direction, Vec> = {
+  N: { x: 0, y: 1 }, S: { x: 0, y: -1 }, E: { x: 1, y: 0 }, W: { x: -1, y: 0 },
+};
+
+const APPROACHES = [Direction.N, Direction.S, Direction.E, Direction.W];
+const rightOf = (v: Vec): Vec => ({ x: -v.y, y: v.x });
+const travelling = (v: Vec) => APPROACHES.find(dir => TRAVEL[dir].x === v.x && TRAVEL[dir].y === v.y)!;
+
+export const oppositeOf = (dir: Direction) => travelling({ x: -TRAVEL[dir].x, y: -TRAVEL[dir].y });
+
+// The approach whose travel direction a vehicle takes over once its turn is complete
+export const exitDirection = (dir: Direction, movement: Movement): Direction => {
+  const right = rightOf(TRAVEL[dir]);
+  if (movement === 'right') return travelling(right);
+  if (movement === 'left') return travelling({ x: -right.x, y: -right.y });
+  return dir;
+};
+
+// --- Approach Frame ---
+// s runs along the direction of travel (0 at the centre), d to the driver's right.
+export const toScreen = (dir: Direction, s: number, d: number, center: Vec = CENTER): Vec => {
+  const f = TRAVEL[dir], r = rightOf(f);
+  return { x: center.x + f.x * s + r.x * d, y: center.y + f.y * s + r.y * d };
+};
+
+export const alongApproach = (dir: Direction, x: number, y: number, center: Vec = CENTER) =>
+  (x - center.x) * TRAVEL[dir].x + (y - center.y) * TRAVEL[dir].y;
+
+// Offset to the right of the road's centre line, the d of the approach frame
+export const acrossApproach = (dir: Direction, x: number, y: number, center: Vec = CENTER) => {
+  const r = rightOf(TRAVEL[dir]);
+  return (x - center.x) * r.x + (y - center.y) * r.y;
+};
+
+// --- Lanes ---
+// Lanes share the half of the carriageway the junction is drawn for, so each
+// extra lane narrows them all; two is as many as the widest vehicle fits.
+// Lane 0 is the kerb lane, the highest index the one next to the centre line.
+export const MAX_LANES = 2;
+const HALF_ROAD = 2 * LANE_OFFSET;
+
+export const laneWidth = (count: number) => HALF_ROAD / count;
+
+export const laneOffset = (count: number, lane: number) => HALF_ROAD - laneWidth(count) * (lane + 0.5);
+
+// Distance from the centre to the edge of the tile along an approach
+export const halfExtent = (dir: Direction) => TRAVEL[dir].x === 0 ? CANVAS_HEIGHT / 2 : CANVAS_WIDTH / 2;
+
+export const headingAngle = (v: Vec) => (Math.atan2(v.y, v.x) * 180) / Math.PI;
+
+// --- Turning Paths ---
+// Turns are cubic Béziers in the approach frame, from the stop line into the
+// exit lane, tangent to both lanes so headings stay continuous.
+interface Local { s: number; d: number; }
+interface TurnPath { controls: [Local, Local, Local, Local]; lengths: number[]; length: number; }
+
+const CIRCULAR_TIGHTNESS = 0.5523;   // control length that approximates a quarter circle
+const LEFT_TURN_TIGHTNESS = 0.3;     // flatter than a circle so opposing lefts pass clear of each other
+const PATH_TABLE_SIZE = 64;
+
+export const TURN_START = -STOP_LINE_OFFSET;
+
+const bezier = ([p0, p1, p2, p3]: TurnPath['controls'], t: number, derivative = false): Local => {
+  const u = 1 - t;
+  const at = (a: number, b: number, c: number, e: number) => derivative
+    ? 3 * u * u * (b - a) + 6 * u * t * (c - b) + 3 * t * t * (e - c)
+    : u * u * u * a + 3 * u * u * t * b + 3 * u * t * t * c + t * t * t * e;
+  return { s: at(p0.s, p1.s, p2.s, p3.s), d: at(p0.d, p1.d, p2.d, p3.d) };
+};
+
+const buildTurnPath = (from: number, end: Local, tightness: number): TurnPath => {
+  const start = { s: TURN_START, d: from };
+  const controls: TurnPath['controls'] = [
+    start,
+    { s: start.s + tightness * (end.s - start.s), d: start.d },
+    { s: end.s, d: end.d - tightness * (end.d - start.d) },
+    end,
+  ];
+  // Cumulative arc length at evenly spaced t, used to move at constant speed
+  const lengths = [0];
+  let prev = controls[0];
+  for (let i = 1; i <= PATH_TABLE_SIZE; i++) {
+    const point = bezier(controls, i / PATH_TABLE_SIZE);
+    lengths.push(lengths[i - 1] + Math.hypot(point.s - prev.s, point.d - prev.d));
+    prev = point;
+  }
+  return { controls, lengths, length: lengths[PATH_TABLE_SIZE] };
+};
+
+// One path per movement and pair of lane offsets, built on first use
+const TURN_PATHS = new Map<string, TurnPath>();
+
+const turnPath = (movement: 'left' | 'right', from: number, to: number): TurnPath => {
+  const key = `${movement}:${from}:${to}`;
+  let path = TURN_PATHS.get(key);
+  if (!path) {
+    path = movement === 'right'
+      ? buildTurnPath(from, { s: -to, d: STOP_LINE_OFFSET }, CIRCULAR_TIGHTNESS)
+      : buildTurnPath(from, { s: to, d: -STOP_LINE_OFFSET }, LEFT_TURN_TIGHTNESS);
+    TURN_PATHS.set(key, path);
+  }
+  return path;
+};
+
+// `from` and `to` are the lane offsets the turn starts and ends in
+export const turnLength = (movement: 'left' | 'right', from = LANE_OFFSET, to = LANE_OFFSET) => turnPath(movement, from, to).length;
+
+export interface Pose { x: number; y: number; angle: number; }
+
+// Pose after travelling `distance` px along the turn from the stop line
+export const turnPose = (
+  dir: Direction, movement: 'left' | 'right', distance: number, center: Vec = CENTER, from = LANE_OFFSET, to = LANE_OFFSET
+): Pose => {
+  const path = turnPath(movement, from, to);
+  const target = Math.max(0, Math.min(distance, path.length));
+  let i = 1;
+  while (i < PATH_TABLE_SIZE && path.lengths[i] < target) i++;
+  const span = path.lengths[i] - path.lengths[i - 1];
+  const t = (i - 1 + (span > 0 ? (target - path.lengths[i - 1]) / span : 0)) / PATH_TABLE_SIZE;
+
+  const point = bezier(path.controls, t);
+  const tangent = bezier(path.controls, t, true);
+  const f = TRAVEL[dir], r = rightOf(f);
+  const heading = { x: f.x * tangent.s + r.x * tangent.d, y: f.y * tangent.s + r.y * tangent.d };
+  return { ...toScreen(dir, point.s, point.d, center), angle: headingAngle(heading) };
+};
+
+// --- Movement Conflicts ---
+// Lanes per travel direction; the conflict table depends on which lanes each movement uses
+export type LaneCounts = Record<Direction, number>;
+export const SINGLE_LANES: LaneCounts = { N: 1, S: 1, E: 1, W: 1 };
+
+// Rights run kerb lane to kerb lane, lefts centre lane to centre lane, throughs stay in whichever lane they are in
+const pathOffsets = (dir: Direction, movement: Movement, lanes: LaneCounts): { from: number; to: number }[] => {
+  const count = lanes[dir], exitCount = lanes[exitDirection(dir, movement)];
+  if (movement === 'right') return [{ from: laneOffset(count, 0), to: laneOffset(exitCount, 0) }];
+  if (movement === 'left') return [{ from: laneOffset(count, count - 1), to: laneOffset(exitCount, exitCount - 1) }];
+  return Array.from({ length: count }, (_, lane) => ({ from: laneOffset(count, lane), to: laneOffset(count, lane) }));
+};
+
+// Samples the movement's paths from the stop line to where they leave the box
+const samplePath = (dir: Direction, movement: Movement, lanes: LaneCounts): Vec[] => {
+  const points: Vec[] = [];
+  pathOffsets(dir, movement, lanes).forEach(({ from, to }) => {
+    if (movement === 'through') {
+      for (let s = -STOP_LINE_OFFSET; s <= STOP_LINE_OFFSET; s += PATH_SAMPLE_STEP) points.push(toScreen(dir, s, from));
+      return;
+    }
+    for (let t = 0; t <= turnLength(movement, from, to); t += PATH_SAMPLE_STEP) points.push(turnPose(dir, movement, t, CENTER, from, to));
+  });
+  return points;
+};
+
+const movementKey = (dir: Direction, movement: Movement) => `${dir}:${movement}`;
+
+const buildConflicts = (lanes: LaneCounts): Set<string> => {
+  const paths = APPROACHES.flatMap(dir => MOVEMENTS.map(movement => ({ dir, movement, points: samplePath(dir, movement, lanes) })));
+  const conflicts = new Set<string>();
+  paths.forEach(a => paths.forEach(b => {
+    // Movements from the same approach are ordered by car-following instead
+    if (a.dir === b.dir) return;
+    const close = a.points.some(p => b.points.some(q => Math.hypot(p.x - q.x, p.y - q.y) < CONFLICT_CLEARANCE));
+    if (close) conflicts.add(`${movementKey(a.dir, a.movement)}|${movementKey(b.dir, b.movement)}`);
+  }));
+  return conflicts;
+};
+
+// One table per lane layout, built on first use
+const CONFLICTS = new Map<string, Set<string>>();
+
+export const movementsConflict = (
+  dirA: Direction, movementA: Movement, dirB: Direction, movementB: Movement, lanes: LaneCounts = SINGLE_LANES
+) => {
+  const layout = APPROACHES.map(dir => lanes[dir]).join('');
+  let conflicts = CONFLICTS.get(layout);
+  if (!conflicts) {
+    conflicts = buildConflicts(lanes);
+    CONFLICTS.set(layout, conflicts);
+  }
+  return conflicts.has(`${movementKey(dirA, movementA)}|${movementKey(dirB, movementB)}`);
+};
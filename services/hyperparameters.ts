@@ -0,0 +1,107 @@
+import { GAMMA, INITIAL_EPSILON } from '../constants';
+import { DECISIONS_PER_EPISODE } from './controllers';
+
+export interface Hyperparameters {
+  gamma: number;                // discount on future reward
+  initialEpsilon: number;       // exploration rate a fresh agent starts from
+  epsilonDecay: number;         // factor epsilon shrinks by after each replay batch
+  epsilonMin: number;           // floor epsilon decays to
+  learningRate: number;
+  bufferSize: number;           // transitions the replay memory holds
+  batchSize: number;            // transitions per replay batch
+  targetSyncInterval: number;   // replay batches between target-network syncs
+  episodeLength: number;        // decisions per training episode
+}
+
+export type HyperparameterKey = keyof Hyperparameters;
+
+export const HYPERPARAMETER_KEYS: HyperparameterKey[] = [
+  'gamma', 'initialEpsilon', 'epsilonDecay', 'epsilonMin', 'learningRate', 'bufferSize', 'batchSize',
+  'targetSyncInterval', 'episodeLength',
+];
+
+// The agent's built-in settings, so a default config trains exactly as before
+export const DEFAULT_HYPERPARAMETERS: Hyperparameters = {
+  gamma: GAMMA,
+  initialEpsilon: INITIAL_EPSILON,
+  epsilonDecay: 0.995,
+  epsilonMin: 0.01,
+  learningRate: 0.001,
+  bufferSize: 10000,
+  batchSize: 32,
+  targetSyncInterval: 100,
+  episodeLength: DECISIONS_PER_EPISODE,
+};
+
+/**
+ * Valid range of each setting. `live` settings reach the running agent as soon
+ * as they are applied; the rest are baked in when the network and its replay
+ * memory are built, so changing them means a fresh agent.
+ */
+export const HYPERPARAMETER_FIELDS: Record<HyperparameterKey, {
+  label: string; min: number; max: number; step: number; integer?: boolean; live: boolean;
+}> = {
+  gamma:              { label: 'Discount γ',     min: 0,       max: 0.999,  step: 0.01,   live: true },
+  initialEpsilon:     { label: 'Initial ε',      min: 0,       max: 1,      step: 0.05,   live: false },
+  epsilonDecay:       { label: 'ε Decay',        min: 0.9,     max: 1,      step: 0.001,  live: true },
+  epsilonMin:         { label: 'ε Floor',        min: 0,       max: 1,      step: 0.01,   live: true },
+  learningRate:       { label: 'Learning Rate',  min: 0.00001, max: 0.1,    step: 0.0001, live: false },
+  bufferSize:         { label: 'Replay Buffer',  min: 100,     max: 100000, step: 1000,   integer: true, live: false },
+  batchSize:          { label: 'Batch Size',     min: 1,       max: 512,    step: 8,      integer: true, live: true },
+  targetSyncInterval: { label: 'Target Sync',    min: 1,       max: 10000,  step: 10,     integer: true, live: true },
+  episodeLength:      { label: 'Episode Length', min: 10,      max: 10000,  step: 10,     integer: true, live: true },
+};
+
+// A readable complaint per out-of-range setting; an empty result means the config can be applied
+export const validateHyperparameters = (config: Hyperparameters): Partial<Record<HyperparameterKey, string>> => {
+  const errors: Partial<Record<HyperparameterKey, string>> = {};
+  HYPERPARAMETER_KEYS.forEach(key => {
+    const { min, max, integer } = HYPERPARAMETER_FIELDS[key];
+    const value = config[key];
+    if (!Number.isFinite(value)) errors[key] = 'Must be a number';
+    else if (value < min || value > max) errors[key] = `Must be between ${min} and ${max}`;
+    else if (integer && !Number.isInteger(value)) errors[key] = 'Must be a whole number';
+  });
+  if (!errors.epsilonMin && !errors.initialEpsilon && config.epsilonMin > config.initialEpsilon) {
+    errors.epsilonMin = 'Cannot exceed the initial ε';
+  }
+  if (!errors.batchSize && !errors.bufferSize && config.batchSize > config.bufferSize) {
+    errors.batchSize = 'Cannot exceed the replay buffer';
+  }
+  return errors;
+};
+
+// Settings that changed between two configs
+export const changedHyperparameters = (from: Hyperparameters, to: Hyperparameters): HyperparameterKey[] =>
+  HYPERPARAMETER_KEYS.filter(key => from[key] !== to[key]);
+
+export const needsRebuild = (from: Hyperparameters, to: Hyperparameters) =>
+  changedHyperparameters(from, to).some(key => !HYPERPARAMETER_FIELDS[key].live);
+
+export const describeHyperparameters = (config: Hyperparameters) =>
+  `γ ${config.gamma} · lr ${config.learningRate} · ε ${config.initialEpsilon}→${config.epsilonMin} ×${config.epsilonDecay} · ` +
+  `buffer ${config.bufferSize} · batch ${config.batchSize} · sync ${config.targetSyncInterval} · ${config.episodeLength} dec/ep`;
+
+// --- Saved Configuration ---
+const CONFIG_STORAGE_KEY = 'neural-traffic:hyperparameters';
+
+// Settings that were never saved, or no longer validate, fall back to their defaults
+export const loadHyperparameters = (): Hyperparameters => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+    const config = { ...DEFAULT_HYPERPARAMETERS };
+    HYPERPARAMETER_KEYS.forEach(key => {
+      if (Number.isFinite(stored?.[key])) config[key] = stored[key];
+    });
+    (Object.keys(validateHyperparameters(config)) as HyperparameterKey[]).forEach(key => {
+      config[key] = DEFAULT_HYPERPARAMETERS[key];
+    });
+    return Object.keys(validateHyperparameters(config)).length === 0 ? config : DEFAULT_HYPERPARAMETERS;
+  } catch {
+    return DEFAULT_HYPERPARAMETERS;
+  }
+};
+
+export const saveHyperparameters = (config: Hyperparameters) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,65 @@
+import { Direction } from '../types';
+import { Movement, MOVEMENTS, MAX_LANES, LaneCounts } from './geometry';
+
+// Lanes for traffic travelling one way, the same before and after the junction
+export interface ApproachLanes {
+  count: number;             // 1..MAX_LANES
+  leftTurnLane: boolean;     // with more than one lane, the centre lane is for left turns only
+}
+
+export type LaneConfig = Record<Direction, ApproachLanes>;
+
+const SINGLE_LANE: ApproachLanes = { count: 1, leftTurnLane: false };
+
+export const DEFAULT_LANE_CONFIG: LaneConfig = { N: SINGLE_LANE, S: SINGLE_LANE, E: SINGLE_LANE, W: SINGLE_LANE };
+
+export const laneCounts = (config: LaneConfig): LaneCounts => ({
+  N: config.N.count, S: config.S.count, E: config.E.count, W: config.W.count,
+});
+
+/**
+ * Movements a lane may be used for. Lane 0 is the kerb lane: rights turn
+ * from it, lefts from the centre lane, and throughs from any lane that is
+ * not a dedicated left-turn lane.
+ */
+export const laneMovements = ({ count, leftTurnLane }: ApproachLanes, lane: number): Movement[] => {
+  const centre = lane === count - 1;
+  if (count > 1 && centre && leftTurnLane) return ['left'];
+  return MOVEMENTS.filter(movement => (movement !== 'left' || centre) && (movement !== 'right' || lane === 0));
+};
+
+export const lanesFor = (lanes: ApproachLanes, movement: Movement): number[] =>
+  Array.from({ length: lanes.count }, (_, lane) => lane).filter(lane => laneMovements(lanes, lane).includes(movement));
+
+// Turns finish in the nearest lane of the road they join; throughs keep their lane
+export const exitLane = (exit: ApproachLanes, movement: Movement, lane: number): number =>
+  movement === 'right' ? 0 : movement === 'left' ? exit.count - 1 : Math.min(lane, exit.count - 1);
+
+export const LANE_LABELS = ['Kerb', 'Centre'];
+
+export const describeLane = (lanes: ApproachLanes, lane: number) =>
+  lanes.count === 1 ? 'Lane' : `${LANE_LABELS[lane]} ${laneMovements(lanes, lane).map(m => m[0].toUpperCase()).join('')}`;
+
+// --- Saved Configuration ---
+const CONFIG_STORAGE_KEY = 'neural-traffic:lanes';
+
+export const normalizeLaneConfig = (config: LaneConfig): LaneConfig => {
+  const normalize = (lanes: ApproachLanes | undefined): ApproachLanes => ({
+    count: Math.max(1, Math.min(MAX_LANES, Math.round(Number(lanes?.count)) || 1)),
+    leftTurnLane: lanes?.leftTurnLane === true,
+  });
+  return { N: normalize(config.N), S: normalize(config.S), E: normalize(config.E), W: normalize(config.W) };
+};
+
+export const loadLaneConfig = (): LaneConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || 'null');
+    return stored ? normalizeLaneConfig(stored) : DEFAULT_LANE_CONFIG;
+  } catch {
+    return DEFAULT_LANE_CONFIG;
+  }
+};
+
+export const saveLaneConfig = (config: LaneConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,205 @@
+import * as tf from '@tensorflow/tfjs';
+import { DQNAgent } from './dqnAgent';
+import { downloadTextFile } from './fileIO';
+import { Hyperparameters, HYPERPARAMETER_KEYS } from './hyperparameters';
+
+const MODEL_FORMAT = 'neural-traffic-dqn';
+const MODEL_VERSION = 1;
+const STORAGE_PREFIX = 'neural-traffic:model:';
+export const AUTOSAVE_NAME = 'autosave';
+
+interface SerializedTensor {
+  shape: number[];
+  values: number[];
+}
+
+// The network as it crosses between the agent worker and the page
+export interface AgentWeights {
+  inputSize: number;
+  actionCount: number;
+  epsilon: number;
+  weights: SerializedTensor[];
+}
+
+export interface ModelSnapshot extends AgentWeights {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  episodes: number;
+  rewardHistory: number[];
+  lossHistory?: number[];       // absent in files saved before full-run charts
+  epsilonHistory?: number[];
+  hyperparameters?: Hyperparameters;   // the settings it was trained with; absent in older files
+}
+
+export interface ModelSummary {
+  name: string;
+  savedAt: string;
+  episodes: number;
+}
+
+export interface ModelShape {
+  inputSize: number;
+  actionCount: number;
+}
+
+// Per-episode series for the whole run, one entry per completed episode
+export interface TrainingProgress {
+  episodes: number;
+  rewardHistory: number[];
+  lossHistory: number[];
+  epsilonHistory: number[];
+}
+
+export const emptyTrainingProgress = (): TrainingProgress => ({
+  episodes: 0, rewardHistory: [], lossHistory: [], epsilonHistory: [],
+});
+
+export const snapshotProgress = (snapshot: ModelSnapshot): TrainingProgress => ({
+  episodes: snapshot.episodes,
+  rewardHistory: snapshot.rewardHistory,
+  lossHistory: snapshot.lossHistory || [],
+  epsilonHistory: snapshot.epsilonHistory || [],
+});
+
+// --- Agent <-> Snapshot ---
+// The agent side runs in the agent worker, which owns the network
+export const readAgentWeights = (agent: DQNAgent): AgentWeights => ({
+  inputSize: agent.model.inputs[0].shape[1] as number,
+  actionCount: agent.model.outputs[0].shape[1] as number,
+  epsilon: agent.epsilon,
+  weights: agent.model.getWeights().map(w => ({ shape: [...w.shape], values: Array.from(w.dataSync()) })),
+});
+
+export const captureModel = (
+  { inputSize, actionCount, epsilon, weights }: AgentWeights, name: string, progress: TrainingProgress,
+  hyperparameters: Hyperparameters
+): ModelSnapshot => ({
+  format: MODEL_FORMAT,
+  version: MODEL_VERSION,
+  name,
+  savedAt: new Date().toISOString(),
+  inputSize,
+  actionCount,
+  epsilon,
+  episodes: progress.episodes,
+  rewardHistory: [...progress.rewardHistory],
+  lossHistory: [...progress.lossHistory],
+  epsilonHistory: [...progress.epsilonHistory],
+  hyperparameters,
+  weights,
+});
+
+// Copies the snapshot into both the online and target networks so training resumes from a synced pair
+export const restoreModel = (agent: DQNAgent, snapshot: AgentWeights) => {
+  const expected = agent.model.getWeights().map(w => w.shape.join('x'));
+  const received = snapshot.weights.map(w => w.shape.join('x'));
+  if (expected.join(',') !== received.join(',')) {
+    throw new Error(`Layer shapes [${received.join(', ')}] do not match this network [${expected.join(', ')}]`);
+  }
+
+  const tensors = snapshot.weights.map(w => tf.tensor(w.values, w.shape));
+  agent.model.setWeights(tensors);
+  agent.targetModel.setWeights(tensors);
+  tensors.forEach(t => t.dispose());
+  agent.epsilon = snapshot.epsilon;
+};
+
+// --- Validation ---
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(n => typeof n === 'number');
+
+const isSerializedTensor = (value: unknown): value is SerializedTensor =>
+  isObject(value) && isNumberArray(value.shape) && isNumberArray(value.values) &&
+  value.values.length === value.shape.reduce((a, b) => a * b, 1);
+
+const isHyperparameters = (value: unknown): value is Hyperparameters =>
+  isObject(value) && HYPERPARAMETER_KEYS.every(key => typeof value[key] === 'number');
+
+export const isAgentWeights = (value: unknown): value is AgentWeights =>
+  isObject(value) && typeof value.inputSize === 'number' && typeof value.actionCount === 'number' &&
+  typeof value.epsilon === 'number' && Array.isArray(value.weights) && value.weights.every(isSerializedTensor);
+
+export const parseModelFile = (text: string, shape: ModelShape): ModelSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== MODEL_FORMAT) throw new Error('File is not a Neural Traffic DQN model');
+  const {
+    version, name, savedAt, inputSize, actionCount, epsilon, weights, episodes, rewardHistory, lossHistory, epsilonHistory,
+    hyperparameters,
+  } = data;
+  if (version !== MODEL_VERSION) throw new Error(`Unsupported model version ${version}`);
+  if (inputSize !== shape.inputSize) {
+    throw new Error(`Model expects ${inputSize} input features, the simulator provides ${shape.inputSize}`);
+  }
+  if (actionCount !== shape.actionCount) {
+    throw new Error(`Model has ${actionCount} actions, the controller uses ${shape.actionCount}`);
+  }
+  if (typeof name !== 'string' || name.trim() === '' || typeof savedAt !== 'string') {
+    throw new Error('Model name or save time is missing');
+  }
+  if (!Array.isArray(weights) || !weights.every(isSerializedTensor)) {
+    throw new Error('Model weights are missing or malformed');
+  }
+  if (typeof epsilon !== 'number' || typeof episodes !== 'number' || !isNumberArray(rewardHistory)) {
+    throw new Error('Model training metadata is missing');
+  }
+  if ((lossHistory !== undefined && !isNumberArray(lossHistory)) || (epsilonHistory !== undefined && !isNumberArray(epsilonHistory))) {
+    throw new Error('Model training history is malformed');
+  }
+  if (hyperparameters !== undefined && !isHyperparameters(hyperparameters)) {
+    throw new Error('Model hyperparameters are malformed');
+  }
+
+  return {
+    format: MODEL_FORMAT, version: MODEL_VERSION, name, savedAt, inputSize: shape.inputSize, actionCount: shape.actionCount,
+    epsilon, weights, episodes, rewardHistory, lossHistory, epsilonHistory, hyperparameters,
+  };
+};
+
+// --- Browser Storage ---
+export const listSavedModels = (): ModelSummary[] => {
+  const models: ModelSummary[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const entry: unknown = JSON.parse(localStorage.getItem(key) || '');
+      if (isObject(entry) && typeof entry.name === 'string' && typeof entry.savedAt === 'string' && typeof entry.episodes === 'number') {
+        models.push({ name: entry.name, savedAt: entry.savedAt, episodes: entry.episodes });
+      }
+    } catch {
+      // Skip entries that were corrupted or written by another app
+    }
+  }
+  return models.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const hasSavedModel = (name: string) => localStorage.getItem(STORAGE_PREFIX + name) !== null;
+
+export const saveModelToStorage = (snapshot: ModelSnapshot) => {
+  localStorage.setItem(STORAGE_PREFIX + snapshot.name, JSON.stringify(snapshot));
+};
+
+export const loadModelFromStorage = (name: string, shape: ModelShape): ModelSnapshot => {
+  const text = localStorage.getItem(STORAGE_PREFIX + name);
+  if (!text) throw new Error(`No saved model named "${name}"`);
+  return parseModelFile(text, shape);
+};
+
+export const deleteModelFromStorage = (name: string) => {
+  localStorage.removeItem(STORAGE_PREFIX + name);
+};
+
+export const exportModel = (snapshot: ModelSnapshot) => {
+  downloadTextFile(`${snapshot.name}.dqn.json`, JSON.stringify(snapshot));
+};
@@ -0,0 +1,325 @@
+import { Direction } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { TrafficSimulation, StepResult, FIXED_DT, DIRECTIONS } from './simulation';
+import { DemandProfile, DEFAULT_DEMAND_PROFILE, clockHour } from './demand';
+import { ENTRY_OFFSET, TRAVEL } from './geometry';
+import { EmergencyKind, PreemptionEvent } from './emergency';
+import { Incident, IncidentKind, IncidentSummary, INCIDENT_KINDS } from './conflicts';
+import { EmissionSummary, summarizeEmissions } from './emissions';
+import { WeatherScript, DEFAULT_WEATHER_SCRIPT } from './weather';
+import { SensorConfig, DEFAULT_SENSOR_CONFIG } from './sensors';
+import { LoggedTrip, StopState, nextStopState } from './trips';
+import { LaneConfig, DEFAULT_LANE_CONFIG } from './lanes';
+
+export type NetworkLayoutId = 'single' | 'arterial' | 'grid';
+
+export const NETWORK_LAYOUTS: Record<NetworkLayoutId, { label: string; rows: number; cols: number }> = {
+  single: { label: 'Single', rows: 1, cols: 1 },
+  arterial: { label: 'Arterial 1×3', rows: 1, cols: 3 },
+  grid: { label: 'Grid 2×2', rows: 2, cols: 2 },
+};
+
+// Tiles are spaced so a vehicle leaving one junction is exactly where the next one lets it in
+export const NODE_SPACING = { x: CANVAS_WIDTH + 2 * ENTRY_OFFSET, y: CANVAS_HEIGHT + 2 * ENTRY_OFFSET };
+
+export interface NetworkNode {
+  id: string;
+  row: number;
+  col: number;
+  sim: TrafficSimulation;
+}
+
+export interface NetworkOptions {
+  seed: number;
+  layout?: NetworkLayoutId;
+  weather?: WeatherScript;
+  sensors?: SensorConfig;
+  demand?: DemandProfile;
+  lanes?: LaneConfig;
+}
+
+export interface NetworkStepResult extends StepResult {
+  nodes: Record<string, StepResult>;
+}
+
+export interface RouteStats {
+  route: string;
+  trips: number;
+  meanTravelTime: number;
+  meanStops: number;
+}
+
+/**
+ * Something a scenario makes happen at a set time. A stall sends a truck in on
+ * one approach of one junction that breaks down `distance` px before the stop
+ * line and blocks the lane for `duration` s; a surge multiplies arrivals on the
+ * listed approaches of every junction for `duration` s.
+ */
+export type ScriptedEvent =
+  | { kind: 'stall'; at: number; duration: number; node: string; approach: Direction; distance: number }
+  | { kind: 'surge'; at: number; duration: number; approaches: Direction[]; multiplier: number };
+
+interface TripState extends StopState {
+  entry: string;
+  startedAt: number;
+}
+
+const nodeId = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Several intersections laid out on a grid of canvas-sized tiles. Each node is
+ * a full TrafficSimulation with its own signal state; the network only moves
+ * vehicles between neighbours and follows each trip from the edge of the
+ * network to where it leaves it.
+ */
+export class TrafficNetwork {
+  public nodes: NetworkNode[] = [];
+  public layout: NetworkLayoutId;
+  public vehiclesPassed = 0;
+  public seed: number;
+  private weatherScript: WeatherScript;
+  private sensors: SensorConfig;
+  private demand: DemandProfile;
+  private lanes: LaneConfig;
+  private autoSpawn = true;
+  private events: ScriptedEvent[] = [];
+  private eventsStarted = new Set<ScriptedEvent>();
+  private trips = new Map<string, TripState>();
+  private routes = new Map<string, { trips: number; travelTime: number; stops: number }>();
+
+  constructor({
+    seed, layout = 'single', weather = DEFAULT_WEATHER_SCRIPT, sensors = DEFAULT_SENSOR_CONFIG, demand = DEFAULT_DEMAND_PROFILE,
+    lanes = DEFAULT_LANE_CONFIG,
+  }: NetworkOptions) {
+    this.seed = seed;
+    this.layout = layout;
+    this.weatherScript = weather;
+    this.sensors = sensors;
+    this.demand = demand;
+    this.lanes = lanes;
+    this.build();
+  }
+
+  private build() {
+    const { rows, cols } = NETWORK_LAYOUTS[this.layout];
+    const neighbourExists = (row: number, col: number) => row >= 0 && row < rows && col >= 0 && col < cols;
+
+    this.nodes = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const downstream = (dir: Direction) => neighbourExists(row + TRAVEL[dir].y, col + TRAVEL[dir].x);
+        const upstream = (dir: Direction) => neighbourExists(row - TRAVEL[dir].y, col - TRAVEL[dir].x);
+        const index = this.nodes.length;
+        const sim = new TrafficSimulation({
+          seed: (this.seed + index * 7919) >>> 0,
+          weather: this.weatherScript,
+          sensors: this.sensors,
+          demand: this.demand,
+          center: { x: col * NODE_SPACING.x + CANVAS_WIDTH / 2, y: row * NODE_SPACING.y + CANVAS_HEIGHT / 2 },
+          externalApproaches: DIRECTIONS.filter(dir => !upstream(dir)),
+          linkedExits: DIRECTIONS.filter(downstream),
+          lanes: this.lanes,
+        });
+        sim.autoSpawn = this.autoSpawn;
+        this.nodes.push({ id: nodeId(index), row, col, sim });
+      }
+    }
+    this.vehiclesPassed = 0;
+    this.eventsStarted.clear();
+    this.trips.clear();
+    this.routes.clear();
+  }
+
+  setLayout(layout: NetworkLayoutId) {
+    this.layout = layout;
+    this.build();
+  }
+
+  reset() {
+    this.build();
+  }
+
+  // Lanes are painted into every junction, so changing them starts the network afresh
+  setLanes(lanes: LaneConfig) {
+    this.lanes = lanes;
+    this.build();
+  }
+
+  // Takes effect from the next reset, so a scenario can pin its arrivals
+  setSeed(seed: number) {
+    this.seed = seed;
+  }
+
+  // Replayed from time zero after every reset
+  setEvents(events: ScriptedEvent[]) {
+    this.events = events;
+    this.eventsStarted.clear();
+  }
+
+  // World-space size of the whole network, for the view box
+  get bounds() {
+    const { rows, cols } = NETWORK_LAYOUTS[this.layout];
+    return { width: (cols - 1) * NODE_SPACING.x + CANVAS_WIDTH, height: (rows - 1) * NODE_SPACING.y + CANVAS_HEIGHT };
+  }
+
+  get time() { return this.nodes[0].sim.time; }
+  get hourOfDay() { return clockHour(this.demand, this.time); }
+  get awaitingDecision() { return this.nodes.some(n => n.sim.awaitingDecision); }
+  get weather() { return this.nodes[0].sim.weather; }
+  get weatherEffects() { return this.nodes[0].sim.weatherEffects; }
+  get totalEmissions() { return this.nodes.reduce((sum, n) => sum + n.sim.totalEmissions, 0); }
+  get vehicles() { return this.nodes.flatMap(n => n.sim.vehicles); }
+  get pedestrians() { return this.nodes.flatMap(n => n.sim.crossings.pedestrians); }
+
+  getNode(id: string) {
+    return this.nodes.find(n => n.id === id) || this.nodes[0];
+  }
+
+  // Every junction plays the same script, so the whole network shares one sky
+  setWeather(weather: WeatherScript) {
+    this.weatherScript = weather;
+    this.nodes.forEach(n => n.sim.setWeather(weather));
+  }
+
+  setSensors(config: SensorConfig) {
+    this.sensors = config;
+    this.nodes.forEach(n => n.sim.sensors.configure(config));
+  }
+
+  setDemand(profile: DemandProfile) {
+    this.demand = profile;
+    this.nodes.forEach(n => n.sim.setDemand(profile));
+  }
+
+  setAutoSpawn(autoSpawn: boolean) {
+    this.autoSpawn = autoSpawn;
+    this.nodes.forEach(n => { n.sim.autoSpawn = autoSpawn; });
+  }
+
+  spawnEmergency(nodeId: string, dir: Direction, kind: EmergencyKind) {
+    this.getNode(nodeId).sim.spawnEmergency(dir, kind);
+  }
+
+  // Every junction's preemption log, tagged with the junction it happened at
+  getPreemptionEvents(): (PreemptionEvent & { node: string })[] {
+    return this.nodes
+      .flatMap(n => n.sim.preemptionEvents.map(event => ({ ...event, node: n.id })))
+      .sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+
+  // Every junction's incident log, tagged with the junction it happened at
+  getIncidents(): (Incident & { node: string })[] {
+    return this.nodes
+      .flatMap(n => n.sim.conflicts.incidents.map(incident => ({ ...incident, node: n.id })))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  // Incident counts over all junctions, with the closest near misses anywhere
+  getIncidentSummary(): IncidentSummary {
+    const summaries = this.nodes.map(n => n.sim.conflicts.getSummary());
+    const closest = (values: (number | null)[]) => {
+      const known = values.filter((v): v is number => v !== null);
+      return known.length ? Math.min(...known) : null;
+    };
+    const counts = {} as Record<IncidentKind, number>;
+    INCIDENT_KINDS.forEach(kind => { counts[kind] = summaries.reduce((sum, s) => sum + s.counts[kind], 0); });
+    return {
+      counts,
+      conflicts: summaries.reduce((sum, s) => sum + s.conflicts, 0),
+      minTTC: closest(summaries.map(s => s.minTTC)),
+      minPET: closest(summaries.map(s => s.minPET)),
+    };
+  }
+
+  // Every junction's completed trips, tagged with the junction and in the order they finished
+  getTrips(): LoggedTrip[] {
+    return this.nodes
+      .flatMap(n => n.sim.tripLog.trips.map(trip => ({ ...trip, node: n.id })))
+      .sort((a, b) => a.completedAt - b.completedAt);
+  }
+
+  // Trips completed since the reset, counting any that have dropped out of the logs
+  get completedTrips() { return this.nodes.reduce((sum, n) => sum + n.sim.tripLog.total, 0); }
+
+  // Emissions over all junctions; a trip counts once, where the vehicle finally leaves the network
+  getEmissionSummary(): EmissionSummary {
+    return summarizeEmissions(this.nodes.map(n => n.sim.emissionLedger));
+  }
+
+  step(dt: number = FIXED_DT): NetworkStepResult {
+    this.runEvents();
+    const results: Record<string, StepResult> = {};
+    this.nodes.forEach(node => { results[node.id] = node.sim.step(dt); });
+
+    const total: NetworkStepResult = {
+      emissions: 0, exited: 0, waitTime: 0, timerExpired: false, handoffs: [], departed: [], nodes: results,
+    };
+    this.nodes.forEach(node => {
+      const result = results[node.id];
+      total.emissions += result.emissions;
+      total.waitTime += result.waitTime;
+      total.timerExpired = total.timerExpired || result.timerExpired;
+      total.exited += result.departed.length;
+      total.departed.push(...result.departed);
+      result.handoffs.forEach(v => {
+        const next = this.nodes.find(n => n.row === node.row + TRAVEL[v.dir].y && n.col === node.col + TRAVEL[v.dir].x);
+        next?.sim.receive(v.dir, v);
+      });
+      result.departed.forEach(v => this.closeTrip(v.id, `${node.id}${v.dir}`));
+    });
+
+    this.trackStops();
+    this.vehiclesPassed += total.exited;
+    return total;
+  }
+
+  // Sets this step's demand surges and sends in the trucks of any stall that is due
+  private runEvents() {
+    const time = this.time;
+    const surge = { N: 1, S: 1, E: 1, W: 1 };
+    this.events.forEach(event => {
+      if (event.kind === 'surge') {
+        if (time >= event.at && time < event.at + event.duration) event.approaches.forEach(dir => { surge[dir] *= event.multiplier; });
+      } else if (time >= event.at && !this.eventsStarted.has(event)) {
+        this.eventsStarted.add(event);
+        this.nodes.find(n => n.id === event.node)?.sim.spawnBreakdown(event.approach, event.distance, event.duration);
+      }
+    });
+    this.nodes.forEach(n => { n.sim.demandSurge = surge; });
+  }
+
+  // Opens trips for vehicles entering the network and counts each time one comes to a halt
+  private trackStops() {
+    this.nodes.forEach(node => node.sim.vehicles.forEach(v => {
+      let trip = this.trips.get(v.id);
+      if (!trip) {
+        trip = { entry: `${node.id}${v.origin}`, startedAt: this.time, stops: 0, stopped: false };
+        this.trips.set(v.id, trip);
+      }
+      Object.assign(trip, nextStopState(trip, v.currentSpeed || 0, v.maxSpeed));
+    }));
+  }
+
+  private closeTrip(id: string, exit: string) {
+    const trip = this.trips.get(id);
+    if (!trip) return;
+    this.trips.delete(id);
+    const route = `${trip.entry} → ${exit}`;
+    const stats = this.routes.get(route) || { trips: 0, travelTime: 0, stops: 0 };
+    stats.trips++;
+    stats.travelTime += this.time - trip.startedAt;
+    stats.stops += trip.stops;
+    this.routes.set(route, stats);
+  }
+
+  // Routes are named by entry and exit approach, e.g. "AE → CE" for a trip along the whole arterial
+  getRouteStats(): RouteStats[] {
+    return [...this.routes.entries()]
+      .map(([route, stats]) => ({
+        route, trips: stats.trips,
+        meanTravelTime: stats.travelTime / stats.trips,
+        meanStops: stats.stops / stats.trips,
+      }))
+      .sort((a, b) => b.trips - a.trips);
+  }
+}
@@ -0,0 +1,76 @@
+import { TrafficSide, Phase } from '../types';
+import { MAX_GREEN_TIME, WEATHER } from '../constants';
+import { TrafficSimulation, DIRECTIONS } from './simulation';
+import { SIDE_DIRECTIONS, isLeftStage } from './signalPlan';
+import { PREEMPTION_DETECTION_RANGE } from './emergency';
+
+export const STATE_SIZE = 25;
+
+// Display names for each observation slot, in buildObservation order
+export const FEATURE_LABELS = [
+  'NS Queue', 'EW Queue', 'NS Stopped', 'EW Stopped', 'NS Active', 'Phase', 'Timer', 'Avg Speed',
+  'Weather Factor', 'Max Wait', 'Queue Imbalance', 'Total Stopped', 'NS Left Queue', 'EW Left Queue',
+  'Left Stage', 'NS Emergency', 'EW Emergency',
+  'N Kerb Lane', 'N Centre Lane', 'S Kerb Lane', 'S Centre Lane',
+  'E Kerb Lane', 'E Centre Lane', 'W Kerb Lane', 'W Centre Lane',
+];
+
+const normalizeValue = (value: number, max: number) => Math.min(Math.max(value / max, 0), 1);
+
+/**
+ * The 25-feature observation the DQN sees at every decision point. Traffic
+ * features come from the junction's detectors, with their noise, dropouts and
+ * latency; the signal state is the controller's own. Emergency proximity comes
+ * from the preemption receivers, which report directly. Lane queues run
+ * kerb then centre per approach, the centre zero where there is one lane.
+ */
+export const buildObservation = (sim: TrafficSimulation): number[] => {
+  const readings = sim.sensors.readings();
+  const queues = { N: 0, S: 0, E: 0, W: 0 };
+  const lefts = { N: 0, S: 0, E: 0, W: 0 };
+  const stopped = { N: 0, S: 0, E: 0, W: 0 };
+  // Proximity (1 = at the stop line) of the nearest emergency vehicle on each side
+  const emergency = { [TrafficSide.NS]: 0, [TrafficSide.EW]: 0 };
+  const laneQueues: number[] = [];
+  let avgSpeed = 0, speedSamples = 0, maxWait = 0;
+
+  DIRECTIONS.forEach(dir => {
+    const reading = readings[dir];
+    queues[dir] = reading.queued;
+    lefts[dir] = reading.lefts;
+    stopped[dir] = reading.stopped;
+    laneQueues.push(normalizeValue(reading.lanes[0] ?? 0, 10), normalizeValue(reading.lanes[1] ?? 0, 10));
+    maxWait = Math.max(maxWait, reading.maxWait);
+    if (reading.meanSpeed !== null) {
+      avgSpeed += reading.meanSpeed * Math.max(1, reading.queued);
+      speedSamples += Math.max(1, reading.queued);
+    }
+  });
+
+  sim.vehicles.forEach(veh => {
+    const distance = sim.distanceToStopLine(veh);
+    if (veh.emergency && !veh.passed && distance >= 0) {
+      const side = SIDE_DIRECTIONS[TrafficSide.NS].includes(veh.dir) ? TrafficSide.NS : TrafficSide.EW;
+      emergency[side] = Math.max(emergency[side], 1 - normalizeValue(distance, PREEMPTION_DETECTION_RANGE * 2));
+    }
+  });
+
+  avgSpeed /= speedSamples || 1;
+  const nsQueue = queues.N + queues.S;
+  const ewQueue = queues.E + queues.W;
+
+  return [
+    normalizeValue(nsQueue, 20), normalizeValue(ewQueue, 20),
+    normalizeValue(stopped.N + stopped.S, 20), normalizeValue(stopped.E + stopped.W, 20),
+    sim.activeSide === TrafficSide.NS ? 1 : 0,
+    sim.phase === Phase.GREEN ? 1 : sim.phase === Phase.YELLOW ? 0.5 : 0,
+    normalizeValue(sim.timer, MAX_GREEN_TIME), normalizeValue(avgSpeed, 5),
+    WEATHER[sim.weather].factor, normalizeValue(maxWait, 100),
+    normalizeValue(Math.abs(nsQueue - ewQueue), 20),
+    normalizeValue(Object.values(stopped).reduce((a,b) => a+b, 0), 40),
+    normalizeValue(lefts.N + lefts.S, 10), normalizeValue(lefts.E + lefts.W, 10),
+    isLeftStage(sim.stage) ? 1 : 0,
+    emergency[TrafficSide.NS], emergency[TrafficSide.EW],
+    ...laneQueues,
+  ];
+};
@@ -0,0 +1,206 @@
+import { Phase } from '../types';
+import { TrafficSimulation } from './simulation';
+import { ControllerId, CONTROLLER_IDS } from './controllers';
+import {
+  SignalStage, SignalMode, STAGE_LABELS, SIGNAL_MODE_LABELS, ACTION_SWITCH, ACTION_SWITCH_SKIP_LEFT, ACTION_EXTEND_SHORT,
+  stageAfter, isLeftStage
+} from './signalPlan';
+import { downloadTextFile } from './fileIO';
+
+// --- Manual Overrides ---
+export type ManualOverride =
+  | { kind: 'hold'; stage: SignalStage }
+  | { kind: 'mode'; mode: Exclude<SignalMode, 'normal'> };
+
+export const describeOverride = (override: ManualOverride | null): string => {
+  if (!override) return 'Automatic';
+  return override.kind === 'hold' ? `Hold ${STAGE_LABELS[override.stage]}` : SIGNAL_MODE_LABELS[override.mode];
+};
+
+// The action that moves the ring toward `target`, skipping any protected left that is not the target
+export const actionToward = (sim: TrafficSimulation, target: SignalStage): number => {
+  if (sim.stage === target) return ACTION_EXTEND_SHORT;
+  const next = stageAfter(sim.stage);
+  return next === target || !isLeftStage(next) ? ACTION_SWITCH : ACTION_SWITCH_SKIP_LEFT;
+};
+
+// --- Time-of-Day Plans ---
+export type PlanId = ControllerId | Exclude<SignalMode, 'normal'>;
+
+export const PLAN_IDS: PlanId[] = [...CONTROLLER_IDS, 'flash', 'allRed'];
+
+export const isModePlan = (plan: PlanId): plan is Exclude<SignalMode, 'normal'> => plan === 'flash' || plan === 'allRed';
+
+// Runs `plan` from `from` up to `to` on the demand clock; a window may wrap past midnight
+export interface PlanWindow {
+  from: number;   // hour of day
+  to: number;
+  plan: PlanId;
+}
+
+export const DEFAULT_PLAN_SCHEDULE: PlanWindow[] = [];
+
+// The plan in force at `hour`, or null when the selected controller runs; later windows win
+export const scheduledPlan = (schedule: PlanWindow[], hour: number): PlanId | null => {
+  let plan: PlanId | null = null;
+  schedule.forEach(window => {
+    const inside = window.from <= window.to
+      ? hour >= window.from && hour < window.to
+      : hour >= window.from || hour < window.to;
+    if (inside) plan = window.plan;
+  });
+  return plan;
+};
+
+// --- Audit Log ---
+export type AuditAction = 'hold' | 'forceChange' | 'mode' | 'release' | 'schedule' | 'plan';
+
+export interface AuditEntry {
+  at: string;       // wall-clock ISO time the entry was written
+  time: number;     // s of simulated time
+  node: string;     // '*' for the whole network
+  action: AuditAction;
+  detail: string;
+}
+
+const MAX_AUDIT_ENTRIES = 500;
+
+/**
+ * Everything an operator does to the signals, on top of whatever controller is
+ * running. Manual overrides are per junction and beat the time-of-day
+ * schedule, which beats the controller picked in the header. The shield still
+ * has the final say over every action, so a hold is cut at max green and a
+ * forced change waits for min green. Every intervention is audited, and the
+ * audit outlives resets.
+ */
+export class OperatorConsole {
+  public overrides: Record<string, ManualOverride> = {};
+  public schedule: PlanWindow[] = DEFAULT_PLAN_SCHEDULE;
+  public plan: PlanId | null = null;      // what the schedule has in force right now
+  public audit: AuditEntry[] = [];
+  private pendingChanges = new Set<string>();
+
+  reset() {
+    this.overrides = {};
+    this.plan = null;
+    this.pendingChanges.clear();
+  }
+
+  private log(time: number, node: string, action: AuditAction, detail: string) {
+    this.audit = [
+      ...this.audit.slice(-(MAX_AUDIT_ENTRIES - 1)),
+      { at: new Date().toISOString(), time, node, action, detail },
+    ];
+  }
+
+  // The mode the junction runs in when nobody has taken it over by hand
+  private automaticMode(): SignalMode {
+    return this.plan && isModePlan(this.plan) ? this.plan : 'normal';
+  }
+
+  hold(sim: TrafficSimulation, node: string, stage: SignalStage) {
+    this.overrides[node] = { kind: 'hold', stage };
+    this.pendingChanges.delete(node);
+    sim.setMode('normal');
+    if (sim.phase === Phase.GREEN && sim.stage !== stage) sim.timer = 0;
+    this.log(sim.time, node, 'hold', STAGE_LABELS[stage]);
+  }
+
+  // Ends the current green at the next moment the shield allows
+  forceChange(sim: TrafficSimulation, node: string) {
+    this.pendingChanges.add(node);
+    if (sim.phase === Phase.GREEN) sim.timer = 0;
+    this.log(sim.time, node, 'forceChange', `from ${STAGE_LABELS[sim.stage]}`);
+  }
+
+  setMode(sim: TrafficSimulation, node: string, mode: Exclude<SignalMode, 'normal'>) {
+    this.overrides[node] = { kind: 'mode', mode };
+    this.pendingChanges.delete(node);
+    sim.setMode(mode);
+    this.log(sim.time, node, 'mode', SIGNAL_MODE_LABELS[mode]);
+  }
+
+  release(sim: TrafficSimulation, node: string) {
+    const previous = this.overrides[node] || null;
+    delete this.overrides[node];
+    this.pendingChanges.delete(node);
+    sim.setMode(this.automaticMode());
+    this.log(sim.time, node, 'release', describeOverride(previous));
+  }
+
+  setSchedule(schedule: PlanWindow[], time: number) {
+    if (JSON.stringify(schedule) === JSON.stringify(this.schedule)) return;
+    this.schedule = schedule;
+    this.log(time, '*', 'schedule', schedule.length ? schedule.map(w => `${w.plan} ${w.from}-${w.to}h`).join(', ') : 'cleared');
+  }
+
+  /**
+   * Brings the junctions into line with the schedule at `hour`. Returns true
+   * when the plan changed, so the caller can treat the handover as off-policy.
+   */
+  applySchedule(nodes: { id: string; sim: TrafficSimulation }[], hour: number, time: number): boolean {
+    const plan = scheduledPlan(this.schedule, hour);
+    if (plan === this.plan) return false;
+    this.plan = plan;
+    this.log(time, '*', 'plan', plan ? `${plan} from ${hour.toFixed(2)}h` : `selected controller from ${hour.toFixed(2)}h`);
+    const mode = this.automaticMode();
+    nodes.forEach(({ id, sim }) => {
+      if (!this.overrides[id]) sim.setMode(mode);
+    });
+    return true;
+  }
+
+  // The controller that should decide, given the one picked in the header
+  controllerFor(selected: ControllerId): ControllerId {
+    return this.plan && !isModePlan(this.plan) ? this.plan : selected;
+  }
+
+  /**
+   * The operator's action for a junction owing a decision, or null when the
+   * controller decides. Only greens are steered; a forced change is spent
+   * once the green has ended.
+   */
+  manualAction(sim: TrafficSimulation, node: string): number | null {
+    if (sim.phase !== Phase.GREEN) {
+      this.pendingChanges.delete(node);
+      return null;
+    }
+    if (this.pendingChanges.has(node)) return ACTION_SWITCH;
+    const override = this.overrides[node];
+    return override?.kind === 'hold' ? actionToward(sim, override.stage) : null;
+  }
+}
+
+// --- Export ---
+export const exportAuditLog = (audit: AuditEntry[], format: 'csv' | 'json') => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  if (format === 'json') {
+    downloadTextFile(`operator-audit-${stamp}.json`, JSON.stringify(audit, null, 2));
+    return;
+  }
+  const lines = audit.map(e => [e.at, e.time.toFixed(1), e.node, e.action, `"${e.detail.replace(/"/g, '""')}"`].join(','));
+  downloadTextFile(`operator-audit-${stamp}.csv`, ['at,sim_time_s,node,action,detail', ...lines].join('\n'), 'text/csv');
+};
+
+// --- Saved Schedule ---
+const SCHEDULE_STORAGE_KEY = 'neural-traffic:plan-schedule';
+
+const clampHour = (hour: number) => Math.max(0, Math.min(24, hour));
+
+export const normalizePlanSchedule = (schedule: PlanWindow[]): PlanWindow[] =>
+  schedule
+    .filter(window => PLAN_IDS.includes(window.plan) && Number.isFinite(window.from) && Number.isFinite(window.to))
+    .map(window => ({ ...window, from: clampHour(window.from), to: clampHour(window.to) }));
+
+export const loadPlanSchedule = (): PlanWindow[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SCHEDULE_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? normalizePlanSchedule(stored) : DEFAULT_PLAN_SCHEDULE;
+  } catch {
+    return DEFAULT_PLAN_SCHEDULE;
+  }
+};
+
+export const savePlanSchedule = (schedule: PlanWindow[]) => {
+  localStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+};
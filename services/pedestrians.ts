@@ -0,0 +1,162 @@
+import { Direction, Phase } from '../types';
+import { ROAD_WIDTH } from '../constants';
+import { SeededRandom } from './random';
+import { Vec, STOP_LINE_OFFSET, toScreen } from './geometry';
+import { SignalStage } from './signalPlan';
+
+export type WalkSignal = 'walk' | 'clearance' | 'dontWalk';
+
+export const CROSSWALK_OFFSET = STOP_LINE_OFFSET + 25;   // centre of each crosswalk band from the junction centre
+export const CROSSWALK_WIDTH = 40;
+const KERB_MARGIN = 8;
+export const CROSSING_LENGTH = ROAD_WIDTH + 2 * KERB_MARGIN;
+const WALK_SPEED = 12;                                 // px per simulated second, about 1.2 m/s
+export const WALK_TIME = 7;
+export const CLEARANCE_TIME = Math.ceil(CROSSING_LENGTH / WALK_SPEED);
+const VEHICLE_STOP_GAP = 10;                           // px kept clear of a pedestrian on top of the vehicle's own minimum gap
+const PEDESTRIAN_LOOKAHEAD = 150;                      // px ahead within which vehicles brake for pedestrians
+const LANE_HALF_WIDTH = 22;
+
+const LEGS = [Direction.N, Direction.S, Direction.E, Direction.W];
+
+// The crosswalk on a leg crosses that leg's road, so it walks alongside the other road's through stage
+export const WALK_STAGE: Record<Direction, SignalStage> = {
+  N: 'EW_THROUGH', S: 'EW_THROUGH', E: 'NS_THROUGH', W: 'NS_THROUGH',
+};
+
+/**
+ * A pedestrian at one crosswalk. `leg` is the approach whose road the
+ * crosswalk spans and `from` the kerb (in the approach frame's d axis) the
+ * pedestrian starts on.
+ */
+export interface Pedestrian {
+  id: string;
+  leg: Direction;
+  from: 1 | -1;
+  lateral: number;     // offset within the band so waiting pedestrians don't stack
+  progress: number;    // px walked from the kerb
+  crossing: boolean;
+  waiting: number;
+  x: number;
+  y: number;
+}
+
+export interface CrosswalkState {
+  signal: WalkSignal;
+  timer: number;
+  called: boolean;
+}
+
+export interface PedestrianStats {
+  waiting: Record<Direction, number>;
+  crossed: number;
+  meanWait: number;
+  maxWait: number;
+}
+
+const idleCrosswalks = (): Record<Direction, CrosswalkState> => ({
+  N: { signal: 'dontWalk', timer: 0, called: false }, S: { signal: 'dontWalk', timer: 0, called: false },
+  E: { signal: 'dontWalk', timer: 0, called: false }, W: { signal: 'dontWalk', timer: 0, called: false },
+});
+
+/**
+ * Pedestrian arrivals, push-button calls and walk signals at the four
+ * crosswalks of one junction. A call is served at the next green of the
+ * crosswalk's walk stage: walk for WALK_TIME, then flashing don't-walk long
+ * enough to finish crossing. Ending the green early cuts walk short, but the
+ * clearance interval always runs in full.
+ */
+export class PedestrianModel {
+  public pedestrians: Pedestrian[] = [];
+  public crosswalks = idleCrosswalks();
+  public crossed = 0;
+  public totalWait = 0;
+  public maxWait = 0;
+
+  constructor(private rng: SeededRandom, private center: Vec) {}
+
+  reset(rng: SeededRandom) {
+    this.rng = rng;
+    this.pedestrians = [];
+    this.crosswalks = idleCrosswalks();
+    this.crossed = 0;
+    this.totalWait = 0;
+    this.maxWait = 0;
+  }
+
+  // `rate` is pedestrians per hour per crosswalk; zero skips the draws entirely
+  arrivals(rate: number, dt: number) {
+    if (!(rate > 0)) return;
+    LEGS.forEach(leg => {
+      if (this.rng.next() >= (rate / 3600) * dt) return;
+      const pedestrian: Pedestrian = {
+        id: this.rng.id(), leg, from: this.rng.next() < 0.5 ? 1 : -1,
+        lateral: (this.rng.next() - 0.5) * (CROSSWALK_WIDTH - 16),
+        progress: 0, crossing: false, waiting: 0, x: 0, y: 0,
+      };
+      this.pedestrians.push(this.place(pedestrian));
+    });
+  }
+
+  step(dt: number, stage: SignalStage, phase: Phase, preempted: boolean) {
+    LEGS.forEach(leg => {
+      const crosswalk = this.crosswalks[leg];
+      const walkGreen = stage === WALK_STAGE[leg] && phase === Phase.GREEN && !preempted;
+      const called = crosswalk.called || this.pedestrians.some(p => p.leg === leg && !p.crossing);
+      const timer = crosswalk.timer - dt;
+
+      if (crosswalk.signal === 'dontWalk' && called && walkGreen) {
+        this.crosswalks[leg] = { signal: 'walk', timer: WALK_TIME, called: false };
+      } else if (crosswalk.signal === 'walk') {
+        this.crosswalks[leg] = timer <= 0 || !walkGreen
+          ? { signal: 'clearance', timer: CLEARANCE_TIME, called }
+          : { signal: 'walk', timer, called };
+      } else if (crosswalk.signal === 'clearance') {
+        this.crosswalks[leg] = { signal: timer <= 0 ? 'dontWalk' : 'clearance', timer: Math.max(0, timer), called };
+      } else {
+        this.crosswalks[leg] = { ...crosswalk, called };
+      }
+    });
+
+    this.pedestrians = this.pedestrians.flatMap(p => {
+      if (!p.crossing && this.crosswalks[p.leg].signal !== 'walk') return [{ ...p, waiting: p.waiting + dt }];
+      if (!p.crossing) {
+        this.crossed++;
+        this.totalWait += p.waiting;
+        this.maxWait = Math.max(this.maxWait, p.waiting);
+      }
+      const moved = this.place({ ...p, crossing: true, progress: p.progress + WALK_SPEED * dt });
+      return moved.progress < CROSSING_LENGTH ? [moved] : [];
+    });
+  }
+
+  // Free distance in px to the nearest crossing pedestrian standing in the vehicle's lane ahead, or null
+  gapAhead(x: number, y: number, angle: number, length: number): number | null {
+    const heading = { x: Math.cos((angle * Math.PI) / 180), y: Math.sin((angle * Math.PI) / 180) };
+    let gap: number | null = null;
+    for (const p of this.pedestrians) {
+      if (!p.crossing) continue;
+      const rx = p.x - x, ry = p.y - y;
+      const ahead = rx * heading.x + ry * heading.y;
+      const lateral = Math.abs(rx * heading.y - ry * heading.x);
+      if (ahead <= 0 || ahead > PEDESTRIAN_LOOKAHEAD || lateral >= LANE_HALF_WIDTH) continue;
+      const free = ahead - length / 2 - VEHICLE_STOP_GAP;
+      gap = gap === null ? free : Math.min(gap, free);
+    }
+    return gap;
+  }
+
+  getStats(): PedestrianStats {
+    const waiting = { N: 0, S: 0, E: 0, W: 0 };
+    this.pedestrians.forEach(p => { if (!p.crossing) waiting[p.leg]++; });
+    return {
+      waiting, crossed: this.crossed,
+      meanWait: this.crossed > 0 ? this.totalWait / this.crossed : 0, maxWait: this.maxWait,
+    };
+  }
+
+  private place(p: Pedestrian): Pedestrian {
+    const d = p.from * (CROSSING_LENGTH / 2 - p.progress);
+    return { ...p, ...toScreen(p.leg, -CROSSWALK_OFFSET + p.lateral, d, this.center) };
+  }
+}
@@ -0,0 +1,35 @@
+// Seedable pseudo-random source (mulberry32). The same seed always yields the
+// same sequence, which keeps simulation runs reproducible.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  id(): string {
+    return Math.floor(this.next() * 36 ** 9).toString(36).padStart(9, '0');
+  }
+}
+
+export const createSeed = () => Math.floor(Math.random() * 4294967296);
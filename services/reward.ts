@@ -0,0 +1,153 @@
+import { REWARDS } from '../constants';
+import { TrafficSimulation } from './simulation';
+import { SignalStage } from './signalPlan';
+
+export type RewardTermId =
+  'throughput' | 'queue' | 'emissions' | 'maxWait' | 'phaseSwitch' | 'stops' | 'fairness' | 'pedestrianDelay' |
+  'conflicts' | 'redLight';
+
+export const REWARD_TERM_IDS: RewardTermId[] = [
+  'throughput', 'queue', 'emissions', 'maxWait', 'phaseSwitch', 'stops', 'fairness', 'pedestrianDelay',
+  'conflicts', 'redLight',
+];
+
+export const REWARD_TERMS: Record<RewardTermId, { label: string; unit: string; color: string }> = {
+  throughput:      { label: 'Throughput',       unit: 'per vehicle passed',           color: '#10b981' },
+  queue:           { label: 'Queue',            unit: 'per queued vehicle',           color: '#f43f5e' },
+  emissions:       { label: 'Emissions',        unit: 'per g CO₂',                    color: '#a3a3a3' },
+  maxWait:         { label: 'Max Wait',         unit: 'per s of longest wait',        color: '#f59e0b' },
+  phaseSwitch:     { label: 'Phase Switch',     unit: 'per stage change',             color: '#818cf8' },
+  stops:           { label: 'Stops',            unit: 'per vehicle coming to a halt', color: '#fb7185' },
+  fairness:        { label: 'Fairness',         unit: 'per vehicle of queue spread',  color: '#22d3ee' },
+  pedestrianDelay: { label: 'Pedestrian Delay', unit: 'per waiting pedestrian',       color: '#fde68a' },
+  conflicts:       { label: 'Conflicts',        unit: 'per collision or near miss',   color: '#ef4444' },
+  redLight:        { label: 'Red Light',        unit: 'per red-light violation',      color: '#e879f9' },
+};
+
+export interface RewardTermConfig {
+  enabled: boolean;
+  weight: number;
+}
+
+export type RewardConfig = Record<RewardTermId, RewardTermConfig>;
+export type RewardBreakdown = Record<RewardTermId, number>;
+
+// The original objective stays the default; the extra terms start disabled with usable weights
+export const DEFAULT_REWARD_CONFIG: RewardConfig = {
+  throughput:      { enabled: true,  weight: REWARDS.VEHICLE_PASSED },
+  queue:           { enabled: true,  weight: REWARDS.QUEUE_PENALTY },
+  emissions:       { enabled: true,  weight: REWARDS.EMISSION_PENALTY },
+  maxWait:         { enabled: false, weight: -0.1 },
+  phaseSwitch:     { enabled: false, weight: -5 },
+  stops:           { enabled: false, weight: -1 },
+  fairness:        { enabled: false, weight: -0.5 },
+  pedestrianDelay: { enabled: false, weight: REWARDS.QUEUE_PENALTY },
+  conflicts:       { enabled: false, weight: -20 },
+  redLight:        { enabled: false, weight: -10 },
+};
+
+/**
+ * What the reward remembers between decisions: which vehicles were already
+ * credited for passing, which were already counted as stopped, the stage at
+ * the previous decision and how many incidents had been logged by then.
+ */
+export interface RewardTracker {
+  passedIds: Set<string>;
+  stoppedIds: Set<string>;
+  lastStage: SignalStage | null;
+  conflictsSeen: number;
+  violationsSeen: number;
+}
+
+export const createRewardTracker = (): RewardTracker => ({
+  passedIds: new Set(), stoppedIds: new Set(), lastStage: null, conflictsSeen: 0, violationsSeen: 0,
+});
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Raw measurement behind each term for the interval since the previous decision
+const measureTerms = (sim: TrafficSimulation, tracker: RewardTracker, stepEmissions: number): RewardBreakdown => {
+  let passed = 0, newStops = 0, maxWait = 0;
+  const stopped = new Set<string>();
+
+  sim.vehicles.forEach(vehicle => {
+    if (vehicle.passed && !tracker.passedIds.has(vehicle.id)) {
+      passed++;
+      tracker.passedIds.add(vehicle.id);
+    }
+    if (vehicle.isStopping) {
+      stopped.add(vehicle.id);
+      if (!tracker.stoppedIds.has(vehicle.id)) newStops++;
+    }
+    if (!vehicle.passed) maxWait = Math.max(maxWait, vehicle.waiting || 0);
+  });
+  tracker.stoppedIds = stopped;
+
+  const switched = tracker.lastStage !== null && tracker.lastStage !== sim.stage ? 1 : 0;
+  tracker.lastStage = sim.stage;
+
+  // The incident log restarts with the simulation, so a count below the last one seen is all new
+  const incidents = sim.conflicts.getSummary();
+  const since = (count: number, seen: number) => count >= seen ? count - seen : count;
+  const conflicts = since(incidents.conflicts, tracker.conflictsSeen);
+  const violations = since(incidents.counts.redLight, tracker.violationsSeen);
+  tracker.conflictsSeen = incidents.conflicts;
+  tracker.violationsSeen = incidents.counts.redLight;
+
+  const queues = Object.values(sim.getQueueCounts());
+  return {
+    throughput: passed,
+    queue: sum(queues),
+    emissions: stepEmissions,
+    maxWait,
+    phaseSwitch: switched,
+    stops: newStops,
+    fairness: Math.max(...queues) - Math.min(...queues),
+    pedestrianDelay: sum(Object.values(sim.crossings.getStats().waiting)),
+    conflicts,
+    redLight: violations,
+  };
+};
+
+/**
+ * Reward for the interval since the previous decision, split by term. Disabled
+ * terms are reported as zero so the breakdown always sums to the reward.
+ */
+export const computeRewardBreakdown = (
+  sim: TrafficSimulation, tracker: RewardTracker, stepEmissions: number, config: RewardConfig = DEFAULT_REWARD_CONFIG
+): RewardBreakdown => {
+  const measured = measureTerms(sim, tracker, stepEmissions);
+  const breakdown = {} as RewardBreakdown;
+  REWARD_TERM_IDS.forEach(id => {
+    breakdown[id] = config[id].enabled ? config[id].weight * measured[id] : 0;
+  });
+  return breakdown;
+};
+
+export const totalReward = (breakdown: RewardBreakdown) => sum(Object.values(breakdown));
+
+export const computeReward = (
+  sim: TrafficSimulation, tracker: RewardTracker, stepEmissions: number, config: RewardConfig = DEFAULT_REWARD_CONFIG
+): number => totalReward(computeRewardBreakdown(sim, tracker, stepEmissions, config));
+
+// --- Saved Configuration ---
+const CONFIG_STORAGE_KEY = 'neural-traffic:reward-config';
+
+// Terms added after a config was saved come in with their defaults
+export const loadRewardConfig = (): RewardConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+    const config = { ...DEFAULT_REWARD_CONFIG };
+    REWARD_TERM_IDS.forEach(id => {
+      const term = stored?.[id];
+      if (term && typeof term.enabled === 'boolean' && Number.isFinite(term.weight)) config[id] = term;
+    });
+    return config;
+  } catch {
+    return DEFAULT_REWARD_CONFIG;
+  }
+};
+
+export const saveRewardConfig = (config: RewardConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Phase } from '../types';
+import { TrafficSimulation, FIXED_DT } from './simulation';
+import { SafetyShield, ShieldConfig, DEFAULT_SHIELD_CONFIG } from './safetyShield';
+import { SignalStage, ACTION_EXTEND_LONG, ACTION_SWITCH_SKIP_LEFT, movementSignal } from './signalPlan';
+import { BUILT_IN_DEMAND_PROFILES } from './demand';
+import { LaneConfig, DEFAULT_LANE_CONFIG } from './lanes';
+
+const EPISODE = 1800;      // s simulated per run
+const TOLERANCE = 0.05;    // s; a phase ends on the first step past its timer
+const WITH_TURNS = BUILT_IN_DEMAND_PROFILES.find(p => p.name === 'Uniform with Turns')!;
+
+// A lower max wait than the default so the always-extend controller starves someone within the run
+const CONFIG: ShieldConfig = { ...DEFAULT_SHIELD_CONFIG, maxWait: 45 };
+
+interface PhaseRun {
+  phase: Phase;
+  stage: SignalStage;
+  start: number;
+  end: number;
+}
+
+interface ShieldRun {
+  phases: PhaseRun[];
+  starved: number;         // vehicles whose wait reached `maxWait`
+  longestService: number;  // s from reaching `maxWait` to a green that gives the vehicle right of way
+}
+
+// The green running when a vehicle starts starving may already be extended to `maxGreen`; every
+// other stage in the ring then runs at its minimum before the starving stage comes round
+const longestBound = ({ minGreen, maxGreen, minYellow, allRed }: ShieldConfig) =>
+  maxGreen + 3 * minGreen + 4 * (minYellow + allRed) + TOLERANCE;
+
+// Drives a junction where the controller asks for the same action at every decision and the shield decides the rest
+const runShielded = (config: ShieldConfig, requested: number, lanes: LaneConfig = DEFAULT_LANE_CONFIG): ShieldRun => {
+  const sim = new TrafficSimulation({ seed: 7, demand: WITH_TURNS, lanes });
+  const shield = new SafetyShield(config);
+  const phases: PhaseRun[] = [];
+  const waitingSince = new Map<string, number>();
+  let current = { phase: sim.phase, stage: sim.stage, start: sim.time };
+  let starved = 0, longestService = 0;
+
+  while (sim.time < EPISODE) {
+    if (sim.awaitingDecision) {
+      sim.applySignal(shield.apply(sim, requested).signal);
+      if (sim.phase !== current.phase || sim.stage !== current.stage) {
+        phases.push({ ...current, end: sim.time });
+        current = { phase: sim.phase, stage: sim.stage, start: sim.time };
+      }
+      continue;
+    }
+
+    sim.step(FIXED_DT);
+    const present = new Set<string>();
+    sim.vehicles.forEach(v => {
+      present.add(v.id);
+      const served = v.passed || movementSignal(sim.stage, sim.phase, v.dir, v.movement) === 'protected';
+      const since = waitingSince.get(v.id);
+      if (since !== undefined && served) {
+        longestService = Math.max(longestService, sim.time - since);
+        waitingSince.delete(v.id);
+      } else if (since === undefined && !served && (v.waiting || 0) >= config.maxWait) {
+        waitingSince.set(v.id, sim.time);
+        starved++;
+      }
+    });
+    waitingSince.forEach((_, id) => { if (!present.has(id)) waitingSince.delete(id); });
+  }
+
+  // Anyone still starving at the end has waited at least this long for service
+  waitingSince.forEach(since => { longestService = Math.max(longestService, sim.time - since); });
+  return { phases, starved, longestService };
+};
+
+const single = runShielded(CONFIG, ACTION_EXTEND_LONG);
+
+test('every green ends by max green', () => {
+  const greens = single.phases.filter(p => p.phase === Phase.GREEN);
+  assert.ok(greens.length > 0);
+  greens.forEach(p => assert.ok(p.end - p.start <= CONFIG.maxGreen + TOLERANCE, `${p.stage} green ran ${p.end - p.start}s`));
+});
+
+test('a vehicle waiting max wait is served within one cycle of minimum greens', () => {
+  assert.ok(single.starved > 0, 'the run never starved a vehicle');
+  assert.ok(single.longestService <= longestBound(CONFIG), `served after ${single.longestService}s`);
+});
+
+test('min green, yellow and all-red are never cut short', () => {
+  const minimum: Record<Phase, number> = {
+    [Phase.GREEN]: CONFIG.minGreen, [Phase.YELLOW]: CONFIG.minYellow, [Phase.RED]: CONFIG.allRed,
+  };
+  const following: Record<Phase, Phase> = { [Phase.GREEN]: Phase.YELLOW, [Phase.YELLOW]: Phase.RED, [Phase.RED]: Phase.GREEN };
+  single.phases.forEach((p, i) => {
+    assert.ok(p.end - p.start >= minimum[p.phase] - TOLERANCE, `${p.stage} ${p.phase} ran ${p.end - p.start}s`);
+    const next = single.phases[i + 1];
+    if (next) assert.equal(next.phase, following[p.phase], `${p.phase} at ${p.end}s was followed by ${next.phase}`);
+  });
+});
+
+test('a starving left-turn lane gets its protected left even when the controller always skips it', () => {
+  const turnLane = { count: 2, leftTurnLane: true };
+  const run = runShielded(CONFIG, ACTION_SWITCH_SKIP_LEFT, { N: turnLane, S: turnLane, E: turnLane, W: turnLane });
+  assert.ok(run.starved > 0, 'the run never starved a vehicle');
+  assert.ok(run.longestService <= longestBound(CONFIG), `served after ${run.longestService}s`);
+});
@@ -0,0 +1,171 @@
+import { Phase } from '../types';
+import { MIN_GREEN_TIME, MAX_GREEN_TIME, YELLOW_TIME } from '../constants';
+import { TrafficSimulation, DIRECTIONS } from './simulation';
+import {
+  SignalStage, SignalState, STAGE_SEQUENCE, SIGNAL_ACTIONS, ACTION_SWITCH, ACTION_SWITCH_SKIP_LEFT, ACTION_EXTEND_SHORT,
+  ACTION_EXTEND_LONG, resolveSignalAction, movementSignal, stageAfter, isLeftStage
+} from './signalPlan';
+
+export interface ShieldConfig {
+  minGreen: number;    // s before a green may end
+  maxGreen: number;    // s after which a green must end
+  minYellow: number;   // s of yellow at the end of every green
+  allRed: number;      // s of all-red clearance between yellow and the next green
+  maxWait: number;     // s a vehicle may be held at red before its stage is forced in
+}
+
+export const DEFAULT_SHIELD_CONFIG: ShieldConfig = {
+  minGreen: MIN_GREEN_TIME, maxGreen: MAX_GREEN_TIME, minYellow: YELLOW_TIME, allRed: 2, maxWait: 90,
+};
+
+export type OverrideReason = 'minGreen' | 'maxGreen' | 'maxWait';
+
+export const OVERRIDE_REASONS: Record<OverrideReason, string> = {
+  minGreen: 'Min green not served',
+  maxGreen: 'Max green reached',
+  maxWait: 'Waiting vehicle starving',
+};
+
+export interface ShieldOverride {
+  time: number;
+  node: string;
+  stage: SignalStage;
+  requested: number;
+  applied: number;
+  reason: OverrideReason;
+}
+
+const MAX_LOGGED_OVERRIDES = 200;
+
+// Fallback order when a controller without Q-values picks a blocked action
+const FALLBACK_ORDER = [ACTION_SWITCH, ACTION_SWITCH_SKIP_LEFT, ACTION_EXTEND_SHORT, ACTION_EXTEND_LONG];
+
+// Longest continuous wait on each stage's behalf. Nobody passes the head of their
+// own lane, so everyone queued in a lane waits on the stages that serve its head.
+export const stageWaits = (sim: TrafficSimulation): Record<SignalStage, number> => {
+  const waits = { NS_LEFT: 0, NS_THROUGH: 0, EW_LEFT: 0, EW_THROUGH: 0 };
+  DIRECTIONS.forEach(dir => {
+    const queued = sim.vehicles.filter(v => v.dir === dir && !v.passed && sim.distanceToStopLine(v) >= 0);
+    for (let lane = 0; lane < sim.laneCounts[dir]; lane++) {
+      const inLane = queued.filter(v => v.lane === lane);
+      if (inLane.length === 0) continue;
+      const head = inLane.reduce((a, b) => sim.distanceToStopLine(b) < sim.distanceToStopLine(a) ? b : a);
+      const wait = Math.max(...inLane.map(v => v.waiting || 0));
+      STAGE_SEQUENCE.forEach(stage => {
+        if (movementSignal(stage, Phase.GREEN, dir, head.movement) !== 'stop') waits[stage] = Math.max(waits[stage], wait);
+      });
+    }
+  });
+  return waits;
+};
+
+/**
+ * Why each action is blocked at the current decision, or null when it is
+ * allowed. Only greens are shielded; yellow and all-red always advance.
+ * Starvation is bounded by the ring: once any other stage has a vehicle held
+ * for `maxWait`, every green ends at its minimum and no starving left is
+ * skipped, so the starving stage is reached within one cycle of minimum greens.
+ */
+export const blockedActions = (sim: TrafficSimulation, config: ShieldConfig): (OverrideReason | null)[] => {
+  if (sim.phase !== Phase.GREEN) return SIGNAL_ACTIONS.map(() => null);
+
+  const elapsed = sim.getPhaseElapsed();
+  const waits = stageWaits(sim);
+  const starving = STAGE_SEQUENCE.filter(stage => stage !== sim.stage && waits[stage] >= config.maxWait);
+  const nextLeft = stageAfter(sim.stage);
+
+  return SIGNAL_ACTIONS.map((_, action) => {
+    const switching = action === ACTION_SWITCH || action === ACTION_SWITCH_SKIP_LEFT;
+    if (switching) {
+      if (elapsed < config.minGreen) return 'minGreen';
+      if (action === ACTION_SWITCH_SKIP_LEFT && isLeftStage(nextLeft) && starving.includes(nextLeft)) return 'maxWait';
+      return null;
+    }
+    if (elapsed < config.minGreen) return action === ACTION_EXTEND_SHORT ? null : 'minGreen';
+    if (starving.length > 0) return 'maxWait';
+    const extension = resolveSignalAction(sim.getSignal(), action).duration;
+    return elapsed + extension > config.maxGreen ? 'maxGreen' : null;
+  });
+};
+
+export const allowedActions = (sim: TrafficSimulation, config: ShieldConfig): boolean[] =>
+  blockedActions(sim, config).map(reason => reason === null);
+
+/**
+ * Sits between every controller and the phase state machine: replaces blocked
+ * actions with the best allowed one, stretches yellow to the minimum, inserts
+ * the all-red clearance and keeps each new green at least `minGreen` long.
+ * Every replaced action is logged.
+ */
+export class SafetyShield {
+  public overrides: ShieldOverride[] = [];
+  public overrideCount = 0;
+
+  constructor(public config: ShieldConfig = DEFAULT_SHIELD_CONFIG) {}
+
+  reset() {
+    this.overrides = [];
+    this.overrideCount = 0;
+  }
+
+  // `qValues`, when given, rank the allowed actions; otherwise a fixed order that prefers ending the green
+  apply(sim: TrafficSimulation, requested: number, node = 'A', qValues?: number[]): { actionIndex: number; signal: SignalState } {
+    const blocked = blockedActions(sim, this.config);
+    let actionIndex = requested;
+
+    if (blocked[requested] !== null) {
+      const allowed = SIGNAL_ACTIONS.map((_, i) => i).filter(i => blocked[i] === null);
+      actionIndex = qValues && qValues.length === SIGNAL_ACTIONS.length
+        ? allowed.reduce((best, i) => qValues[i] > qValues[best] ? i : best, allowed[0])
+        : FALLBACK_ORDER.find(i => allowed.includes(i))!;
+      this.overrideCount++;
+      this.overrides = [
+        ...this.overrides.slice(-(MAX_LOGGED_OVERRIDES - 1)),
+        { time: sim.time, node, stage: sim.stage, requested, applied: actionIndex, reason: blocked[requested]! },
+      ];
+    }
+
+    return { actionIndex, signal: this.shape(sim, resolveSignalAction(sim.getSignal(), actionIndex)) };
+  }
+
+  private shape(sim: TrafficSimulation, signal: SignalState): SignalState {
+    if (sim.phase === Phase.YELLOW && this.config.allRed > 0) {
+      return { phase: Phase.RED, stage: sim.stage, nextStage: sim.nextStage, duration: this.config.allRed };
+    }
+    if (signal.phase === Phase.YELLOW) return { ...signal, duration: Math.max(signal.duration, this.config.minYellow) };
+    if (sim.phase !== Phase.GREEN) return { ...signal, duration: Math.max(signal.duration, this.config.minGreen) };
+    return signal;
+  }
+}
+
+// --- Saved Configuration ---
+const CONFIG_STORAGE_KEY = 'neural-traffic:shield-config';
+
+// Keeps the bounds consistent whatever was typed: max green never below min green, intervals never negative
+export const normalizeShieldConfig = (config: ShieldConfig): ShieldConfig => {
+  const minGreen = Math.max(1, config.minGreen);
+  return {
+    minGreen,
+    maxGreen: Math.max(minGreen, config.maxGreen),
+    minYellow: Math.max(1, config.minYellow),
+    allRed: Math.max(0, config.allRed),
+    maxWait: Math.max(minGreen, config.maxWait),
+  };
+};
+
+export const loadShieldConfig = (): ShieldConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+    const config = { ...DEFAULT_SHIELD_CONFIG };
+    (Object.keys(config) as (keyof ShieldConfig)[]).forEach(key => {
+      if (Number.isFinite(stored?.[key])) config[key] = stored[key];
+    });
+    return normalizeShieldConfig(config);
+  } catch {
+    return DEFAULT_SHIELD_CONFIG;
+  }
+};
+
+export const saveShieldConfig = (config: ShieldConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,299 @@
+import { Direction } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, WEATHER } from '../constants';
+import { DIRECTIONS } from './simulation';
+import { NetworkLayoutId, NETWORK_LAYOUTS, ScriptedEvent } from './network';
+import { DemandProfile, DemandCurveId, ArrivalPattern, DEMAND_CURVES, BUILT_IN_DEMAND_PROFILES } from './demand';
+import { WeatherScript, WeatherScriptMode, WEATHER_SCRIPT_MODES, fixedWeather } from './weather';
+import { ShieldConfig, DEFAULT_SHIELD_CONFIG } from './safetyShield';
+import { HYPERPARAMETER_FIELDS, DEFAULT_HYPERPARAMETERS } from './hyperparameters';
+import { VEHICLE_CLASS_IDS } from './vehicles';
+import { STOP_LINE_OFFSET } from './geometry';
+import { downloadTextFile } from './fileIO';
+
+const SCENARIO_FORMAT = 'neural-traffic-scenario';
+const SCENARIO_VERSION = 1;
+const MAX_PROBLEMS_SHOWN = 5;
+
+// Furthest a stall may sit from the stop line and still be on the junction's tile
+const MAX_STALL_DISTANCE = Math.min(CANVAS_WIDTH, CANVAS_HEIGHT) / 2 - STOP_LINE_OFFSET;
+
+/**
+ * Everything a run depends on, so the same file replays the same traffic:
+ * the seed, the demand (rates and time-of-day curves per approach, vehicle
+ * mix, turns), the weather script, the signal constraints every controller
+ * is held to, the episode length and the scripted events.
+ */
+export interface Scenario {
+  format: typeof SCENARIO_FORMAT;
+  version: number;
+  name: string;
+  description: string;
+  seed: number;
+  layout: NetworkLayoutId;
+  episodeLength: number;     // decisions per training episode
+  demand: DemandProfile;
+  weather: WeatherScript;
+  signals: ShieldConfig;
+  events: ScriptedEvent[];
+}
+
+export const SCRIPTED_EVENT_LABELS: Record<ScriptedEvent['kind'], string> = {
+  stall: 'Stalled truck',
+  surge: 'Demand surge',
+};
+
+export const createScenario = (
+  fields: Omit<Scenario, 'format' | 'version'>
+): Scenario => ({ format: SCENARIO_FORMAT, version: SCENARIO_VERSION, ...fields });
+
+// --- Built-in Library ---
+const TURNS = { left: 0.15, right: 0.15 };
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  createScenario({
+    name: 'Off-Peak',
+    description: 'Light late-evening traffic on a single junction in clear weather.',
+    seed: 1001, layout: 'single', episodeLength: DEFAULT_HYPERPARAMETERS.episodeLength,
+    demand: { ...BUILT_IN_DEMAND_PROFILES[1], name: 'Off-Peak', rates: { N: 220, S: 220, E: 180, W: 180 }, startHour: 21 },
+    weather: fixedWeather('SUNNY'),
+    signals: DEFAULT_SHIELD_CONFIG,
+    events: [],
+  }),
+  createScenario({
+    name: 'Rush Hour',
+    description: 'Morning peak along the arterial; a truck breaks down eastbound at the middle junction.',
+    seed: 2002, layout: 'arterial', episodeLength: DEFAULT_HYPERPARAMETERS.episodeLength,
+    demand: {
+      ...BUILT_IN_DEMAND_PROFILES[2], name: 'Rush Hour', rates: { N: 700, S: 700, E: 950, W: 650 },
+      curves: { N: 'morningPeak', S: 'morningPeak', E: 'morningPeak', W: 'flat' },
+      turnRatios: { N: TURNS, S: TURNS, E: { left: 0.1, right: 0.05 }, W: { left: 0.1, right: 0.05 } },
+    },
+    weather: fixedWeather('SUNNY'),
+    signals: DEFAULT_SHIELD_CONFIG,
+    events: [{ kind: 'stall', at: 240, duration: 120, node: 'B', approach: Direction.E, distance: 160 }],
+  }),
+  createScenario({
+    name: 'Event Dismissal',
+    description: 'A stadium empties onto the south and east approaches, with crowds on every crosswalk.',
+    seed: 3003, layout: 'single', episodeLength: DEFAULT_HYPERPARAMETERS.episodeLength,
+    demand: {
+      ...BUILT_IN_DEMAND_PROFILES[1], name: 'Event Dismissal', rates: { N: 300, S: 450, E: 450, W: 300 },
+      pedestrianRate: 400, startHour: 22,
+      turnRatios: { N: TURNS, S: { left: 0.3, right: 0.2 }, E: { left: 0.2, right: 0.3 }, W: TURNS },
+    },
+    weather: fixedWeather('SUNNY'),
+    signals: { ...DEFAULT_SHIELD_CONFIG, maxWait: 60 },
+    events: [
+      { kind: 'surge', at: 120, duration: 360, approaches: [Direction.S, Direction.E], multiplier: 2.5 },
+      { kind: 'surge', at: 480, duration: 240, approaches: [Direction.S, Direction.E], multiplier: 1.5 },
+    ],
+  }),
+  createScenario({
+    name: 'Heavy Fog',
+    description: 'Fog all run long, with shortened detector range, longer clearances and a truck stalled northbound.',
+    seed: 4004, layout: 'single', episodeLength: DEFAULT_HYPERPARAMETERS.episodeLength,
+    demand: { ...BUILT_IN_DEMAND_PROFILES[1], name: 'Heavy Fog', rates: { N: 450, S: 450, E: 400, W: 400 } },
+    weather: fixedWeather('FOG'),
+    signals: { ...DEFAULT_SHIELD_CONFIG, allRed: 3 },
+    events: [{ kind: 'stall', at: 300, duration: 90, node: 'A', approach: Direction.S, distance: 120 }],
+  }),
+];
+
+// --- Validation ---
+type Read<T> = (path: string, value: unknown) => T;
+
+interface ScenarioCheck {
+  problems: string[];
+  scenario: Scenario | null;   // built from the checked fields, only when there are no problems
+}
+
+const LAYOUT_IDS = Object.keys(NETWORK_LAYOUTS) as NetworkLayoutId[];
+const CURVE_IDS = Object.keys(DEMAND_CURVES) as DemandCurveId[];
+const ARRIVAL_PATTERNS: ArrivalPattern[] = ['poisson', 'platoon'];
+const WEATHER_MODES = Object.keys(WEATHER_SCRIPT_MODES) as WeatherScriptMode[];
+const EVENT_KINDS = Object.keys(SCRIPTED_EVENT_LABELS) as ScriptedEvent['kind'][];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const describe = (value: unknown) => value === undefined ? 'missing' : JSON.stringify(value);
+
+const describeProblems = (problems: string[]) => {
+  const more = problems.length > MAX_PROBLEMS_SHOWN ? ` (and ${problems.length - MAX_PROBLEMS_SHOWN} more)` : '';
+  return `${problems.slice(0, MAX_PROBLEMS_SHOWN).join('; ')}${more}`;
+};
+
+/**
+ * Reads the data field by field into a Scenario, collecting every problem as
+ * a readable line naming the field at fault, e.g. `demand.rates.N must be
+ * between 0 and 5000 (got -10)`. Fields that fail stand in as NaN, '' or the
+ * first option while reading goes on, so the scenario is only handed back
+ * when nothing failed.
+ */
+const checkScenario = (data: unknown): ScenarioCheck => {
+  if (!isObject(data) || data.format !== SCENARIO_FORMAT) return { problems: ['File is not a Neural Traffic scenario'], scenario: null };
+  if (data.version !== SCENARIO_VERSION) return { problems: [`Unsupported scenario version ${data.version}`], scenario: null };
+
+  const problems: string[] = [];
+  let muted = 0;
+  const report = (problem: string) => {
+    if (muted === 0) problems.push(problem);
+  };
+  // Reads a part whose failure is already reported, so its fields don't report it again one by one
+  const quietly = <T,>(read: () => T): T => {
+    muted++;
+    try {
+      return read();
+    } finally {
+      muted--;
+    }
+  };
+
+  const number = (min: number, max: number, integer = false): Read<number> => (path, value) => {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    if (!isFiniteNumber(value)) report(`${path} must be a number (got ${describe(value)})`);
+    else if (value < min || value > max) report(`${path} must be ${range} (got ${value})`);
+    else if (integer && !Number.isInteger(value)) report(`${path} must be a whole number (got ${value})`);
+    return isFiniteNumber(value) ? value : NaN;
+  };
+  const oneOf = <T extends string>(options: readonly T[]): Read<T> => (path, value) => {
+    const match = options.find(option => option === value);
+    if (match === undefined) report(`${path} must be one of ${options.join(', ')} (got ${describe(value)})`);
+    return match ?? options[0];
+  };
+  const text: Read<string> = (path, value) => {
+    if (typeof value === 'string') return value;
+    report(`${path} must be text (got ${describe(value)})`);
+    return '';
+  };
+  // Builds an object from its fields; a missing object is reported once rather than per field
+  const fields = <T,>(build: (field: <F>(key: string, read: Read<F>) => F) => T): Read<T> => (path, value) => {
+    if (isObject(value)) return build((key, read) => read(`${path}.${key}`, value[key]));
+    report(`${path} must be an object (got ${describe(value)})`);
+    return quietly(() => build((key, read) => read(`${path}.${key}`, undefined)));
+  };
+  const perApproach = <T,>(read: Read<T>): Read<Record<Direction, T>> =>
+    fields(field => ({ N: field('N', read), S: field('S', read), E: field('E', read), W: field('W', read) }));
+  const list = <T,>(read: Read<T>): Read<T[]> => (path, value) => {
+    if (Array.isArray(value)) return value.map((item, index) => read(`${path}[${index}]`, item));
+    report(`${path} must be a list (got ${describe(value)})`);
+    return [];
+  };
+
+  const name = text('name', data.name);
+  const description = text('description', data.description);
+  const seed = number(0, 0xffffffff, true)('seed', data.seed);
+  const layout = oneOf(LAYOUT_IDS)('layout', data.layout);
+  const { min, max } = HYPERPARAMETER_FIELDS.episodeLength;
+  const episodeLength = number(min, max, true)('episodeLength', data.episodeLength);
+
+  const share = number(0, 1);
+  const demand = fields<DemandProfile>(field => ({
+    name: field('name', text),
+    rates: field('rates', perApproach(number(0, 5000))),
+    curves: field('curves', perApproach(oneOf(CURVE_IDS))),
+    arrival: field('arrival', oneOf(ARRIVAL_PATTERNS)),
+    platoonSize: field('platoonSize', number(1, 20, true)),
+    vehicleMix: field('vehicleMix', fields(mix => ({
+      car: mix('car', number(0, 100)), truck: mix('truck', number(0, 100)), bus: mix('bus', number(0, 100)),
+      motorcycle: mix('motorcycle', number(0, 100)), ev: mix('ev', number(0, 100)),
+    }))),
+    emergencyShare: field('emergencyShare', share),
+    pedestrianRate: field('pedestrianRate', number(0, 5000)),
+    turnRatios: field('turnRatios', perApproach(fields(ratio => ({ left: ratio('left', share), right: ratio('right', share) })))),
+    startHour: field('startHour', number(0, 23)),
+    hourDuration: field('hourDuration', number(30, 86400)),
+  }))('demand', data.demand);
+  // Fields that failed read as NaN, which none of these comparisons can trip over
+  if (VEHICLE_CLASS_IDS.every(id => demand.vehicleMix[id] <= 0)) {
+    report('demand.vehicleMix must give at least one vehicle class a share');
+  }
+  DIRECTIONS.forEach(dir => {
+    const turning = demand.turnRatios[dir].left + demand.turnRatios[dir].right;
+    if (turning > 1) report(`demand.turnRatios.${dir} turns more than every vehicle (left + right = ${turning})`);
+  });
+
+  const weather = fields<WeatherScript>(field => ({
+    mode: field('mode', oneOf(WEATHER_MODES)),
+    initial: field('initial', oneOf(Object.keys(WEATHER))),
+    schedule: field('schedule', list(fields(change => ({
+      at: change('at', number(0, Infinity)), weather: change('weather', oneOf(Object.keys(WEATHER))),
+    })))),
+    meanSpell: field('meanSpell', number(60, Infinity)),
+    transition: field('transition', number(0, Infinity)),
+    seed: field('seed', number(0, 0xffffffff, true)),
+  }))('weather', data.weather);
+
+  const signals = fields<ShieldConfig>(field => ({
+    minGreen: field('minGreen', number(1, 600)), maxGreen: field('maxGreen', number(1, 600)),
+    minYellow: field('minYellow', number(1, 10)), allRed: field('allRed', number(0, 10)), maxWait: field('maxWait', number(1, 3600)),
+  }))('signals', data.signals);
+  if (signals.maxGreen < signals.minGreen) {
+    report(`signals.maxGreen cannot be below signals.minGreen (${signals.maxGreen} < ${signals.minGreen})`);
+  }
+  if (signals.maxWait < signals.minGreen) {
+    report(`signals.maxWait cannot be below signals.minGreen (${signals.maxWait} < ${signals.minGreen})`);
+  }
+
+  // Stalls name a junction, which has to exist in the scenario's own layout
+  const grid = layout === data.layout ? NETWORK_LAYOUTS[layout] : null;
+  const node = grid ? oneOf(Array.from({ length: grid.rows * grid.cols }, (_, i) => String.fromCharCode(65 + i))) : text;
+  const stall = fields<ScriptedEvent>(field => ({
+    kind: 'stall', at: field('at', number(0, Infinity)), duration: field('duration', number(1, Infinity)),
+    node: field('node', node), approach: field('approach', oneOf(DIRECTIONS)), distance: field('distance', number(0, MAX_STALL_DISTANCE)),
+  }));
+  const surge = fields<ScriptedEvent>(field => ({
+    kind: 'surge', at: field('at', number(0, Infinity)), duration: field('duration', number(1, Infinity)),
+    approaches: field('approaches', (path, value) => {
+      if (Array.isArray(value) && value.length === 0) report(`${path} must name at least one approach`);
+      return list(oneOf(DIRECTIONS))(path, value);
+    }),
+    multiplier: field('multiplier', number(0, 10)),
+  }));
+  const event: Read<ScriptedEvent> = (path, value) => {
+    if (!isObject(value) || value.kind === 'stall') return stall(path, value);
+    if (value.kind === 'surge') return surge(path, value);
+    oneOf(EVENT_KINDS)(`${path}.kind`, value.kind);
+    return quietly(() => stall(path, value));
+  };
+  const events = list(event)('events', data.events);
+
+  const scenario = createScenario({ name, description, seed, layout, episodeLength, demand, weather, signals, events });
+  return { problems, scenario: problems.length === 0 ? scenario : null };
+};
+
+/**
+ * Every problem with the data as a readable line naming the field at fault.
+ * An empty result means the data is a valid scenario.
+ */
+export const validateScenario = (data: unknown): string[] => checkScenario(data).problems;
+
+export const parseScenario = (text: string): Scenario => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const { problems, scenario } = checkScenario(data);
+  if (!scenario) throw new Error(describeProblems(problems));
+  return scenario;
+};
+
+export const describeEvent = (event: ScriptedEvent): string =>
+  event.kind === 'stall'
+    ? `${SCRIPTED_EVENT_LABELS.stall} ${event.node}${event.approach} at ${event.at}s for ${event.duration}s`
+    : `${SCRIPTED_EVENT_LABELS.surge} ×${event.multiplier} on ${event.approaches.join('')} at ${event.at}s for ${event.duration}s`;
+
+// --- Export ---
+// Checks the file as it will be read back, so nothing is exported that import would reject
+export const exportScenario = (scenario: Scenario) => {
+  const text = JSON.stringify(scenario, null, 2);
+  const problems = validateScenario(JSON.parse(text));
+  if (problems.length > 0) throw new Error(describeProblems(problems));
+  const slug = scenario.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+  downloadTextFile(`${slug}.scenario.json`, text);
+};
@@ -0,0 +1,317 @@
+import { Direction } from '../types';
+import { STOP_THRESHOLD } from '../constants';
+import { SeededRandom } from './random';
+import { TrafficSimulation, SimVehicle, DIRECTIONS } from './simulation';
+
+export type DetectorKind = 'stopBar' | 'advance' | 'camera';
+
+export const DETECTOR_TYPES: Record<DetectorKind, { label: string; color: string }> = {
+  stopBar: { label: 'Stop-bar loop', color: '#f59e0b' },
+  advance: { label: 'Advance loop',  color: '#22d3ee' },
+  camera:  { label: 'Camera zone',   color: '#a78bfa' },
+};
+
+export interface SensorConfig {
+  stopBar: boolean;
+  stopBarLength: number;     // px of loop upstream of the stop line
+  advance: boolean;
+  advanceDistance: number;   // px upstream of the stop line
+  camera: boolean;
+  cameraRange: number;       // px upstream of the stop line in clear weather; fog shortens it
+  noise: number;             // relative standard deviation of every count, speed and wait
+  dropout: number;           // 0-1 chance that a loop actuation or a camera frame is lost
+  latency: number;           // s before a reading reaches the controller
+  failureRate: number;       // 0-1 share of detectors that are dead for the whole run
+}
+
+export const DEFAULT_SENSOR_CONFIG: SensorConfig = {
+  stopBar: true, stopBarLength: 60, advance: true, advanceDistance: 250, camera: true, cameraRange: 350,
+  noise: 0.1, dropout: 0.02, latency: 0.5, failureRate: 0,
+};
+
+// Perfect sight of the whole approach: what the observation used to read straight from the simulation
+export const IDEAL_SENSOR_CONFIG: SensorConfig = {
+  ...DEFAULT_SENSOR_CONFIG, cameraRange: 1000, noise: 0, dropout: 0, latency: 0,
+};
+
+export interface Detector {
+  id: string;            // e.g. "N stopBar"
+  kind: DetectorKind;
+  approach: Direction;
+  from: number;          // px upstream of the stop line where the zone starts
+  to: number;            // px upstream of the stop line where it ends
+  failed: boolean;
+  active: boolean;       // saw something at the last sample
+}
+
+// What the controller believes about one approach
+export interface ApproachReading {
+  queued: number;               // vehicles seen waiting or approaching
+  lanes: number[];              // of those, per lane from the kerb; loops span the approach and can only share their count out
+  stopped: number;
+  lefts: number;                // only a camera can tell turning vehicles apart
+  meanSpeed: number | null;     // px per tick
+  maxWait: number;              // s
+}
+
+const SAMPLE_INTERVAL = 0.1;   // s between detector samples
+const LOOP_LENGTH = 12;        // px, advance loop
+const SPEED_SMOOTHING = 0.3;   // weight of each new spot speed in the advance loop's running mean
+const QUEUE_RESET_TIME = 20;   // s the stop-bar loop must stay clear before the loop queue count is zeroed
+const QUEUE_SPACING = 50;      // px of lane each queued vehicle takes up, bounding the loop queue count
+
+const emptyReading = (): ApproachReading => ({ queued: 0, lanes: [], stopped: 0, lefts: 0, meanSpeed: null, maxWait: 0 });
+
+export const emptyReadings = (): Record<Direction, ApproachReading> => ({
+  N: emptyReading(), S: emptyReading(), E: emptyReading(), W: emptyReading(),
+});
+
+// Input-output counting between the advance and stop-bar loops
+interface LoopState {
+  queued: number;
+  clearFor: number;          // s the stop-bar loop has been unoccupied
+  occupiedFor: number;       // s a stationary vehicle has sat on the stop-bar loop
+  speed: number | null;
+}
+
+const emptyLoopState = (): LoopState => ({ queued: 0, clearFor: 0, occupiedFor: 0, speed: null });
+
+/**
+ * The detectors at one junction and what the controller learns from them.
+ * Loops count vehicles over their zone, missing actuations at the dropout
+ * rate; cameras report counts, speeds and dwell times within their range,
+ * losing whole frames at the dropout rate. Readings are perturbed by
+ * multiplicative noise and delivered `latency` seconds late. Noise, dropouts
+ * and failures draw from their own seed so the traffic is the same however
+ * the sensors are set up.
+ */
+export class SensorArray {
+  public detectors: Detector[] = [];
+  private rng: SeededRandom;
+  private sinceSample = 0;
+  private distances = new Map<string, number>();
+  private loops = { N: emptyLoopState(), S: emptyLoopState(), E: emptyLoopState(), W: emptyLoopState() };
+  private frames = emptyReadings();
+  private history: { time: number; readings: Record<Direction, ApproachReading> }[] = [];
+  private due = 0;   // time of the newest reading the controller may have received
+
+  constructor(public config: SensorConfig, private seed: number) {
+    this.rng = new SeededRandom(seed);
+    this.build();
+  }
+
+  configure(config: SensorConfig) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.rng = new SeededRandom(this.seed);
+    this.sinceSample = 0;
+    this.distances.clear();
+    this.loops = { N: emptyLoopState(), S: emptyLoopState(), E: emptyLoopState(), W: emptyLoopState() };
+    this.frames = emptyReadings();
+    this.history = [];
+    this.due = 0;
+    this.build();
+  }
+
+  private build() {
+    const { stopBar, stopBarLength, advance, advanceDistance, camera, cameraRange, failureRate } = this.config;
+    this.detectors = DIRECTIONS.flatMap(approach => {
+      const zones: [DetectorKind, boolean, number, number][] = [
+        ['stopBar', stopBar, 0, stopBarLength],
+        ['advance', advance, advanceDistance, advanceDistance + LOOP_LENGTH],
+        ['camera', camera, 0, cameraRange],
+      ];
+      return zones.filter(([, enabled]) => enabled).map(([kind, , from, to]) => ({
+        id: `${approach} ${kind}`, kind, approach, from, to, failed: this.rng.next() < failureRate, active: false,
+      }));
+    });
+  }
+
+  private working(approach: Direction, kind: DetectorKind): Detector | undefined {
+    return this.detectors.find(d => d.approach === approach && d.kind === kind && !d.failed);
+  }
+
+  private noisy(value: number): number {
+    if (this.config.noise <= 0) return value;
+    // Box-Muller
+    const gauss = Math.sqrt(-2 * Math.log(1 - this.rng.next())) * Math.cos(2 * Math.PI * this.rng.next());
+    return Math.max(0, value * (1 + gauss * this.config.noise));
+  }
+
+  private dropped(): boolean {
+    return this.config.dropout > 0 && this.rng.next() < this.config.dropout;
+  }
+
+  // Call once per step after vehicles have moved
+  update(sim: TrafficSimulation, dt: number) {
+    this.sinceSample += dt;
+    if (this.sinceSample < SAMPLE_INTERVAL) return;
+    const interval = this.sinceSample;
+    this.sinceSample = 0;
+
+    const distances = new Map<string, number>();
+    const byApproach: Record<Direction, { v: SimVehicle; distance: number }[]> = { N: [], S: [], E: [], W: [] };
+    // Vehicles stay on their arrival approach until their turn is complete, so departures over the stop line are seen
+    sim.vehicles.forEach(v => {
+      if (v.turned) return;
+      const distance = sim.distanceToStopLine(v);
+      distances.set(v.id, distance);
+      byApproach[v.origin].push({ v, distance });
+    });
+
+    const readings = {} as Record<Direction, ApproachReading>;
+    DIRECTIONS.forEach(dir => {
+      const { count } = sim.lanes[dir];
+      const loop = this.sampleLoops(dir, byApproach[dir], interval, count);
+      const camera = this.sampleCamera(dir, byApproach[dir], sim.weatherEffects.detection, count);
+      readings[dir] = camera ? {
+        ...camera,
+        queued: Math.max(camera.queued, loop?.queued || 0),
+        lanes: camera.lanes.map((queued, lane) => Math.max(queued, loop?.lanes[lane] || 0)),
+        meanSpeed: camera.meanSpeed ?? loop?.meanSpeed ?? null,
+        maxWait: Math.max(camera.maxWait, loop?.maxWait || 0),
+      } : loop || emptyReading();
+    });
+    this.distances = distances;
+
+    this.history.push({ time: sim.time, readings });
+    this.due = sim.time - this.config.latency;
+    while (this.history.length > 1 && this.history[1].time <= this.due) this.history.shift();
+  }
+
+  private sampleLoops(
+    dir: Direction, vehicles: { v: SimVehicle; distance: number }[], interval: number, laneCount: number
+  ): ApproachReading | null {
+    const stopBar = this.working(dir, 'stopBar');
+    const advance = this.working(dir, 'advance');
+    if (!stopBar && !advance) return null;
+    const state = this.loops[dir];
+    const over = (d: Detector) => vehicles.filter(({ v, distance }) => distance < d.to && distance + v.length > d.from);
+    const crossed = (d: Detector) => vehicles.filter(({ v, distance }) => {
+      const before = this.distances.get(v.id);
+      return before !== undefined && before > d.from && distance <= d.from && !this.dropped();
+    });
+
+    let occupant: SimVehicle | undefined;
+    if (stopBar) {
+      occupant = over(stopBar)[0]?.v;
+      stopBar.active = occupant !== undefined;
+      state.clearFor = occupant ? 0 : state.clearFor + interval;
+      state.occupiedFor = occupant && (occupant.currentSpeed || 0) < STOP_THRESHOLD ? state.occupiedFor + interval : 0;
+    }
+    const arrivals = advance ? crossed(advance) : [];
+    const departures = stopBar ? crossed(stopBar) : [];
+    if (advance) {
+      advance.active = over(advance).length > 0;
+      arrivals.forEach(({ v }) => {
+        const spot = this.noisy(v.currentSpeed || 0);
+        state.speed = state.speed === null ? spot : state.speed + SPEED_SMOOTHING * (spot - state.speed);
+      });
+    }
+
+    // With both loops the vehicles between them are counted in and out; a single loop only tells presence
+    if (stopBar && advance) {
+      // Missed actuations make the count drift, so it is held within what the loops can physically see
+      const storage = Math.ceil(advance.to / QUEUE_SPACING);
+      state.queued = Math.min(storage, Math.max(state.occupiedFor > 0 ? 1 : 0, state.queued + arrivals.length - departures.length));
+      if (state.clearFor >= QUEUE_RESET_TIME) state.queued = 0;
+    } else {
+      state.queued = (stopBar?.active || advance?.active) ? 1 : 0;
+    }
+    const queued = Math.round(this.noisy(state.queued));
+    return {
+      queued,
+      lanes: Array.from({ length: laneCount }, () => queued / laneCount),
+      stopped: state.occupiedFor > 0 ? queued : 0,
+      lefts: 0,
+      meanSpeed: state.speed,
+      maxWait: this.noisy(state.occupiedFor),
+    };
+  }
+
+  private sampleCamera(
+    dir: Direction, vehicles: { v: SimVehicle; distance: number }[], visibility: number, laneCount: number
+  ): ApproachReading | null {
+    const camera = this.working(dir, 'camera');
+    if (!camera) return null;
+    camera.to = this.config.cameraRange * visibility;
+    // A lost frame leaves the last one standing
+    if (this.dropped()) return this.frames[dir];
+
+    const seen = vehicles.filter(({ v, distance }) => !v.passed && distance + v.length > 0 && distance <= camera.to).map(({ v }) => v);
+    camera.active = seen.length > 0;
+    const speeds = seen.map(v => v.currentSpeed || 0);
+    this.frames[dir] = {
+      queued: Math.round(this.noisy(seen.length)),
+      lanes: Array.from({ length: laneCount }, (_, lane) => Math.round(this.noisy(seen.filter(v => v.lane === lane).length))),
+      stopped: Math.round(this.noisy(seen.filter(v => (v.currentSpeed || 0) < STOP_THRESHOLD).length)),
+      lefts: Math.round(this.noisy(seen.filter(v => v.movement === 'left').length)),
+      meanSpeed: speeds.length ? this.noisy(speeds.reduce((a, b) => a + b, 0) / speeds.length) : null,
+      maxWait: this.noisy(Math.max(0, ...seen.map(v => v.waiting || 0))),
+    };
+    return this.frames[dir];
+  }
+
+  // The newest readings old enough to have reached the controller
+  readings(): Record<Direction, ApproachReading> {
+    const first = this.history[0];
+    return first && first.time <= this.due ? first.readings : emptyReadings();
+  }
+}
+
+// What perfect detection of the whole approach would report, for judging the sensors against
+export const trueReadings = (sim: TrafficSimulation): Record<Direction, ApproachReading> => {
+  const readings = emptyReadings();
+  DIRECTIONS.forEach(dir => { readings[dir].lanes = Array(sim.lanes[dir].count).fill(0); });
+  const speeds = { N: 0, S: 0, E: 0, W: 0 };
+  sim.vehicles.forEach(v => {
+    if (v.passed) return;
+    const reading = readings[v.dir];
+    reading.queued++;
+    reading.lanes[v.lane]++;
+    if ((v.currentSpeed || 0) < STOP_THRESHOLD) reading.stopped++;
+    if (v.movement === 'left') reading.lefts++;
+    reading.maxWait = Math.max(reading.maxWait, v.waiting || 0);
+    speeds[v.dir] += v.currentSpeed || 0;
+  });
+  DIRECTIONS.forEach(dir => {
+    if (readings[dir].queued > 0) readings[dir].meanSpeed = speeds[dir] / readings[dir].queued;
+  });
+  return readings;
+};
+
+// --- Saved Configuration ---
+const CONFIG_STORAGE_KEY = 'neural-traffic:sensor-config';
+
+const clampShare = (value: number) => Math.max(0, Math.min(1, value));
+
+export const normalizeSensorConfig = (config: SensorConfig): SensorConfig => ({
+  ...config,
+  stopBarLength: Math.max(4, config.stopBarLength),
+  advanceDistance: Math.max(config.stopBarLength + LOOP_LENGTH, config.advanceDistance),
+  cameraRange: Math.max(0, config.cameraRange),
+  noise: Math.max(0, config.noise),
+  dropout: clampShare(config.dropout),
+  latency: Math.max(0, config.latency),
+  failureRate: clampShare(config.failureRate),
+});
+
+export const loadSensorConfig = (): SensorConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+    const config = { ...DEFAULT_SENSOR_CONFIG };
+    (Object.keys(config) as (keyof SensorConfig)[]).forEach(key => {
+      if (typeof stored?.[key] === typeof config[key]) (config as Record<keyof SensorConfig, number | boolean>)[key] = stored[key];
+    });
+    return normalizeSensorConfig(config);
+  } catch {
+    return DEFAULT_SENSOR_CONFIG;
+  }
+};
+
+export const saveSensorConfig = (config: SensorConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,113 @@
+import { Direction, TrafficSide, Phase } from '../types';
+import { ACTIONS, MIN_GREEN_TIME, YELLOW_TIME } from '../constants';
+import { Movement, MOVEMENTS, movementsConflict } from './geometry';
+
+// Action indices shared by every controller; the first three line up with ACTIONS.
+export const ACTION_SWITCH = 0;
+export const ACTION_EXTEND_SHORT = 1;
+export const ACTION_EXTEND_LONG = 2;
+export const ACTION_SWITCH_SKIP_LEFT = 3;
+
+export const SIGNAL_ACTIONS = [...ACTIONS, 'SWITCH_SKIP_LEFT'];
+
+/**
+ * Stages run in a fixed ring with a leading protected left on each side. During
+ * a through stage the lefts of that side may still turn, but only into gaps in
+ * the opposing traffic.
+ */
+export type SignalStage = 'NS_LEFT' | 'NS_THROUGH' | 'EW_LEFT' | 'EW_THROUGH';
+export const STAGE_SEQUENCE: SignalStage[] = ['NS_LEFT', 'NS_THROUGH', 'EW_LEFT', 'EW_THROUGH'];
+export const INITIAL_STAGE: SignalStage = 'NS_THROUGH';
+
+export const STAGE_SIDE: Record<SignalStage, TrafficSide> = {
+  NS_LEFT: TrafficSide.NS, NS_THROUGH: TrafficSide.NS, EW_LEFT: TrafficSide.EW, EW_THROUGH: TrafficSide.EW,
+};
+
+export const STAGE_LABELS: Record<SignalStage, string> = {
+  NS_LEFT: 'N-S Protected Left', NS_THROUGH: 'N-S Through', EW_LEFT: 'E-W Protected Left', EW_THROUGH: 'E-W Through',
+};
+
+export const SIDE_DIRECTIONS: Record<TrafficSide, Direction[]> = {
+  [TrafficSide.NS]: [Direction.N, Direction.S],
+  [TrafficSide.EW]: [Direction.E, Direction.W],
+};
+
+export const isLeftStage = (stage: SignalStage) => stage === 'NS_LEFT' || stage === 'EW_LEFT';
+
+// The stage after `stage` in the ring, optionally skipping a protected left with no demand
+export const stageAfter = (stage: SignalStage, skipLeft = false): SignalStage => {
+  const next = STAGE_SEQUENCE[(STAGE_SEQUENCE.indexOf(stage) + 1) % STAGE_SEQUENCE.length];
+  return skipLeft && isLeftStage(next) ? stageAfter(next) : next;
+};
+
+export type MovementSignal = 'protected' | 'permitted' | 'stop';
+
+export const movementSignal = (stage: SignalStage, phase: Phase, dir: Direction, movement: Movement): MovementSignal => {
+  if (phase !== Phase.GREEN || !SIDE_DIRECTIONS[STAGE_SIDE[stage]].includes(dir)) return 'stop';
+  if (isLeftStage(stage)) return movement === 'left' ? 'protected' : 'stop';
+  return movement === 'left' ? 'permitted' : 'protected';
+};
+
+/**
+ * How the junction is being run. `flash` is the usual night fallback: flashing
+ * yellow on the main road, which keeps right of way, and flashing red on the
+ * side road, which stops and then goes into gaps. `allRed` holds every
+ * approach. Outside `normal` the ring is suspended and no decisions are asked.
+ */
+export type SignalMode = 'normal' | 'flash' | 'allRed';
+
+export const SIGNAL_MODE_LABELS: Record<SignalMode, string> = {
+  normal: 'Normal',
+  flash: 'Flashing Yellow',
+  allRed: 'All Red',
+};
+
+export const FLASH_MAIN_SIDE = TrafficSide.NS;
+
+export const isFlashMainRoad = (dir: Direction) => SIDE_DIRECTIONS[FLASH_MAIN_SIDE].includes(dir);
+
+// The main road's lefts still yield to oncoming traffic; everything on the side road yields
+export const modeSignal = (mode: Exclude<SignalMode, 'normal'>, dir: Direction, movement: Movement): MovementSignal => {
+  if (mode === 'allRed') return 'stop';
+  return isFlashMainRoad(dir) && movement !== 'left' ? 'protected' : 'permitted';
+};
+
+// Pairs of protected movements in `stage` whose paths cross; empty for a safe plan
+export const findStageConflicts = (stage: SignalStage): [string, string][] => {
+  const served = Object.values(SIDE_DIRECTIONS).flat().flatMap(dir =>
+    MOVEMENTS.filter(m => movementSignal(stage, Phase.GREEN, dir, m) === 'protected').map(movement => ({ dir, movement })));
+  const conflicts: [string, string][] = [];
+  served.forEach((a, i) => served.slice(i + 1).forEach(b => {
+    if (movementsConflict(a.dir, a.movement, b.dir, b.movement)) {
+      conflicts.push([`${a.dir} ${a.movement}`, `${b.dir} ${b.movement}`]);
+    }
+  }));
+  return conflicts;
+};
+
+export interface SignalState {
+  phase: Phase;
+  stage: SignalStage;
+  nextStage: SignalStage;
+  duration: number;
+}
+
+// Phase state machine: green either extends or hands over to yellow (choosing the
+// next stage), yellow or the all-red after it starts the chosen stage at minimum green.
+export const resolveSignalAction = (
+  { phase, stage, nextStage }: Omit<SignalState, 'duration'>, actionIndex: number
+): SignalState => {
+  if (phase === Phase.GREEN) {
+    if (actionIndex === ACTION_SWITCH || actionIndex === ACTION_SWITCH_SKIP_LEFT) {
+      return {
+        phase: Phase.YELLOW, stage,
+        nextStage: stageAfter(stage, actionIndex === ACTION_SWITCH_SKIP_LEFT), duration: YELLOW_TIME,
+      };
+    }
+    return { phase: Phase.GREEN, stage, nextStage, duration: actionIndex === ACTION_EXTEND_SHORT ? 5 : 10 };
+  }
+  if (phase === Phase.YELLOW || phase === Phase.RED) {
+    return { phase: Phase.GREEN, stage: nextStage, nextStage: stageAfter(nextStage), duration: MIN_GREEN_TIME };
+  }
+  return { phase, stage, nextStage, duration: MIN_GREEN_TIME };
+};
@@ -0,0 +1,930 @@
+import { Direction, TrafficSide, Phase, Vehicle } from '../types';
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, STOP_THRESHOLD, MIN_GREEN_TIME, YELLOW_TIME
+} from '../constants';
+import { SeededRandom } from './random';
+import { DemandGenerator, DemandProfile, DEFAULT_DEMAND_PROFILE } from './demand';
+import {
+  Vec, Movement, LaneCounts, CENTER, STOP_LINE_OFFSET, STOP_ZONE_START, ENTRY_OFFSET, TRAVEL, TURN_START,
+  toScreen, alongApproach, acrossApproach, halfExtent, headingAngle, turnPose, turnLength, exitDirection, oppositeOf,
+  movementsConflict, laneOffset, laneWidth
+} from './geometry';
+import { LaneConfig, DEFAULT_LANE_CONFIG, laneCounts, laneMovements, lanesFor, exitLane } from './lanes';
+import { TripRecord, TripLog, startTrip, nextStopState } from './trips';
+import {
+  SignalStage, SignalState, SignalMode, MovementSignal, INITIAL_STAGE, STAGE_SIDE, stageAfter, movementSignal, modeSignal,
+  isFlashMainRoad
+} from './signalPlan';
+import {
+  EmergencyKind, PreemptionEvent, EMERGENCY_KINDS, EMERGENCY_VEHICLES, PREEMPTION_DETECTION_RANGE, preemptionStage
+} from './emergency';
+import { PedestrianModel } from './pedestrians';
+import { ConflictMonitor } from './conflicts';
+import { VehicleClass, VehicleClassId, VEHICLE_CLASSES, VEHICLE_CLASS_IDS, PX_PER_METRE, drawVehicleClass, idmAcceleration } from './vehicles';
+import { EmissionLedger, EmissionTotals, emissionRates, emittedOver, addEmissions, emptyEmissionTotals } from './emissions';
+import { SensorArray, SensorConfig, DEFAULT_SENSOR_CONFIG } from './sensors';
+import { WeatherScript, WeatherEffects, WeatherTimeline, DEFAULT_WEATHER_SCRIPT, adjustForWeather } from './weather';
+
+// One tick of the original animation loop. Vehicle speeds are still stored in px
+// per tick; the car-following model works in px/s and integrates over dt.
+export const FIXED_DT = 1 / 60;
+
+export const DIRECTIONS = [Direction.N, Direction.S, Direction.E, Direction.W];
+
+const DESPAWN_MARGIN = 200;
+const TURN_SPEED_FACTOR = 0.6;       // share of cruise speed used through a turn
+const TURN_SLOWDOWN_DISTANCE = 180;  // px before the stop line where turning vehicles start to slow
+const YIELD_LOOKAHEAD = 60;          // px before the stop line where a permitted left checks for gaps
+const CRITICAL_GAP = 4.5;            // s an opposing vehicle must be away from its stop line for a permitted left to go
+const QUEUE_HEAD_RANGE = 30;         // px; an opposing vehicle this close to its stop line may pull away at any moment
+const LEADER_LOOKAHEAD = 250;        // px ahead within which a vehicle follows the one in front
+const STOP_LINE_TOLERANCE = 0.5;     // px past the line a vehicle held there may have rolled through rounding
+const FLASH_STOP_TIME = 1;           // s a side-road vehicle stands at a flashing red before looking for a gap
+const MODE_EXIT_CLEARANCE = 2;       // s of all-red before the ring resumes after flash or all-red operation
+const BREAKDOWN_REACH = 20;          // px short of its breakdown spot at which a vehicle that has pulled up counts as there
+const BREAKDOWN_COLOR = '#b45309';
+const ENTRY_CLEARANCE = 100;         // px along the lane that must be free of other vehicles for an arrival to enter
+const QUEUE_GAP = 30;                // px between a stationary vehicle and the one in front for both to be in one queue
+export const LANE_CHANGE_CUTOFF = 100;   // px before the stop line inside which vehicles keep to their lane
+const LANE_CHANGE_RATE = 50;         // px/s a vehicle moves sideways while changing lane
+const LANE_CHANGE_GAIN = 10;         // px/s² of extra acceleration that makes a change of lane worth it
+const LANE_CHANGE_COOLDOWN = 3;      // s after one change of lane before a vehicle considers another
+
+export interface SimulationOptions {
+  seed: number;
+  weather?: WeatherScript;
+  sensors?: SensorConfig;
+  demand?: DemandProfile;
+  center?: Vec;                  // where the junction sits in world coordinates
+  externalApproaches?: Direction[];  // approaches fed by the demand model rather than a neighbour
+  linkedExits?: Direction[];     // travel directions that continue into a neighbouring junction
+  lanes?: LaneConfig;
+}
+
+// `dir` is the lane the vehicle currently drives in; it switches to the exit
+// approach once a turn completes, while `origin` keeps the arrival approach.
+export interface SimVehicle extends Vehicle {
+  origin: Direction;
+  movement: Movement;
+  speedJitter: number;
+  turnDistance?: number;     // px travelled along the turning path, set only while turning
+  turned?: boolean;
+  emergency?: EmergencyKind;
+  vehicleClass: VehicleClassId;
+  clearing?: boolean;        // too close to stop when its signal changed, so it carries on through
+  reaction?: number;         // s spent stationary with the way ahead clear
+  stoppedAtLine?: boolean;   // has come to its full stop at a flashing red
+  breakdown?: Breakdown;     // scripted to stall on its approach
+  lane: number;              // lane of `dir` it is in or moving over to, 0 at the kerb
+  laneChangedAt?: number;    // simulated time of its last change of lane
+  trip: TripRecord;          // its way through this junction so far
+  emitted: EmissionTotals;   // everything emitted since entering the network
+}
+
+// A scripted breakdown: the vehicle pulls up `distance` px before its stop line and stands there for `duration` s
+export interface Breakdown {
+  distance: number;
+  duration: number;
+  until?: number;            // simulated time the vehicle moves off again, set once it has stalled
+}
+
+// Queue on one lane of an approach
+export interface LaneStats {
+  vehicles: number;          // in the lane and still to be served
+  queued: number;            // of those, held up in the queue
+  queueLength: number;       // px from the stop line back to the tail of the last queued vehicle
+  spillback: boolean;        // the queue reaches back to where vehicles enter
+}
+
+// Something a vehicle has to keep its distance from: the gap to it in px and its speed along our heading in px/s
+interface Obstacle {
+  gap: number;
+  speed: number;
+}
+
+// A vehicle that has arrived but is still waiting for space at the entry point
+interface PendingVehicle {
+  id: string;
+  vehicleClass: VehicleClassId;
+  speedJitter: number;
+  color: string;
+  movement: Movement;
+  speed: number;
+  emergency?: EmergencyKind;
+  emitted?: EmissionTotals;
+  breakdown?: Breakdown;
+  lane?: number;             // the lane it drove on in from a neighbour
+  arrivedAt: number;
+}
+
+export interface StepResult {
+  emissions: number;             // g of CO₂
+  exited: number;
+  waitTime: number;
+  timerExpired: boolean;
+  handoffs: SimVehicle[];        // vehicles that drove on into a linked neighbour this step
+  departed: SimVehicle[];        // vehicles that left the model for good this step
+}
+
+/**
+ * React-free model of the intersection. Owns the vehicles, the signal timer and
+ * the demand model, and advances them together on simulated time. When the
+ * timer runs out the engine raises `awaitingDecision` and holds the timer until
+ * the controller calls `applySignal`.
+ */
+export class TrafficSimulation {
+  public vehicles: SimVehicle[] = [];
+  public time = 0;
+  public totalEmissions = 0;
+  public vehiclesPassed = 0;
+  public vehiclesArrived = 0;
+  public stage: SignalStage = INITIAL_STAGE;
+  public nextStage: SignalStage = stageAfter(INITIAL_STAGE);
+  public activeSide: TrafficSide = STAGE_SIDE[INITIAL_STAGE];
+  public phase: Phase = Phase.GREEN;
+  public timer = MIN_GREEN_TIME;
+  public awaitingDecision = false;
+  public mode: SignalMode = 'normal';
+  public autoSpawn = true;
+  public demandSurge: Record<Direction, number> = { N: 1, S: 1, E: 1, W: 1 };   // scripted multiplier on each approach's arrival rate
+  public weather: string;           // the condition that currently dominates the script
+  public weatherEffects!: WeatherEffects;
+  public demand: DemandGenerator;
+  public readonly seed: number;
+  public readonly center: Vec;
+  public readonly lanes: LaneConfig;
+  public readonly laneCounts: LaneCounts;
+  private externalApproaches: Direction[];
+  private linkedExits: Direction[];
+  private rng: SeededRandom;
+  private weatherTimeline: WeatherTimeline;
+  private classes!: Record<VehicleClassId, VehicleClass>;   // the catalog as driven in the current weather
+  private entryQueues: Record<Direction, PendingVehicle[]> = { N: [], S: [], E: [], W: [] };
+  private phaseStartedAt = 0;
+  private preemption: PreemptionEvent | null = null;
+  private emergencyCount = 0;
+  private breakdownCount = 0;
+  public preemptionEvents: PreemptionEvent[] = [];
+  public crossings: PedestrianModel;
+  public conflicts: ConflictMonitor;
+  public emissionLedger = new EmissionLedger();
+  public tripLog = new TripLog();
+  public sensors: SensorArray;
+
+  constructor({
+    seed, weather = DEFAULT_WEATHER_SCRIPT, sensors = DEFAULT_SENSOR_CONFIG, demand = DEFAULT_DEMAND_PROFILE, center = CENTER,
+    externalApproaches = DIRECTIONS, linkedExits = [], lanes = DEFAULT_LANE_CONFIG,
+  }: SimulationOptions) {
+    this.seed = seed;
+    this.weather = weather.initial;
+    this.weatherTimeline = new WeatherTimeline(weather);
+    this.center = center;
+    this.lanes = lanes;
+    this.laneCounts = laneCounts(lanes);
+    this.externalApproaches = externalApproaches;
+    this.linkedExits = linkedExits;
+    this.rng = new SeededRandom(seed);
+    this.demand = new DemandGenerator(demand, this.rng);
+    this.crossings = new PedestrianModel(this.rng, center);
+    this.conflicts = new ConflictMonitor(center);
+    this.sensors = new SensorArray(sensors, (seed ^ 0x5e45) >>> 0);
+    this.updateWeather();
+  }
+
+  reset() {
+    this.rng = new SeededRandom(this.seed);
+    this.demand = new DemandGenerator(this.demand.profile, this.rng);
+    this.entryQueues = { N: [], S: [], E: [], W: [] };
+    this.vehicles = [];
+    this.time = 0;
+    this.totalEmissions = 0;
+    this.emissionLedger.reset();
+    this.tripLog.reset();
+    this.sensors.reset();
+    this.weatherTimeline = new WeatherTimeline(this.weatherTimeline.script);
+    this.updateWeather();
+    this.vehiclesPassed = 0;
+    this.vehiclesArrived = 0;
+    this.stage = INITIAL_STAGE;
+    this.nextStage = stageAfter(INITIAL_STAGE);
+    this.activeSide = STAGE_SIDE[INITIAL_STAGE];
+    this.phase = Phase.GREEN;
+    this.timer = MIN_GREEN_TIME;
+    this.awaitingDecision = false;
+    this.mode = 'normal';
+    this.phaseStartedAt = 0;
+    this.preemption = null;
+    this.emergencyCount = 0;
+    this.breakdownCount = 0;
+    this.demandSurge = { N: 1, S: 1, E: 1, W: 1 };
+    this.preemptionEvents = [];
+    this.crossings.reset(this.rng);
+    this.conflicts.reset();
+  }
+
+  applySignal({ stage, nextStage, phase, duration }: SignalState) {
+    if (stage !== this.stage || phase !== this.phase) this.phaseStartedAt = this.time;
+    this.stage = stage;
+    this.nextStage = nextStage;
+    this.activeSide = STAGE_SIDE[stage];
+    this.phase = phase;
+    this.timer = duration;
+    this.awaitingDecision = false;
+  }
+
+  /**
+   * Leaves or returns to the normal ring. A preemption in progress is dropped,
+   * since whoever took the junction out of the ring now has it; the ring
+   * resumes with the interrupted stage after an all-red clearance.
+   */
+  setMode(mode: SignalMode) {
+    if (mode === this.mode) return;
+    if (this.preemption) {
+      this.preemption.clearedAt = this.time;
+      this.preemption = null;
+    }
+    this.mode = mode;
+    this.awaitingDecision = false;
+    if (mode === 'normal') {
+      this.applySignal({ phase: Phase.RED, stage: this.stage, nextStage: this.stage, duration: MODE_EXIT_CLEARANCE });
+      this.phaseStartedAt = this.time;
+    }
+  }
+
+  getSignal(): Omit<SignalState, 'duration'> {
+    return { phase: this.phase, stage: this.stage, nextStage: this.nextStage };
+  }
+
+  // The preemption in progress, if an emergency vehicle currently has control of the signal
+  get activePreemption(): PreemptionEvent | null {
+    return this.preemption;
+  }
+
+  // What the signal currently shows to the given movement on an approach
+  signalFor(dir: Direction, movement: Movement): MovementSignal {
+    if (this.mode !== 'normal') return modeSignal(this.mode, dir, movement);
+    if (this.preemption?.greenAt != null) return dir === this.preemption.approach ? 'protected' : 'stop';
+    return movementSignal(this.stage, this.phase, dir, movement);
+  }
+
+  // Vehicles still to be served per approach, including arrivals held back at the entry
+  getQueueCounts(): Record<Direction, number> {
+    const counts = this.getEntryBacklog();
+    this.vehicles.forEach(v => { if (!v.passed) counts[v.dir]++; });
+    return counts;
+  }
+
+  // s each arrival still held back at the entry has been standing there
+  getEntryWaits(): number[] {
+    return DIRECTIONS.flatMap(dir => this.entryQueues[dir].map(p => this.time - p.arrivedAt));
+  }
+
+  getEntryBacklog(): Record<Direction, number> {
+    return {
+      N: this.entryQueues.N.length, S: this.entryQueues.S.length,
+      E: this.entryQueues.E.length, W: this.entryQueues.W.length,
+    };
+  }
+
+  // Vehicles still to be served per approach and movement, including the entry backlog
+  getMovementQueues(): Record<Direction, Record<Movement, number>> {
+    const counts = {} as Record<Direction, Record<Movement, number>>;
+    DIRECTIONS.forEach(dir => {
+      counts[dir] = { left: 0, through: 0, right: 0 };
+      this.entryQueues[dir].forEach(p => { counts[dir][p.movement]++; });
+    });
+    this.vehicles.forEach(v => { if (!v.passed) counts[v.origin][v.movement]++; });
+    return counts;
+  }
+
+  /**
+   * The queue on each lane runs back from the stop line, or from a stalled
+   * vehicle, through every stationary vehicle standing close behind the one
+   * in front; it has spilled back once it reaches the entry.
+   */
+  getLaneStats(): Record<Direction, LaneStats[]> {
+    const stats = {} as Record<Direction, LaneStats[]>;
+    DIRECTIONS.forEach(dir => {
+      const approaching = this.vehicles.filter(v => v.dir === dir && !v.passed && !v.turned && v.turnDistance === undefined);
+      stats[dir] = Array.from({ length: this.lanes[dir].count }, (_, lane) => {
+        const inLane = approaching.filter(v => v.lane === lane);
+        const standing = inLane.filter(v => v.isStopping)
+          .map(v => ({ v, distance: this.distanceToStopLine(v) }))
+          .sort((a, b) => a.distance - b.distance);
+        let queued = 0, queueLength = 0;
+        for (const { v, distance } of standing) {
+          const head = queued === 0 && v.breakdown?.until !== undefined;
+          if (!head && distance - queueLength > QUEUE_GAP) break;
+          queued++;
+          queueLength = Math.max(0, distance) + v.length;
+        }
+        const spillback = queueLength >= halfExtent(dir) + ENTRY_OFFSET - STOP_LINE_OFFSET - ENTRY_CLEARANCE;
+        return { vehicles: inLane.length, queued, queueLength, spillback };
+      });
+    });
+    return stats;
+  }
+
+  // Seconds since the current phase (stage + colour) began
+  getPhaseElapsed(): number {
+    return this.time - this.phaseStartedAt;
+  }
+
+  // Distance in px from the vehicle's front to its stop line; negative once past it
+  distanceToStopLine(v: Vehicle): number {
+    return -STOP_LINE_OFFSET - alongApproach(v.dir, v.x, v.y, this.center);
+  }
+
+  // Vehicles within `range` px upstream of their stop line, as a presence detector would see them; poor visibility shortens the range
+  getApproachCounts(range: number, movements?: Movement[]): Record<Direction, number> {
+    const counts = { N: 0, S: 0, E: 0, W: 0 };
+    this.vehicles.forEach(v => {
+      const distance = this.distanceToStopLine(v);
+      if (movements && !movements.includes(v.movement)) return;
+      if (!v.passed && distance >= 0 && distance <= range * this.weatherEffects.detection) counts[v.dir]++;
+    });
+    return counts;
+  }
+
+  get weatherScript(): WeatherScript {
+    return this.weatherTimeline.script;
+  }
+
+  // Takes effect at once; vehicles already on the road adapt from the next step
+  setWeather(script: WeatherScript) {
+    this.weatherTimeline = new WeatherTimeline(script);
+    this.updateWeather();
+  }
+
+  private updateWeather() {
+    const { weather, effects } = this.weatherTimeline.at(this.time);
+    this.weather = weather;
+    this.weatherEffects = effects;
+    this.classes = {} as Record<VehicleClassId, VehicleClass>;
+    VEHICLE_CLASS_IDS.forEach(id => { this.classes[id] = adjustForWeather(VEHICLE_CLASSES[id], effects); });
+  }
+
+  // Free-flow speed in px per tick for the current weather
+  private freeSpeed({ vehicleClass, speedJitter, emergency }: Pick<SimVehicle, 'vehicleClass' | 'speedJitter' | 'emergency'>): number {
+    return this.weatherEffects.speed * speedJitter * VEHICLE_CLASSES[vehicleClass].speedFactor *
+      (emergency ? EMERGENCY_VEHICLES[emergency].speedFactor : 1);
+  }
+
+  setDemand(profile: DemandProfile) {
+    this.demand = new DemandGenerator(profile, this.rng);
+  }
+
+  /**
+   * Registers an arrival on `dir`. Its attributes are drawn immediately so the
+   * random sequence doesn't depend on how long the vehicle waits to enter.
+   */
+  spawn(dir: Direction) {
+    const vehicleClass = drawVehicleClass(this.demand.profile.vehicleMix, this.rng);
+    const id = this.rng.id();
+    const speedJitter = 0.8 + this.rng.next() * 0.4;
+    const hue = this.rng.next() * 360;
+    const movement = this.drawMovement(dir);
+    const emergency = this.drawEmergency();
+    const { color } = VEHICLE_CLASSES[vehicleClass];
+    this.entryQueues[dir].push(emergency
+      ? {
+        id, vehicleClass: EMERGENCY_VEHICLES[emergency].vehicleClass, speedJitter: 1, color: EMERGENCY_VEHICLES[emergency].color, movement,
+        speed: 0, emergency, arrivedAt: this.time,
+      }
+      : { id, vehicleClass, speedJitter, color: color || `hsl(${hue}, 50%, 45%)`, movement, speed: 0, arrivedAt: this.time });
+    this.vehiclesArrived++;
+  }
+
+  // Manually dispatched emergency vehicles stay off the seeded sequence so scripted runs are unaffected
+  spawnEmergency(dir: Direction, kind: EmergencyKind, movement: Movement = 'through') {
+    const { vehicleClass, color } = EMERGENCY_VEHICLES[kind];
+    this.entryQueues[dir].push({
+      id: `emergency-${++this.emergencyCount}`, vehicleClass, speedJitter: 1, color, movement, speed: 0, emergency: kind,
+      arrivedAt: this.time,
+    });
+    this.vehiclesArrived++;
+  }
+
+  // Scripted breakdowns stay off the seeded sequence too; the truck enters like any arrival and stalls where it is told to
+  spawnBreakdown(dir: Direction, distance: number, duration: number) {
+    this.entryQueues[dir].push({
+      id: `breakdown-${++this.breakdownCount}`, vehicleClass: 'truck', speedJitter: 1, color: BREAKDOWN_COLOR,
+      movement: 'through', speed: 0, breakdown: { distance, duration }, arrivedAt: this.time,
+    });
+    this.vehiclesArrived++;
+  }
+
+  // Takes over a vehicle that left a neighbouring junction; it picks a new movement here
+  receive(dir: Direction, v: SimVehicle) {
+    this.entryQueues[dir].push({
+      id: v.id, vehicleClass: v.vehicleClass, speedJitter: v.speedJitter, color: v.color,
+      movement: this.drawMovement(dir), speed: v.currentSpeed || 0, emergency: v.emergency, emitted: v.emitted, lane: v.lane,
+      arrivedAt: this.time,
+    });
+    this.vehiclesArrived++;
+  }
+
+  // Straight-only profiles skip the draw so their random sequence is unchanged
+  private drawMovement(dir: Direction): Movement {
+    const { left, right } = this.demand.profile.turnRatios[dir];
+    if (left + right <= 0) return 'through';
+    const roll = this.rng.next();
+    return roll < left ? 'left' : roll < left + right ? 'right' : 'through';
+  }
+
+  // Profiles without emergency traffic skip the draw, like straight-only profiles skip the movement draw
+  private drawEmergency(): EmergencyKind | undefined {
+    const share = this.demand.profile.emergencyShare;
+    if (!(share > 0) || this.rng.next() >= share) return undefined;
+    return this.rng.pick(EMERGENCY_KINDS);
+  }
+
+  private releaseEntryQueues() {
+    DIRECTIONS.forEach(dir => {
+      const pending = this.entryQueues[dir][0];
+      if (pending && this.placeVehicle(dir, pending)) this.entryQueues[dir].shift();
+    });
+  }
+
+  private placeVehicle(dir: Direction, pending: PendingVehicle): boolean {
+    const { id, vehicleClass, speedJitter, color, movement, speed, emergency, emitted, breakdown, arrivedAt } = pending;
+    const lane = this.entryLane(dir, pending);
+    if (lane === null) return false;
+    // Enter beyond the edge of the tile
+    const { x, y } = toScreen(dir, -(halfExtent(dir) + ENTRY_OFFSET), laneOffset(this.lanes[dir].count, lane), this.center);
+
+    const cls = VEHICLE_CLASSES[vehicleClass];
+    const vehicle: SimVehicle = {
+      id, x, y, vx: TRAVEL[dir].x, vy: TRAVEL[dir].y, angle: headingAngle(TRAVEL[dir]),
+      dir, origin: dir, movement, type: cls.body, vehicleClass, speedJitter, color, length: cls.length,
+      maxSpeed: this.freeSpeed({ vehicleClass, speedJitter, emergency }),
+      currentSpeed: speed, passed: false, waiting: 0, emergency, breakdown, lane,
+      trip: startTrip(arrivedAt, this.time), emitted: emitted || emptyEmissionTotals(),
+    };
+    this.vehicles = [...this.vehicles, vehicle];
+    return true;
+  }
+
+  /**
+   * Arrivals take the emptiest lane that serves their movement and has room
+   * at the entry; a vehicle driving on from a neighbour keeps its lane and
+   * changes on the approach if it has to.
+   */
+  private entryLane(dir: Direction, { movement, lane }: PendingVehicle): number | null {
+    const lanes = this.lanes[dir];
+    const candidates = lane !== undefined ? [Math.min(lane, lanes.count - 1)] : lanesFor(lanes, movement);
+    const entry = -(halfExtent(dir) + ENTRY_OFFSET);
+    const open = candidates.filter(l => !this.vehicles.some(v =>
+      v.dir === dir && this.occupies(v, l) && Math.abs(alongApproach(v.dir, v.x, v.y, this.center) - entry) < ENTRY_CLEARANCE));
+    if (open.length === 0) return null;
+    const load = (l: number) => this.vehicles.filter(v => v.dir === dir && !v.passed && v.lane === l).length;
+    return open.reduce((best, l) => load(l) < load(best) ? l : best);
+  }
+
+  // Whether any part of the vehicle is in `lane` of the road it drives on, including while it moves over
+  private occupies(v: SimVehicle, lane: number): boolean {
+    if (v.lane === lane) return true;
+    const { count } = this.lanes[v.dir];
+    return Math.abs(acrossApproach(v.dir, v.x, v.y, this.center) - laneOffset(count, lane)) < laneWidth(count) / 2;
+  }
+
+  step(dt: number = FIXED_DT): StepResult {
+    this.updateWeather();
+    const prevVehicles = this.vehicles;
+    let emissions = 0;
+    let waitTime = 0;
+
+    const updatedVehicles = prevVehicles.map(current => {
+      const v = this.changeLane(current, prevVehicles);
+      const cls = this.classes[v.vehicleClass];
+      const speed = (v.currentSpeed || 0) / FIXED_DT;
+      const clearing = this.isClearing(v, speed);
+      const obstacles = this.findObstacles({ ...v, clearing }, prevVehicles);
+      const desired = this.cruiseSpeed(v) / FIXED_DT;
+      let accel = obstacles.length > 0
+        ? Math.min(...obstacles.map(o => idmAcceleration(cls, speed, desired, o.gap, o.speed)))
+        : idmAcceleration(cls, speed, desired, null);
+
+      // Pulling away from a standstill waits out the driver's reaction time
+      const stationary = (v.currentSpeed || 0) < STOP_THRESHOLD;
+      const reaction = stationary && accel > 0 ? (v.reaction || 0) + dt : 0;
+      if (stationary && accel > 0 && reaction < cls.reactionTime) accel = 0;
+
+      // Ballistic update; a vehicle that runs out of speed within the step stops where it does
+      let newSpeed = speed + accel * dt;
+      let distance = newSpeed >= 0 ? ((speed + newSpeed) / 2) * dt : (speed * speed) / (-2 * accel);
+      newSpeed = Math.max(0, newSpeed);
+
+      // Whatever the step size, nobody drives into what is ahead of them
+      const nearest = obstacles.reduce<Obstacle | null>((a, b) => !a || b.gap < a.gap ? b : a, null);
+      if (nearest && distance > Math.max(0, nearest.gap)) {
+        distance = Math.max(0, nearest.gap);
+        newSpeed = Math.min(newSpeed, Math.max(0, nearest.speed));
+      }
+
+      const isStopping = obstacles.length > 0 && newSpeed * FIXED_DT < STOP_THRESHOLD;
+      // Emissions follow the motion actually made this step, in real-world units
+      const rates = emissionRates(cls.emission, newSpeed / PX_PER_METRE, (newSpeed - speed) / dt / PX_PER_METRE);
+      const emitted = emittedOver(rates, dt, distance / PX_PER_METRE / 1000);
+      this.emissionLedger.record(v.origin, emitted);
+      emissions += emitted.co2;
+      if (isStopping) waitTime += dt;
+
+      const moved = this.steer(this.advance({ ...v, passed: v.passed || this.hasCrossedCentre(v) }, distance), dt);
+      return {
+        ...moved,
+        trip: this.updateTrip(v, moved, distance, newSpeed * FIXED_DT, emitted, dt),
+        currentSpeed: newSpeed * FIXED_DT, maxSpeed: this.freeSpeed(v), isStopping, clearing, reaction,
+        emitted: addEmissions(v.emitted, emitted),
+        waiting: isStopping ? (v.waiting || 0) + dt : 0,
+        stoppedAtLine: v.stoppedAtLine || this.hasStoppedAtFlash(v),
+        breakdown: this.updateBreakdown(v, newSpeed * FIXED_DT, distance),
+      };
+    });
+
+    let exited = 0;
+    const handoffs: SimVehicle[] = [];
+    const departed: SimVehicle[] = [];
+    this.vehicles = updatedVehicles.filter(v => {
+      if (this.linkedExits.includes(v.dir) && alongApproach(v.dir, v.x, v.y, this.center) >= halfExtent(v.dir) + ENTRY_OFFSET) {
+        handoffs.push(v);
+        this.completeTrip(v, dt);
+        exited++;
+        return false;
+      }
+      const inBounds = Math.abs(v.x - this.center.x) < CANVAS_WIDTH / 2 + DESPAWN_MARGIN &&
+                       Math.abs(v.y - this.center.y) < CANVAS_HEIGHT / 2 + DESPAWN_MARGIN;
+      if (!inBounds && v.passed) {
+        exited++;
+        departed.push(v);
+        this.completeTrip(v, dt);
+        this.emissionLedger.completeTrip(v.emitted);
+      }
+      return inBounds;
+    });
+
+    this.time += dt;
+    this.totalEmissions = Math.max(0, this.totalEmissions + emissions);
+    this.vehiclesPassed += exited;
+    this.conflicts.observe(this, prevVehicles, dt);
+    this.sensors.update(this, dt);
+
+    if (this.autoSpawn) this.demand.arrivals(this.time, dt, this.externalApproaches, this.demandSurge).forEach(dir => this.spawn(dir));
+    this.releaseEntryQueues();
+
+    if (this.autoSpawn) this.crossings.arrivals(this.demand.profile.pedestrianRate, dt);
+    // Pedestrians get no walk phase outside the ring, as under preemption
+    this.crossings.step(dt, this.stage, this.phase, this.preemption?.greenAt != null || this.mode !== 'normal');
+
+    if (!this.preemption && this.mode === 'normal') this.detectEmergency();
+
+    let timerExpired = false;
+    if (this.preemption) {
+      timerExpired = this.advancePreemption(dt);
+    } else if (this.mode === 'normal' && !this.awaitingDecision) {
+      this.timer = Math.max(0, this.timer - dt);
+      if (this.timer <= 0) {
+        this.awaitingDecision = true;
+        timerExpired = true;
+      }
+    }
+
+    return { emissions, exited, waitTime, timerExpired, handoffs, departed };
+  }
+
+  // --- Trips ---
+  // Delay is whatever the step took beyond covering the same distance at the speed the vehicle would cruise at here
+  private updateTrip(v: SimVehicle, moved: SimVehicle, distance: number, newSpeed: number, emitted: EmissionTotals, dt: number): TripRecord {
+    const { trip } = v;
+    const now = this.time + dt;
+    const cruise = this.cruiseSpeed(v) / FIXED_DT;
+    const atStopLine = moved.passed || this.distanceToStopLine(moved) <= 0;
+    const cleared = (moved.movement === 'through' || moved.turned) && alongApproach(moved.dir, moved.x, moved.y, this.center) >= STOP_LINE_OFFSET;
+    return {
+      ...trip,
+      ...nextStopState(trip, newSpeed, v.maxSpeed),
+      delay: trip.delay + Math.max(0, dt - (cruise > 0 ? distance / cruise : 0)),
+      reachedStopLineAt: trip.reachedStopLineAt ?? (atStopLine ? now : null),
+      clearedAt: trip.clearedAt ?? (cleared ? now : null),
+      emitted: addEmissions(trip.emitted, emitted),
+    };
+  }
+
+  private completeTrip({ id, origin, movement, vehicleClass, trip }: SimVehicle, dt: number) {
+    const completedAt = this.time + dt;
+    this.tripLog.record({
+      id, approach: origin, movement, vehicleClass, completedAt, travelTime: completedAt - trip.spawnedAt,
+      spawnedAt: trip.spawnedAt, reachedStopLineAt: trip.reachedStopLineAt, clearedAt: trip.clearedAt,
+      delay: trip.delay, stops: trip.stops, emitted: trip.emitted,
+    });
+  }
+
+  // --- Emergency Preemption ---
+  private detectEmergency() {
+    const caller = this.vehicles.find(v => {
+      if (!v.emergency || v.passed) return false;
+      const distance = this.distanceToStopLine(v);
+      return distance >= 0 && distance <= PREEMPTION_DETECTION_RANGE * this.weatherEffects.detection;
+    });
+    if (!caller) return;
+
+    const stage = preemptionStage(caller.origin);
+    this.preemption = {
+      vehicleId: caller.id, kind: caller.emergency!, approach: caller.origin, movement: caller.movement, stage,
+      detectedAt: this.time, greenAt: null, clearedAt: null, emergencyDelay: 0, otherDelay: 0,
+    };
+    this.preemptionEvents.push(this.preemption);
+    this.awaitingDecision = false;
+
+    // A running yellow or all-red finishes as normal, a green clears the junction through yellow first
+    if (this.phase !== Phase.GREEN) {
+      this.nextStage = stage;
+    } else {
+      this.applySignal({ phase: Phase.YELLOW, stage: this.stage, nextStage: stage, duration: YELLOW_TIME });
+    }
+  }
+
+  /**
+   * Runs the preemption sequence for one step: counts down the clearance
+   * yellow, holds green for the emergency approach and, once the vehicle has
+   * cleared, expires the timer so the regular controller takes over again.
+   */
+  private advancePreemption(dt: number): boolean {
+    const event = this.preemption!;
+    this.vehicles.forEach(v => {
+      if (!v.isStopping) return;
+      if (v.id === event.vehicleId) event.emergencyDelay += dt;
+      else event.otherDelay += dt;
+    });
+
+    if (this.phase !== Phase.GREEN) {
+      this.timer = Math.max(0, this.timer - dt);
+      if (this.timer > 0) return false;
+      this.applySignal({ phase: Phase.GREEN, stage: event.stage, nextStage: stageAfter(event.stage), duration: 0 });
+    }
+    if (event.greenAt === null) event.greenAt = this.time;
+
+    const caller = this.vehicles.find(v => v.id === event.vehicleId);
+    if (caller && !caller.passed) return false;
+
+    event.clearedAt = this.time;
+    this.preemption = null;
+    this.timer = 0;
+    this.awaitingDecision = true;
+    return true;
+  }
+
+  // Moves the vehicle `distance` px along its path: straight in its lane, or through its turn
+  private advance(v: SimVehicle, distance: number): SimVehicle {
+    if (v.movement === 'through' || v.turned) {
+      return { ...v, x: v.x + v.vx * distance, y: v.y + v.vy * distance };
+    }
+
+    const movement = v.movement;
+    let travelled: number;
+    if (v.turnDistance !== undefined) {
+      travelled = v.turnDistance + distance;
+    } else {
+      const s = alongApproach(v.dir, v.x, v.y, this.center) + distance;
+      if (s < TURN_START) return { ...v, x: v.x + v.vx * distance, y: v.y + v.vy * distance };
+      // Committed once over the stop line, even though right turns never reach the centre
+      travelled = s - TURN_START;
+    }
+
+    // The turn runs from the lane it is in to the nearest lane of the road it joins
+    const exit = exitDirection(v.origin, movement);
+    const lane = exitLane(this.lanes[exit], movement, v.lane);
+    const from = laneOffset(this.lanes[v.origin].count, v.lane), to = laneOffset(this.lanes[exit].count, lane);
+    const length = turnLength(movement, from, to);
+    if (travelled < length) {
+      return { ...v, ...turnPose(v.origin, movement, travelled, this.center, from, to), turnDistance: travelled, passed: true };
+    }
+
+    const end = turnPose(v.origin, movement, length, this.center, from, to);
+    const overshoot = travelled - length;
+    return {
+      ...v, dir: exit, lane, vx: TRAVEL[exit].x, vy: TRAVEL[exit].y, angle: headingAngle(TRAVEL[exit]),
+      x: end.x + TRAVEL[exit].x * overshoot, y: end.y + TRAVEL[exit].y * overshoot,
+      turnDistance: undefined, turned: true, passed: true,
+    };
+  }
+
+  // Drifts the vehicle sideways towards the middle of its lane; a turn steers itself
+  private steer(v: SimVehicle, dt: number): SimVehicle {
+    if (v.turnDistance !== undefined) return v;
+    const across = acrossApproach(v.dir, v.x, v.y, this.center);
+    const offset = laneOffset(this.lanes[v.dir].count, v.lane) - across;
+    if (Math.abs(offset) < 0.01) return v;
+    const shift = Math.max(-LANE_CHANGE_RATE * dt, Math.min(LANE_CHANGE_RATE * dt, offset));
+    return { ...v, ...toScreen(v.dir, alongApproach(v.dir, v.x, v.y, this.center), across + shift, this.center) };
+  }
+
+  // --- Lane Changing ---
+  /**
+   * Picks the lane the vehicle heads for this step. Outside the no-change
+   * zone before the stop line it moves over when its lane does not serve its
+   * movement, or when the next lane lets it accelerate noticeably harder.
+   * Either way the gap has to be safe: neither the vehicle nor the one it cuts
+   * in front of may have to brake harder than comfortably.
+   */
+  private changeLane(v: SimVehicle, others: SimVehicle[]): SimVehicle {
+    const lanes = this.lanes[v.dir];
+    if (lanes.count === 1 || v.passed || v.turned || v.turnDistance !== undefined || v.breakdown) return v;
+    if (this.distanceToStopLine(v) < LANE_CHANGE_CUTOFF) return v;
+    if (v.laneChangedAt !== undefined && this.time - v.laneChangedAt < LANE_CHANGE_COOLDOWN) return v;
+
+    const serving = lanesFor(lanes, v.movement);
+    const mandatory = !serving.includes(v.lane);
+    const current = mandatory ? -Infinity : this.laneAcceleration(v, v.lane, others)!;
+    let best = v.lane, bestGain = mandatory ? -Infinity : LANE_CHANGE_GAIN;
+    serving.filter(lane => Math.abs(lane - v.lane) === 1).forEach(lane => {
+      const accel = this.laneAcceleration(v, lane, others);
+      if (accel !== null && accel - current > bestGain) {
+        best = lane;
+        bestGain = accel - current;
+      }
+    });
+    return best === v.lane ? v : { ...v, lane: best, laneChangedAt: this.time };
+  }
+
+  // Acceleration the vehicle could hold in `lane`, or null if moving into it would not be safe
+  private laneAcceleration(v: SimVehicle, lane: number, others: SimVehicle[]): number | null {
+    const cls = this.classes[v.vehicleClass];
+    const speed = (v.currentSpeed || 0) / FIXED_DT;
+    const along = alongApproach(v.dir, v.x, v.y, this.center);
+    let leader: { o: SimVehicle; gap: number } | null = null;
+    let follower: { o: SimVehicle; gap: number } | null = null;
+    for (const o of others) {
+      if (o.id === v.id || o.dir !== v.dir || o.turnDistance !== undefined || !this.occupies(o, lane)) continue;
+      const ahead = alongApproach(o.dir, o.x, o.y, this.center) - along;
+      const gap = Math.abs(ahead) - (v.length + o.length) / 2;
+      if (ahead > 0 && ahead <= LEADER_LOOKAHEAD && (!leader || gap < leader.gap)) leader = { o, gap };
+      if (ahead <= 0 && (!follower || gap < follower.gap)) follower = { o, gap };
+    }
+
+    const accel = leader
+      ? idmAcceleration(cls, speed, this.cruiseSpeed(v) / FIXED_DT, leader.gap, (leader.o.currentSpeed || 0) / FIXED_DT)
+      : idmAcceleration(cls, speed, this.cruiseSpeed(v) / FIXED_DT, null);
+    if (lane === v.lane) return accel;
+
+    if (leader && (leader.gap < cls.minGap || accel < -cls.comfortDecel)) return null;
+    if (follower) {
+      const behind = this.classes[follower.o.vehicleClass];
+      const braking = idmAcceleration(
+        behind, (follower.o.currentSpeed || 0) / FIXED_DT, this.cruiseSpeed(follower.o) / FIXED_DT, follower.gap, speed
+      );
+      if (follower.gap < behind.minGap || braking < -behind.comfortDecel) return null;
+    }
+    return accel;
+  }
+
+  // A vehicle in a lane that does not serve its movement waits short of the no-change zone for a gap to move over
+  private laneEndGap(v: SimVehicle): number | null {
+    if (v.passed || v.turned || v.turnDistance !== undefined) return null;
+    if (laneMovements(this.lanes[v.dir], v.lane).includes(v.movement)) return null;
+    const gap = this.distanceToStopLine(v) - LANE_CHANGE_CUTOFF;
+    // Already inside the zone it makes its movement from where it is rather than stand there for good
+    return gap >= 0 ? gap : null;
+  }
+
+  private cruiseSpeed(v: SimVehicle): number {
+    const free = this.freeSpeed(v);
+    if (v.movement === 'through' || v.turned) return free;
+    const toTurn = TURN_START - alongApproach(v.dir, v.x, v.y, this.center);
+    const isTurning = v.turnDistance !== undefined || toTurn < TURN_SLOWDOWN_DISTANCE;
+    return isTurning ? free * TURN_SPEED_FACTOR : free;
+  }
+
+  // Everything the vehicle has to keep its distance from this step
+  private findObstacles(v: SimVehicle, others: SimVehicle[]): Obstacle[] {
+    const obstacles: Obstacle[] = [];
+    if (this.isHeldAtSignal(v) || this.mustYield(v)) obstacles.push({ gap: this.distanceToStopLine(v), speed: 0 });
+    const laneEnd = this.laneEndGap(v);
+    if (laneEnd !== null) obstacles.push({ gap: laneEnd, speed: 0 });
+    const breakdown = this.breakdownGap(v);
+    if (breakdown !== null) obstacles.push({ gap: breakdown, speed: 0 });
+    const leader = this.findLeader(v, others);
+    if (leader) obstacles.push(leader);
+    const pedestrian = this.crossings.gapAhead(v.x, v.y, v.angle, v.length);
+    if (pedestrian !== null) obstacles.push({ gap: pedestrian, speed: 0 });
+    return obstacles;
+  }
+
+  /**
+   * A vehicle that would have to brake harder than it can to stop at its line
+   * when the signal changes carries on through; the decision sticks until it
+   * is past the line or has come to a halt anyway.
+   */
+  private isClearing(v: SimVehicle, speed: number): boolean {
+    if (v.passed || v.turned || v.turnDistance !== undefined) return false;
+    if (this.signalFor(v.origin, v.movement) !== 'stop') return false;
+    if (v.clearing) return (v.currentSpeed || 0) >= STOP_THRESHOLD;
+    const distance = this.distanceToStopLine(v);
+    return distance > 0 && (speed * speed) / (2 * distance) > this.classes[v.vehicleClass].maxDecel;
+  }
+
+  private isHeldAtSignal(v: SimVehicle): boolean {
+    if (v.passed || v.turned || v.turnDistance !== undefined || v.clearing) return false;
+    if (this.signalFor(v.origin, v.movement) !== 'stop') return false;
+    const distance = this.distanceToStopLine(v);
+    return distance > -STOP_LINE_TOLERANCE && distance < STOP_ZONE_START - STOP_LINE_OFFSET;
+  }
+
+  /**
+   * Left turners without a protected arrow wait at the stop line until no
+   * conflicting vehicle is using the junction and nothing on the opposing
+   * approach could reach the junction within the critical gap.
+   */
+  private mustYield(v: SimVehicle): boolean {
+    if (this.mode === 'flash' && !isFlashMainRoad(v.origin)) return this.mustYieldAtFlash(v);
+    if (v.movement !== 'left' || v.turned || v.turnDistance !== undefined) return false;
+    if (this.signalFor(v.origin, 'left') === 'protected') return false;
+    if (alongApproach(v.dir, v.x, v.y, this.center) < TURN_START - YIELD_LOOKAHEAD) return false;
+
+    return this.vehicles.some(o => {
+      if (o.id === v.id || o.turned || !movementsConflict(v.origin, 'left', o.origin, o.movement, this.laneCounts)) return false;
+      if (o.turnDistance !== undefined) return true;
+      const along = alongApproach(o.dir, o.x, o.y, this.center);
+      if (along >= -STOP_LINE_OFFSET && along <= STOP_LINE_OFFSET) return true;
+      const distance = this.distanceToStopLine(o);
+      if (o.origin !== oppositeOf(v.origin) || distance < 0 || this.signalFor(o.origin, o.movement) === 'stop') return false;
+      return distance <= QUEUE_HEAD_RANGE || distance <= ((o.currentSpeed || 0) / FIXED_DT) * CRITICAL_GAP;
+    });
+  }
+
+  // --- Scripted Breakdowns ---
+  // Gap to a standing obstacle that brings the vehicle to rest at its breakdown spot; zero holds it there while stalled
+  private breakdownGap(v: SimVehicle): number | null {
+    const { breakdown } = v;
+    if (!breakdown || v.passed) return null;
+    if (breakdown.until !== undefined) return this.time < breakdown.until ? 0 : null;
+    return this.distanceToStopLine(v) - breakdown.distance + this.classes[v.vehicleClass].minGap;
+  }
+
+  // The breakdown starts once the vehicle has pulled up at its spot
+  private updateBreakdown(v: SimVehicle, newSpeed: number, distance: number): Breakdown | undefined {
+    const { breakdown } = v;
+    if (!breakdown || breakdown.until !== undefined || newSpeed >= STOP_THRESHOLD) return breakdown;
+    const short = this.distanceToStopLine(v) - distance - breakdown.distance;
+    return short <= BREAKDOWN_REACH ? { ...breakdown, until: this.time + breakdown.duration } : breakdown;
+  }
+
+  private hasStoppedAtFlash(v: SimVehicle): boolean {
+    if (this.mode !== 'flash' || isFlashMainRoad(v.origin) || (v.waiting || 0) < FLASH_STOP_TIME) return false;
+    const distance = this.distanceToStopLine(v);
+    return distance > -STOP_LINE_TOLERANCE && distance <= QUEUE_HEAD_RANGE;
+  }
+
+  /**
+   * At a flashing red every movement stops at the line, then goes once nothing
+   * crossing its path is in the junction, no main-road vehicle could reach it
+   * within the critical gap and no side-road vehicle has been waiting longer.
+   * Having pulled away it is committed and is not held again.
+   */
+  private mustYieldAtFlash(v: SimVehicle): boolean {
+    if (v.turned || v.turnDistance !== undefined) return false;
+    const distance = this.distanceToStopLine(v);
+    if (distance < -STOP_LINE_TOLERANCE || distance >= STOP_ZONE_START - STOP_LINE_OFFSET) return false;
+    if (!v.stoppedAtLine) return true;
+    if ((v.currentSpeed || 0) >= STOP_THRESHOLD) return false;
+
+    return this.vehicles.some(o => {
+      if (o.id === v.id || o.turned || !movementsConflict(v.origin, v.movement, o.origin, o.movement, this.laneCounts)) return false;
+      if (o.turnDistance !== undefined) return true;
+      const along = alongApproach(o.dir, o.x, o.y, this.center);
+      if (along >= -STOP_LINE_OFFSET && along <= STOP_LINE_OFFSET) return true;
+      const gap = this.distanceToStopLine(o);
+      if (gap < 0) return false;
+      // The main road runs on at its free speed through a flashing yellow
+      if (isFlashMainRoad(o.origin)) return gap <= (Math.max(o.currentSpeed || 0, o.maxSpeed) / FIXED_DT) * CRITICAL_GAP;
+      // A side-road vehicle already pulling away from its line has claimed the junction
+      return !!o.stoppedAtLine && ((o.currentSpeed || 0) >= STOP_THRESHOLD || (o.waiting || 0) > (v.waiting || 0));
+    });
+  }
+
+  // Nearest vehicle ahead in the same lane; a turning vehicle also watches the lane it merges into
+  private findLeader(v: SimVehicle, others: SimVehicle[]): Obstacle | null {
+    const heading = { x: Math.cos((v.angle * Math.PI) / 180), y: Math.sin((v.angle * Math.PI) / 180) };
+    const mergeLane = v.turnDistance !== undefined ? exitDirection(v.origin, v.movement) : v.dir;
+    let leader: Obstacle | null = null;
+    for (const o of others) {
+      if (o.id === v.id || (o.dir !== v.dir && o.dir !== mergeLane)) continue;
+      const rx = o.x - v.x, ry = o.y - v.y;
+      const ahead = rx * heading.x + ry * heading.y;
+      const lateral = Math.abs(rx * heading.y - ry * heading.x);
+      // A leader swinging out of the lane through a turn still blocks it with the tail of its body
+      const relative = ((o.angle - v.angle) * Math.PI) / 180;
+      const reach = (VEHICLE_CLASSES[v.vehicleClass].width + VEHICLE_CLASSES[o.vehicleClass].width) / 2 +
+                    (o.length / 2) * Math.abs(Math.sin(relative));
+      if (ahead <= 0 || ahead > LEADER_LOOKAHEAD || lateral >= reach) continue;
+      const gap = ahead - (v.length + o.length * Math.abs(Math.cos(relative))) / 2;
+      if (leader && gap >= leader.gap) continue;
+      leader = { gap, speed: ((o.currentSpeed || 0) / FIXED_DT) * Math.cos(relative) };
+    }
+    return leader;
+  }
+
+  private hasCrossedCentre(v: Vehicle): boolean {
+    return alongApproach(v.dir, v.x, v.y, this.center) > 0;
+  }
+}
@@ -0,0 +1,263 @@
+import { Direction, Phase } from '../types';
+import { SignalStage, SignalMode } from './signalPlan';
+import { WalkSignal } from './pedestrians';
+import { RewardBreakdown } from './reward';
+import { EmergencyKind } from './emergency';
+import { Movement } from './geometry';
+import { NetworkLayoutId } from './network';
+import { DecisionSource } from './explain';
+import { VehicleClassId } from './vehicles';
+import { Hyperparameters } from './hyperparameters';
+
+const DB_NAME = 'neural-traffic';
+const DB_VERSION = 1;
+const FLUSH_SIZE = 200;              // buffered records written per IndexedDB transaction
+const FRAME_EPISODES_KEPT = 20;      // most recent ended episodes whose vehicle snapshots are kept for replay
+export const SNAPSHOT_INTERVAL = 1;  // simulated seconds between vehicle snapshots
+
+// What one junction's signal heads show at a moment in time
+export interface SignalSnapshot {
+  stage: SignalStage;
+  phase: Phase;
+  timer: number;
+  preemptedApproach: Direction | null;
+  walk: Record<Direction, WalkSignal>;
+  mode?: SignalMode;   // absent in recordings made before operator modes
+}
+
+export interface VehicleSnapshot {
+  id: string;
+  x: number;
+  y: number;
+  angle: number;
+  length: number;
+  vehicleClass: VehicleClassId;
+  color: string;
+  movement: Movement;
+  turned?: boolean;
+  isStopping?: boolean;
+  emergency?: EmergencyKind;
+}
+
+export interface FrameSnapshot {
+  runId: number;
+  episode: number;
+  time: number;
+  vehicles: VehicleSnapshot[];
+  pedestrians: { id: string; x: number; y: number; crossing: boolean }[];
+  signals: Record<string, SignalSnapshot>;
+}
+
+export interface DecisionRecord {
+  runId: number;
+  episode: number;
+  step: number;
+  time: number;
+  node: string;
+  state: number[];
+  action: string;
+  qValues: number[];
+  allowed?: boolean[];   // absent in recordings made before explanations honoured the shield
+  confidence: string;
+  source: DecisionSource;
+  reward: number;
+  breakdown: RewardBreakdown;
+  epsilon: number;
+  loss: number;
+}
+
+export interface EpisodeSummary {
+  runId: number;
+  episode: number;
+  endedAt: number;
+  decisions: number;
+  reward: number;
+  epsilon: number;
+  loss: number;
+}
+
+export interface RunSummary {
+  id: number;
+  label: string;
+  layout: NetworkLayoutId;   // replay needs the same road layout the run was recorded on
+  startedAt: string;
+  hyperparameters?: Hyperparameters;   // absent in runs recorded before the settings were editable
+}
+
+export interface EpisodeRecording {
+  summary: EpisodeSummary | null;
+  decisions: DecisionRecord[];
+  frames: FrameSnapshot[];
+}
+
+// --- IndexedDB Plumbing ---
+const request = <T,>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Deletes every record of `store` whose `episode` index key falls in `range`
+const deleteByEpisode = (store: IDBObjectStore, range: IDBKeyRange) => {
+  const cursorRequest = store.index('episode').openKeyCursor(range);
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available in this browser'));
+    return;
+  }
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore('runs', { keyPath: 'id', autoIncrement: true });
+    db.createObjectStore('episodes', { keyPath: ['runId', 'episode'] });
+    db.createObjectStore('decisions', { autoIncrement: true }).createIndex('episode', ['runId', 'episode']);
+    db.createObjectStore('frames', { autoIncrement: true }).createIndex('episode', ['runId', 'episode']);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+/**
+ * Buffers decision records and frame snapshots in memory and writes them to
+ * IndexedDB in batches, so recording costs one transaction every few hundred
+ * decisions instead of one per step. A batch that fails to write is reported
+ * through `onError` and dropped; later batches still go through. Frames are
+ * only kept for the last few ended episodes, the bulk of what a run stores.
+ */
+export class TelemetryRecorder {
+  private decisions: DecisionRecord[] = [];
+  private frames: FrameSnapshot[] = [];
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(private db: IDBDatabase, private onError: (message: string) => void) {}
+
+  static async open(onError: (message: string) => void): Promise<TelemetryRecorder> {
+    return new TelemetryRecorder(await openDatabase(), onError);
+  }
+
+  async startRun(label: string, layout: NetworkLayoutId, hyperparameters: Hyperparameters): Promise<number> {
+    await this.flush();
+    const tx = this.db.transaction('runs', 'readwrite');
+    const id = await request(tx.objectStore('runs').add({ label, layout, startedAt: new Date().toISOString(), hyperparameters }));
+    await transactionDone(tx);
+    return id as number;
+  }
+
+  recordDecision(record: DecisionRecord) {
+    this.decisions.push(record);
+    if (this.decisions.length + this.frames.length >= FLUSH_SIZE) this.flush();
+  }
+
+  recordFrame(frame: FrameSnapshot) {
+    this.frames.push(frame);
+    if (this.decisions.length + this.frames.length >= FLUSH_SIZE) this.flush();
+  }
+
+  async endEpisode(summary: EpisodeSummary) {
+    await this.flush();
+    const tx = this.db.transaction(['episodes', 'frames'], 'readwrite');
+    tx.objectStore('episodes').put(summary);
+    this.pruneFrames(tx);
+    await transactionDone(tx);
+  }
+
+  // Episode keys sort by run, then episode, so everything below the last few kept is older
+  private pruneFrames(tx: IDBTransaction) {
+    let seen = 0;
+    const cursorRequest = tx.objectStore('episodes').openKeyCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (++seen < FRAME_EPISODES_KEPT) cursor.continue();
+      else deleteByEpisode(tx.objectStore('frames'), IDBKeyRange.upperBound(cursor.key, true));
+    };
+  }
+
+  // Writes are chained so batches land in the order they were recorded; the chain itself never rejects
+  flush(): Promise<void> {
+    const decisions = this.decisions, frames = this.frames;
+    this.decisions = [];
+    this.frames = [];
+    if (decisions.length === 0 && frames.length === 0) return this.writing;
+
+    this.writing = this.writing.then(() => {
+      const tx = this.db.transaction(['decisions', 'frames'], 'readwrite');
+      decisions.forEach(d => tx.objectStore('decisions').add(d));
+      frames.forEach(f => tx.objectStore('frames').add(f));
+      return transactionDone(tx);
+    }).catch(err => {
+      this.onError(`${decisions.length + frames.length} telemetry records not saved: ${(err as Error | null)?.message ?? 'write aborted'}`);
+    });
+    return this.writing;
+  }
+
+  async listRuns(): Promise<RunSummary[]> {
+    const runs = await request(this.db.transaction('runs').objectStore('runs').getAll()) as RunSummary[];
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async listEpisodes(runId: number): Promise<EpisodeSummary[]> {
+    const range = IDBKeyRange.bound([runId, -Infinity], [runId, Infinity]);
+    return await request(this.db.transaction('episodes').objectStore('episodes').getAll(range)) as EpisodeSummary[];
+  }
+
+  async loadEpisode(runId: number, episode: number): Promise<EpisodeRecording> {
+    await this.flush();
+    const tx = this.db.transaction(['episodes', 'decisions', 'frames']);
+    const key = IDBKeyRange.only([runId, episode]);
+    const [summary, decisions, frames] = await Promise.all([
+      request(tx.objectStore('episodes').get([runId, episode])),
+      request(tx.objectStore('decisions').index('episode').getAll(key)),
+      request(tx.objectStore('frames').index('episode').getAll(key)),
+    ]);
+    return {
+      summary: (summary as EpisodeSummary | undefined) || null,
+      decisions: (decisions as DecisionRecord[]).sort((a, b) => a.time - b.time),
+      frames: (frames as FrameSnapshot[]).sort((a, b) => a.time - b.time),
+    };
+  }
+
+  async deleteRun(runId: number) {
+    await this.flush();
+    const tx = this.db.transaction(['runs', 'episodes', 'decisions', 'frames'], 'readwrite');
+    tx.objectStore('runs').delete(runId);
+    tx.objectStore('episodes').delete(IDBKeyRange.bound([runId, -Infinity], [runId, Infinity]));
+    const range = IDBKeyRange.bound([runId, -Infinity], [runId, Infinity]);
+    ['decisions', 'frames'].forEach(store => deleteByEpisode(tx.objectStore(store), range));
+    await transactionDone(tx);
+  }
+}
+
+// The most recent decision at or before `time` for a junction, as the AI panel showed it then
+export const decisionAt = (decisions: DecisionRecord[], time: number, node: string): DecisionRecord | null => {
+  let found: DecisionRecord | null = null;
+  for (const d of decisions) {
+    if (d.time > time) break;
+    if (d.node === node) found = d;
+  }
+  return found;
+};
+
+// Evenly thins a full-run series so charts stay responsive over thousands of episodes
+export const downsampleSeries = (values: number[], maxPoints: number): { index: number; value: number }[] => {
+  const step = Math.max(1, Math.ceil(values.length / maxPoints));
+  const points: { index: number; value: number }[] = [];
+  for (let i = 0; i < values.length; i += step) points.push({ index: i, value: values[i] });
+  if (values.length > 0 && points[points.length - 1].index !== values.length - 1) {
+    points.push({ index: values.length - 1, value: values[values.length - 1] });
+  }
+  return points;
+};
@@ -0,0 +1,150 @@
+import { Direction } from '../types';
+import { STOP_THRESHOLD } from '../constants';
+import { Movement } from './geometry';
+import { VehicleClassId } from './vehicles';
+import { EmissionTotals, emptyEmissionTotals } from './emissions';
+import { downloadTextFile } from './fileIO';
+
+const RESTART_SHARE = 0.5;     // share of free speed a stopped vehicle must regain before another stop counts
+const TRIP_LOG_LIMIT = 5000;   // completed trips kept per junction; older ones drop out of the log
+
+export interface StopState {
+  stops: number;
+  stopped: boolean;            // standing still since its last counted stop
+}
+
+// A stop ends only once the vehicle is properly under way again, so creeping up a queue counts once
+export const nextStopState = ({ stops, stopped }: StopState, speed: number, freeSpeed: number): StopState => {
+  if (speed < STOP_THRESHOLD && !stopped) return { stops: stops + 1, stopped: true };
+  if (speed >= freeSpeed * RESTART_SHARE) return { stops, stopped: false };
+  return { stops, stopped };
+};
+
+// A vehicle's way through one junction so far; a vehicle driving on into a neighbour starts a new one there
+export interface TripRecord extends StopState {
+  spawnedAt: number;                  // s, when it arrived, including any time held back at the entry
+  reachedStopLineAt: number | null;
+  clearedAt: number | null;           // left the junction box
+  delay: number;                      // s lost against covering the same ground at free-flow speed
+  emitted: EmissionTotals;            // on this junction's tile
+}
+
+// Arrivals enter from a standstill, which only counts as a stop if they were held back at the entry; that time is all delay
+export const startTrip = (spawnedAt: number, time: number): TripRecord => ({
+  spawnedAt, reachedStopLineAt: null, clearedAt: null, delay: Math.max(0, time - spawnedAt), stops: 0, stopped: time <= spawnedAt,
+  emitted: emptyEmissionTotals(),
+});
+
+export interface CompletedTrip {
+  id: string;
+  approach: Direction;
+  movement: Movement;
+  vehicleClass: VehicleClassId;
+  spawnedAt: number;
+  reachedStopLineAt: number | null;
+  clearedAt: number | null;
+  completedAt: number;               // left the junction's tile
+  travelTime: number;                // s
+  delay: number;                     // s
+  stops: number;
+  emitted: EmissionTotals;
+}
+
+// A completed trip tagged with the junction it was made through
+export type LoggedTrip = CompletedTrip & { node: string };
+
+export class TripLog {
+  public trips: CompletedTrip[] = [];
+  public total = 0;   // completed since the reset, including any that have dropped out of the log
+
+  reset() {
+    this.trips = [];
+    this.total = 0;
+  }
+
+  record(trip: CompletedTrip) {
+    this.trips.push(trip);
+    this.total++;
+    if (this.trips.length > TRIP_LOG_LIMIT) this.trips.shift();
+  }
+}
+
+// --- Queries ---
+export interface TripFilter {
+  node?: string;
+  approach?: Direction;
+  movement?: Movement;
+  vehicleClass?: VehicleClassId;
+  since?: number;                    // s; only trips completed at or after this time
+}
+
+export const filterTrips = (trips: LoggedTrip[], { node, approach, movement, vehicleClass, since }: TripFilter): LoggedTrip[] =>
+  trips.filter(t =>
+    (node === undefined || t.node === node) && (approach === undefined || t.approach === approach) &&
+    (movement === undefined || t.movement === movement) && (vehicleClass === undefined || t.vehicleClass === vehicleClass) &&
+    (since === undefined || t.completedAt >= since));
+
+// --- Level of Service ---
+export type LevelOfService = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+// Upper bounds of mean control delay per vehicle (s) at a signalised junction, after the Highway Capacity Manual
+const LOS_THRESHOLDS: [LevelOfService, number][] = [['A', 10], ['B', 20], ['C', 35], ['D', 55], ['E', 80]];
+
+export const LOS_COLORS: Record<LevelOfService, string> = {
+  A: '#10b981', B: '#84cc16', C: '#eab308', D: '#f59e0b', E: '#f97316', F: '#ef4444',
+};
+
+export const levelOfService = (delay: number): LevelOfService =>
+  LOS_THRESHOLDS.find(([, max]) => delay <= max)?.[0] ?? 'F';
+
+export interface ApproachService {
+  trips: number;
+  meanDelay: number;
+  meanStops: number;
+  meanTravelTime: number;
+  los: LevelOfService | null;        // null until a trip on the approach has completed
+}
+
+export const summarizeApproaches = (trips: CompletedTrip[]): Record<Direction, ApproachService> => {
+  const summarize = (dir: Direction): ApproachService => {
+    const own = trips.filter(t => t.approach === dir);
+    const mean = (value: (t: CompletedTrip) => number) => own.length ? own.reduce((sum, t) => sum + value(t), 0) / own.length : 0;
+    const meanDelay = mean(t => t.delay);
+    return {
+      trips: own.length, meanDelay, meanStops: mean(t => t.stops), meanTravelTime: mean(t => t.travelTime),
+      los: own.length ? levelOfService(meanDelay) : null,
+    };
+  };
+  return { N: summarize(Direction.N), S: summarize(Direction.S), E: summarize(Direction.E), W: summarize(Direction.W) };
+};
+
+// Trips per band of delay; the last band is open-ended
+export const delayHistogram = (trips: CompletedTrip[], binWidth = 10, bins = 9): { label: string; count: number }[] =>
+  Array.from({ length: bins }, (_, i) => {
+    const from = i * binWidth;
+    const last = i === bins - 1;
+    return {
+      label: last ? `${from}+` : `${from}–${from + binWidth}`,
+      count: trips.filter(t => t.delay >= from && (last || t.delay < from + binWidth)).length,
+    };
+  });
+
+// --- Export ---
+export const tripsToCsv = (trips: LoggedTrip[]): string => {
+  const header = [
+    'id', 'node', 'approach', 'movement', 'vehicle_class', 'spawned_s', 'reached_stop_line_s', 'cleared_s', 'completed_s',
+    'travel_time_s', 'delay_s', 'stops', 'los', 'co2_g', 'nox_g', 'fuel_ml', 'distance_km',
+  ];
+  const time = (value: number | null) => value === null ? '' : value.toFixed(2);
+  const lines = trips.map(t => [
+    t.id, t.node, t.approach, t.movement, t.vehicleClass, time(t.spawnedAt), time(t.reachedStopLineAt), time(t.clearedAt),
+    time(t.completedAt), t.travelTime.toFixed(2), t.delay.toFixed(2), t.stops, levelOfService(t.delay),
+    t.emitted.co2.toFixed(2), t.emitted.nox.toFixed(4), t.emitted.fuel.toFixed(2), t.emitted.distance.toFixed(4),
+  ].join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const exportTrips = (trips: LoggedTrip[]) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  downloadTextFile(`trips-${stamp}.csv`, tripsToCsv(trips), 'text/csv');
+};
@@ -0,0 +1,96 @@
+import { CAR_WIDTH, CAR_HEIGHT, TRUCK_WIDTH } from '../constants';
+import { SeededRandom } from './random';
+import { EmissionProfileId } from './emissions';
+
+export type VehicleClassId = 'car' | 'truck' | 'bus' | 'motorcycle' | 'ev';
+
+export const VEHICLE_CLASS_IDS: VehicleClassId[] = ['car', 'truck', 'bus', 'motorcycle', 'ev'];
+
+// Scale of the scene, used wherever model distances meet real-world units
+export const PX_PER_METRE = 10;
+
+/**
+ * Everything that distinguishes one kind of vehicle in the model. Distances
+ * are in px and times in simulated seconds, with dynamics tuned for the
+ * scene's short approaches.
+ */
+export interface VehicleClass {
+  label: string;
+  body: 'sedan' | 'truck';   // the shared Vehicle type only knows these two
+  length: number;
+  width: number;
+  speedFactor: number;       // share of the weather's cruise speed
+  maxAccel: number;          // px/s², IDM maximum acceleration
+  comfortDecel: number;      // px/s², IDM comfortable deceleration
+  maxDecel: number;          // px/s², hardest braking the vehicle can do
+  headway: number;           // s, desired time gap to the vehicle ahead
+  minGap: number;            // px, bumper-to-bumper gap kept when stopped
+  reactionTime: number;      // s before pulling away once the way ahead clears
+  emission: EmissionProfileId;
+  color: string | null;      // null draws a random paint colour
+}
+
+export const VEHICLE_CLASSES: Record<VehicleClassId, VehicleClass> = {
+  car: {
+    label: 'Car', body: 'sedan', length: CAR_WIDTH, width: CAR_HEIGHT, speedFactor: 1,
+    maxAccel: 45, comfortDecel: 60, maxDecel: 140, headway: 1, minGap: 15, reactionTime: 0.4,
+    emission: 'petrolCar', color: null,
+  },
+  truck: {
+    label: 'Truck', body: 'truck', length: TRUCK_WIDTH, width: 32, speedFactor: 0.85,
+    maxAccel: 20, comfortDecel: 40, maxDecel: 100, headway: 1.6, minGap: 20, reactionTime: 0.6,
+    emission: 'dieselTruck', color: '#475569',
+  },
+  bus: {
+    label: 'Bus', body: 'truck', length: 90, width: 30, speedFactor: 0.8,
+    maxAccel: 22, comfortDecel: 40, maxDecel: 100, headway: 1.5, minGap: 20, reactionTime: 0.6,
+    emission: 'dieselBus', color: '#ca8a04',
+  },
+  motorcycle: {
+    label: 'Motorcycle', body: 'sedan', length: 24, width: 12, speedFactor: 1.1,
+    maxAccel: 70, comfortDecel: 70, maxDecel: 160, headway: 0.8, minGap: 10, reactionTime: 0.3,
+    emission: 'motorcycle', color: null,
+  },
+  ev: {
+    label: 'EV', body: 'sedan', length: 42, width: CAR_HEIGHT, speedFactor: 1,
+    maxAccel: 60, comfortDecel: 60, maxDecel: 140, headway: 1, minGap: 15, reactionTime: 0.4,
+    emission: 'electric', color: '#14b8a6',
+  },
+};
+
+// Relative weights of each class among arrivals; they need not sum to one
+export type VehicleMix = Record<VehicleClassId, number>;
+
+export const carsAndTrucks = (truckShare: number): VehicleMix => ({
+  car: 1 - truckShare, truck: truckShare, bus: 0, motorcycle: 0, ev: 0,
+});
+
+// One draw per arrival whatever the mix, so changing the mix never shifts the rest of the random sequence
+export const drawVehicleClass = (mix: VehicleMix, rng: SeededRandom): VehicleClassId => {
+  const total = VEHICLE_CLASS_IDS.reduce((sum, id) => sum + Math.max(0, mix[id] || 0), 0);
+  let roll = rng.next() * total;
+  for (const id of VEHICLE_CLASS_IDS) {
+    roll -= Math.max(0, mix[id] || 0);
+    if (roll < 0) return id;
+  }
+  return 'car';
+};
+
+// --- Car Following ---
+const ACCEL_EXPONENT = 4;
+
+/**
+ * Intelligent Driver Model acceleration in px/s². `gap` is the free distance
+ * to the obstacle ahead and `leaderSpeed` its speed along our heading, both
+ * null on a free road. The result is limited to the class's hardest braking.
+ */
+export const idmAcceleration = (
+  cls: VehicleClass, speed: number, desiredSpeed: number, gap: number | null, leaderSpeed = 0
+): number => {
+  const free = desiredSpeed > 0 ? 1 - Math.pow(speed / desiredSpeed, ACCEL_EXPONENT) : -1;
+  if (gap === null) return Math.max(-cls.maxDecel, cls.maxAccel * free);
+  const approach = speed - leaderSpeed;
+  const desiredGap = cls.minGap + Math.max(0, speed * cls.headway + (speed * approach) / (2 * Math.sqrt(cls.maxAccel * cls.comfortDecel)));
+  const interaction = Math.pow(desiredGap / Math.max(gap, 0.1), 2);
+  return Math.max(-cls.maxDecel, cls.maxAccel * (free - interaction));
+};
@@ -0,0 +1,180 @@
+import { WEATHER } from '../constants';
+import { SeededRandom } from './random';
+import { VehicleClass } from './vehicles';
+
+// What a weather condition does to driving and detection, on top of the cruise speed in WEATHER
+export interface WeatherEffects {
+  speed: number;        // px per tick cruise speed
+  decel: number;        // multiplier on comfortable and hardest braking
+  headway: number;      // multiplier on the desired time gap
+  detection: number;    // multiplier on detector and preemption ranges
+  visibility: number;   // 0-1, how clearly the scene is drawn
+}
+
+const CONDITION_EFFECTS: Record<string, Omit<WeatherEffects, 'speed'>> = {
+  SUNNY: { decel: 1,    headway: 1,   detection: 1,    visibility: 1 },
+  RAIN:  { decel: 0.65, headway: 1.4, detection: 0.85, visibility: 0.75 },
+  FOG:   { decel: 0.9,  headway: 1.3, detection: 0.45, visibility: 0.35 },
+};
+
+export const weatherEffects = (weather: string): WeatherEffects => ({
+  speed: WEATHER[weather].speed, ...(CONDITION_EFFECTS[weather] || CONDITION_EFFECTS.SUNNY),
+});
+
+const blendEffects = (from: WeatherEffects, to: WeatherEffects, share: number): WeatherEffects => {
+  const mix = (key: keyof WeatherEffects) => from[key] + (to[key] - from[key]) * share;
+  return { speed: mix('speed'), decel: mix('decel'), headway: mix('headway'), detection: mix('detection'), visibility: mix('visibility') };
+};
+
+// A vehicle class as driven in these conditions
+export const adjustForWeather = (cls: VehicleClass, effects: WeatherEffects): VehicleClass => ({
+  ...cls,
+  comfortDecel: cls.comfortDecel * effects.decel,
+  maxDecel: cls.maxDecel * effects.decel,
+  headway: cls.headway * effects.headway,
+});
+
+// --- Scripts ---
+export type WeatherScriptMode = 'fixed' | 'schedule' | 'random';
+
+export interface WeatherChange {
+  at: number;          // s of simulated time
+  weather: string;
+}
+
+/**
+ * How the weather develops over a run. `fixed` holds `initial`, `schedule`
+ * switches at the listed times and `random` draws spells of exponentially
+ * distributed length from its own seed, so every junction of a network and
+ * every rerun of a scenario sees the same sky.
+ */
+export interface WeatherScript {
+  mode: WeatherScriptMode;
+  initial: string;
+  schedule: WeatherChange[];
+  meanSpell: number;   // s, random mode
+  transition: number;  // s over which one condition blends into the next
+  seed: number;
+}
+
+export const WEATHER_SCRIPT_MODES: Record<WeatherScriptMode, string> = {
+  fixed: 'Fixed',
+  schedule: 'Schedule',
+  random: 'Random',
+};
+
+export const fixedWeather = (weather: string): WeatherScript => ({
+  mode: 'fixed', initial: weather, schedule: [], meanSpell: 600, transition: 30, seed: 1,
+});
+
+export const DEFAULT_WEATHER_SCRIPT = fixedWeather('SUNNY');
+
+const MIN_SPELL = 60;   // s, shortest random spell
+
+export const describeWeatherScript = (script: WeatherScript): string => {
+  if (script.mode === 'fixed') return script.initial;
+  if (script.mode === 'random') return `random from ${script.initial}, ~${Math.round(script.meanSpell / 60)} min spells`;
+  return [script.initial, ...script.schedule.map(change => `${change.weather}@${change.at}s`)].join(' → ');
+};
+
+export interface WeatherState {
+  weather: string;           // the condition that dominates right now
+  effects: WeatherEffects;
+}
+
+/**
+ * Plays a script against simulated time. Random spells are drawn lazily as
+ * time advances, so a long run costs nothing up front.
+ */
+export class WeatherTimeline {
+  private changes: WeatherChange[];
+  private rng: SeededRandom;
+
+  constructor(public readonly script: WeatherScript) {
+    this.rng = new SeededRandom(script.seed);
+    this.changes = script.mode === 'schedule'
+      ? script.schedule.filter(change => WEATHER[change.weather]).sort((a, b) => a.at - b.at)
+      : [];
+  }
+
+  at(time: number): WeatherState {
+    if (this.script.mode === 'random') this.drawSpellsUntil(time);
+    let index = -1;
+    while (index + 1 < this.changes.length && this.changes[index + 1].at <= time) index++;
+    if (index < 0) return { weather: this.script.initial, effects: weatherEffects(this.script.initial) };
+
+    const change = this.changes[index];
+    const previous = index > 0 ? this.changes[index - 1].weather : this.script.initial;
+    const share = this.script.transition > 0 ? Math.min(1, (time - change.at) / this.script.transition) : 1;
+    return {
+      weather: share < 0.5 ? previous : change.weather,
+      effects: blendEffects(weatherEffects(previous), weatherEffects(change.weather), share),
+    };
+  }
+
+  private drawSpellsUntil(time: number) {
+    const conditions = Object.keys(WEATHER);
+    let last = this.changes[this.changes.length - 1] || { at: 0, weather: this.script.initial };
+    while (last.at <= time) {
+      const spell = Math.max(MIN_SPELL, -Math.log(1 - this.rng.next()) * this.script.meanSpell);
+      const others = conditions.filter(weather => weather !== last.weather);
+      last = { at: last.at + spell, weather: this.rng.pick(others) };
+      this.changes.push(last);
+    }
+  }
+}
+
+// --- Performance by Condition ---
+export interface WeatherPerformance {
+  time: number;            // s simulated under the condition
+  vehiclesPassed: number;
+  waitTime: number;        // vehicle-seconds stopped
+  reward: number;
+  decisions: number;
+}
+
+export type WeatherBreakdown = Record<string, WeatherPerformance>;
+
+// The condition's entry in `breakdown`, created on first use
+export const weatherBucket = (breakdown: WeatherBreakdown, weather: string): WeatherPerformance =>
+  breakdown[weather] || (breakdown[weather] = { time: 0, vehiclesPassed: 0, waitTime: 0, reward: 0, decisions: 0 });
+
+export const mergeWeatherBreakdowns = (breakdowns: WeatherBreakdown[]): WeatherBreakdown => {
+  const merged: WeatherBreakdown = {};
+  breakdowns.forEach(breakdown => Object.entries(breakdown).forEach(([weather, stats]) => {
+    const bucket = weatherBucket(merged, weather);
+    bucket.time += stats.time;
+    bucket.vehiclesPassed += stats.vehiclesPassed;
+    bucket.waitTime += stats.waitTime;
+    bucket.reward += stats.reward;
+    bucket.decisions += stats.decisions;
+  }));
+  return merged;
+};
+
+// --- Saved Script ---
+const SCRIPT_STORAGE_KEY = 'neural-traffic:weather-script';
+
+export const normalizeWeatherScript = (script: WeatherScript): WeatherScript => ({
+  ...script,
+  initial: WEATHER[script.initial] ? script.initial : 'SUNNY',
+  schedule: script.schedule
+    .filter(change => WEATHER[change.weather] && Number.isFinite(change.at))
+    .map(change => ({ ...change, at: Math.max(0, change.at) })),
+  meanSpell: Math.max(MIN_SPELL, script.meanSpell),
+  transition: Math.max(0, script.transition),
+});
+
+export const loadWeatherScript = (): WeatherScript => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SCRIPT_STORAGE_KEY) || 'null');
+    if (!stored || !(stored.mode in WEATHER_SCRIPT_MODES) || !Array.isArray(stored.schedule)) return DEFAULT_WEATHER_SCRIPT;
+    return normalizeWeatherScript({ ...DEFAULT_WEATHER_SCRIPT, ...stored });
+  } catch {
+    return DEFAULT_WEATHER_SCRIPT;
+  }
+};
+
+export const saveWeatherScript = (script: WeatherScript) => {
+  localStorage.setItem(SCRIPT_STORAGE_KEY, JSON.stringify(script));
+};